@@ -10,6 +10,8 @@ import {
   PaginatedResponse,
   APIError,
 } from '../types/index.js';
+import { JURISDICTION_ALIASES } from '../knowledge/jurisdictions.js';
+import { parseDisclosedTargets } from './disclosureTargets.js';
 
 const BASE_URL = 'https://nzdpu.com/wis';
 
@@ -78,26 +80,9 @@ function toTitleCase(str: string): string {
 }
 
 function normalizeJurisdiction(jurisdiction: string): string {
-  // Common country name variations - expand to cover more aliases
-  const mappings: Record<string, string> = {
-    'usa': 'United States of America',
-    'us': 'United States of America',
-    'united states': 'United States of America',
-    'united states of america': 'United States of America',
-    'america': 'United States of America',
-    'uk': 'United Kingdom of Great Britain and Northern Ireland',
-    'united kingdom': 'United Kingdom of Great Britain and Northern Ireland',
-    'great britain': 'United Kingdom of Great Britain and Northern Ireland',
-    'britain': 'United Kingdom of Great Britain and Northern Ireland',
-    'england': 'United Kingdom of Great Britain and Northern Ireland',
-    'uae': 'United Arab Emirates',
-    'korea': 'Republic of Korea',
-    'south korea': 'Republic of Korea',
-  };
-  
-  const lower = jurisdiction.toLowerCase().trim();
-  if (mappings[lower]) {
-    return mappings[lower];
+  const alias = JURISDICTION_ALIASES[jurisdiction.toLowerCase().trim()];
+  if (alias) {
+    return alias;
   }
   
   // Apply title case for standard country names
@@ -1045,45 +1030,15 @@ function extractScope3Categories(details: Record<string, unknown>): Scope3Catego
 }
 
 function extractTargets(details: Record<string, unknown>, companyId: number): EmissionsTarget[] {
-  const targets: EmissionsTarget[] = [];
-  
-  // Extract absolute targets
-  const absTargets = details['tgt_abs_dict'] as Array<Record<string, unknown>> | undefined;
-  if (absTargets) {
-    for (const target of absTargets) {
-      if (target['tgt_abs_id'] && target['tgt_abs_id'] !== '—') {
-        targets.push({
-          company_id: companyId,
-          target_type: 'absolute',
-          target_year: target['tgt_abs_target_year'] as number,
-          base_year: target['tgt_abs_base_year'] as number,
-          target_scope: target['tgt_abs_cvg_scope'] as string || '',
-          target_percentage: parseEmissionValue(target['tgt_abs_target_year_total_perc_reduction']),
-          sbti_status: target['tgt_abs_ambition'] as string | undefined,
-        });
-      }
-    }
-  }
-  
-  // Extract intensity targets
-  const intTargets = details['tgt_int_dict'] as Array<Record<string, unknown>> | undefined;
-  if (intTargets) {
-    for (const target of intTargets) {
-      if (target['tgt_int_id'] && target['tgt_int_id'] !== '—') {
-        targets.push({
-          company_id: companyId,
-          target_type: 'intensity',
-          target_year: target['tgt_int_target_year'] as number,
-          base_year: target['tgt_int_base_year'] as number,
-          target_scope: target['tgt_int_cvg_scope'] as string || '',
-          target_percentage: parseEmissionValue(target['tgt_int_target_year_total_int_perc_reduction']),
-          sbti_status: target['tgt_int_ambition'] as string | undefined,
-        });
-      }
-    }
-  }
-  
-  return targets;
+  return parseDisclosedTargets(details).map(target => ({
+    company_id: companyId,
+    target_type: target.target_type,
+    target_year: target.target_year,
+    base_year: target.base_year,
+    target_scope: target.target_scope || '',
+    target_percentage: target.target_percentage ?? undefined,
+    sbti_status: target.sbti_status ?? undefined,
+  }));
 }
 
 // Singleton instance management
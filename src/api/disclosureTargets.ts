@@ -0,0 +1,67 @@
+/**
+ * Reduction targets and reported numbers in an NZDPU disclosure
+ * Shared by the API client and the database build so both read the same fields
+ */
+
+export interface DisclosedTarget {
+  target_id: string;
+  target_type: 'absolute' | 'intensity';
+  target_scope: string | null;
+  base_year: number | null;
+  target_year: number | null;
+  target_percentage: number | null;
+  sbti_status: string | null;
+}
+
+// Disclosure fields for each target type: the list of targets and each target's field prefix
+const TARGET_FIELDS: Record<DisclosedTarget['target_type'], { dict: string; prefix: string; percentage: string }> = {
+  absolute: { dict: 'tgt_abs_dict', prefix: 'tgt_abs', percentage: 'tgt_abs_target_year_total_perc_reduction' },
+  intensity: { dict: 'tgt_int_dict', prefix: 'tgt_int', percentage: 'tgt_int_target_year_total_int_perc_reduction' },
+};
+
+// NZDPU uses an em dash for fields left blank
+const isReported = (value: unknown): boolean =>
+  value !== null && value !== undefined && value !== '' && value !== '—';
+
+/**
+ * Parse a reported number, keeping zero; missing or non-numeric values become null
+ */
+export function parseReportedNumber(value: unknown, parse: (text: string) => number = parseFloat): number | null {
+  if (!isReported(value)) return null;
+  const parsed = typeof value === 'number' ? value : parse(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+const parseYear = (value: unknown) => parseReportedNumber(value, text => parseInt(text, 10));
+
+/**
+ * Absolute and intensity targets from a disclosure's values
+ * Entries without a target id are skipped
+ */
+export function parseDisclosedTargets(values: Record<string, unknown>): DisclosedTarget[] {
+  const targets: DisclosedTarget[] = [];
+
+  for (const [type, fields] of Object.entries(TARGET_FIELDS) as [DisclosedTarget['target_type'], typeof TARGET_FIELDS['absolute']][]) {
+    const entries = values[fields.dict];
+    if (!Array.isArray(entries)) continue;
+
+    for (const entry of entries as Record<string, unknown>[]) {
+      const id = entry[`${fields.prefix}_id`];
+      if (!isReported(id)) continue;
+
+      const scope = entry[`${fields.prefix}_cvg_scope`];
+      const ambition = entry[`${fields.prefix}_ambition`];
+      targets.push({
+        target_id: String(id),
+        target_type: type,
+        target_scope: isReported(scope) ? String(scope) : null,
+        base_year: parseYear(entry[`${fields.prefix}_base_year`]),
+        target_year: parseYear(entry[`${fields.prefix}_target_year`]),
+        target_percentage: parseReportedNumber(entry[fields.percentage]),
+        sbti_status: isReported(ambition) ? String(ambition) : null,
+      });
+    }
+  }
+
+  return targets;
+}
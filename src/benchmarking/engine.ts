@@ -13,7 +13,87 @@ import {
 import { getClient } from '../api/client.js';
 import { checkScope2Comparability } from '../knowledge/comparability.js';
 
+// Peer groups below MIN_PEER_COUNT are too small to benchmark against; below
+// SMALL_SAMPLE_PEERS the tails (percentiles, deciles, median interval) are unstable
+export const MIN_PEER_COUNT = 3;
+export const SMALL_SAMPLE_PEERS = 10;
+
+// Share cut from each tail for the trimmed and winsorized means
+const TRIM_FRACTION = 0.1;
+
+// Percentile bootstrap for the median; fixed seed so repeated calls agree
+const BOOTSTRAP_RESAMPLES = 1000;
+const BOOTSTRAP_LEVEL = 0.95;
+const BOOTSTRAP_SEED = 0x5eed;
+
+// Median of an ascending array
+function sortedMedian(sorted: ArrayLike<number>): number {
+  const n = sorted.length;
+  return n % 2 === 0
+    ? (sorted[n / 2 - 1] + sorted[n / 2]) / 2
+    : sorted[Math.floor(n / 2)];
+}
+
+// Deterministic uniform [0, 1) generator (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Bootstrap confidence interval for the median of an ascending array
+// Resamples are drawn as index counts, so each median costs O(n) rather than a sort.
+function bootstrapMedianCI(sorted: number[]): NonNullable<PeerGroupStats['medianCI']> {
+  const n = sorted.length;
+  const random = seededRandom(BOOTSTRAP_SEED);
+  const counts = new Int32Array(n);
+  const medians = new Float64Array(BOOTSTRAP_RESAMPLES);
+  const lowRank = Math.floor((n - 1) / 2);
+  const highRank = Math.floor(n / 2);
+
+  for (let b = 0; b < BOOTSTRAP_RESAMPLES; b++) {
+    counts.fill(0);
+    for (let i = 0; i < n; i++) counts[Math.floor(random() * n)]++;
+    let seen = 0;
+    let low = 0;
+    let idx = 0;
+    for (; idx < n; idx++) {
+      seen += counts[idx];
+      if (seen > lowRank) { low = sorted[idx]; break; }
+    }
+    while (seen <= highRank) seen += counts[++idx];
+    medians[b] = (low + sorted[idx]) / 2;
+  }
+
+  medians.sort();
+  const tail = (1 - BOOTSTRAP_LEVEL) / 2;
+  return {
+    lower: medians[Math.floor(BOOTSTRAP_RESAMPLES * tail)],
+    upper: medians[Math.ceil(BOOTSTRAP_RESAMPLES * (1 - tail)) - 1],
+    level: BOOTSTRAP_LEVEL,
+    resamples: BOOTSTRAP_RESAMPLES,
+  };
+}
+
+// Caveat for small peer groups, null when the group is large enough
+export function peerSampleWarning(count: number): string | null {
+  if (count < MIN_PEER_COUNT) {
+    return `Only ${count} peer(s): minimum ${MIN_PEER_COUNT} peers required for statistical significance.`;
+  }
+  if (count < SMALL_SAMPLE_PEERS) {
+    return `Only ${count} peers: percentiles, deciles and the median interval are unstable below ${SMALL_SAMPLE_PEERS}.`;
+  }
+  return null;
+}
+
 // Calculate statistics for a peer group
+// Emissions span orders of magnitude, so the arithmetic mean and stdDev are dominated
+// by the largest emitters; the log-scale, trimmed and winsorized figures are not.
 export function calculatePeerStats(values: number[]): PeerGroupStats {
   if (values.length === 0) {
     return {
@@ -35,17 +115,33 @@ export function calculatePeerStats(values: number[]): PeerGroupStats {
   const mean = values.reduce((sum, v) => sum + v, 0) / n;
 
   // Median
-  const median = n % 2 === 0
-    ? (sorted[n / 2 - 1] + sorted[n / 2]) / 2
-    : sorted[Math.floor(n / 2)];
+  const median = sortedMedian(sorted);
 
   // Standard deviation
   const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / n;
   const stdDev = Math.sqrt(variance);
 
   // Percentiles
-  const percentile25 = sorted[Math.floor(n * 0.25)];
-  const percentile75 = sorted[Math.floor(n * 0.75)];
+  const percentile = (p: number) => sorted[Math.min(Math.floor(n * p), n - 1)];
+  const percentile25 = percentile(0.25);
+  const percentile75 = percentile(0.75);
+
+  // Log scale (geometric mean and stdDev of ln values); only defined when every value is > 0
+  let geometricMean: number | null = null;
+  let logStdDev: number | null = null;
+  if (sorted[0] > 0) {
+    const logs = sorted.map(v => Math.log(v));
+    const logMean = logs.reduce((sum, l) => sum + l, 0) / n;
+    geometricMean = Math.exp(logMean);
+    logStdDev = Math.sqrt(logs.reduce((sum, l) => sum + Math.pow(l - logMean, 2), 0) / n);
+  }
+
+  // Trimmed (tails dropped) and winsorized (tails clamped) means
+  const k = Math.floor(n * TRIM_FRACTION);
+  const trimmed = sorted.slice(k, n - k);
+  const trimmedMean = trimmed.reduce((sum, v) => sum + v, 0) / trimmed.length;
+  const winsorizedMean = sorted
+    .reduce((sum, v) => sum + Math.min(Math.max(v, sorted[k]), sorted[n - 1 - k]), 0) / n;
 
   return {
     count: n,
@@ -56,9 +152,39 @@ export function calculatePeerStats(values: number[]): PeerGroupStats {
     max: sorted[n - 1],
     percentile25,
     percentile75,
+    geometricMean,
+    logStdDev,
+    trimmedMean,
+    winsorizedMean,
+    iqr: percentile75 - percentile25,
+    deciles: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9].map(percentile),
+    medianCI: n >= MIN_PEER_COUNT ? bootstrapMedianCI(sorted) : null,
+    sampleWarning: peerSampleWarning(n),
   };
 }
 
+// Robust z-score cut-off (Iglewicz & Hoaglin): |z| above this is a likely outlier
+export const ROBUST_Z_THRESHOLD = 3.5;
+
+// Robust z-scores on log-transformed values: 0.6745 × (ln x − median) / MAD
+// Logs because emissions are right-skewed across orders of magnitude; values must be > 0.
+// Falls back to the mean absolute deviation when more than half the values are identical.
+export function calculateRobustZScores(values: number[]): { logMedian: number; mad: number; zScores: number[] } | null {
+  if (values.length === 0 || values.some(v => !(v > 0))) return null;
+
+  const logs = values.map(v => Math.log(v));
+  const logMedian = sortedMedian([...logs].sort((a, b) => a - b));
+  const deviations = logs.map(l => Math.abs(l - logMedian));
+  const mad = sortedMedian([...deviations].sort((a, b) => a - b));
+
+  if (mad > 0) {
+    return { logMedian, mad, zScores: logs.map(l => (0.6745 * (l - logMedian)) / mad) };
+  }
+  const meanDeviation = deviations.reduce((sum, d) => sum + d, 0) / deviations.length;
+  if (meanDeviation === 0) return null;
+  return { logMedian, mad, zScores: logs.map(l => (l - logMedian) / (1.2533 * meanDeviation)) };
+}
+
 // Calculate percentile rank
 export function calculatePercentileRank(value: number, values: number[]): number {
   if (values.length === 0) return 0;
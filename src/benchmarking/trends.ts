@@ -0,0 +1,160 @@
+// Trend Estimation
+// Slopes are fitted to ln(emissions) against year, so a slope b is a compound change of
+// exp(b) − 1 per year. Least squares gives the usual fit and t-interval; Theil–Sen (median of
+// pairwise slopes) resists a single odd year; Mann-Kendall tests for a monotonic trend
+// without assuming linearity or normal errors.
+
+// Fewer points cannot give an interval or a meaningful test
+export const MIN_TREND_POINTS = 3;
+
+// Two-sided significance level of the Mann-Kendall test, and confidence of the intervals
+export const TREND_ALPHA = 0.05;
+const CONFIDENCE_LEVEL = 1 - TREND_ALPHA;
+const Z_CRITICAL = 1.959964;
+
+// Two-sided 95% Student t critical values by degrees of freedom
+const T_CRITICAL_95: Record<number, number> = {
+  1: 12.706, 2: 4.303, 3: 3.182, 4: 2.776, 5: 2.571, 6: 2.447, 7: 2.365, 8: 2.306, 9: 2.262, 10: 2.228,
+  11: 2.201, 12: 2.179, 13: 2.16, 14: 2.145, 15: 2.131, 16: 2.12, 17: 2.11, 18: 2.101, 19: 2.093, 20: 2.086,
+  21: 2.08, 22: 2.074, 23: 2.069, 24: 2.064, 25: 2.06, 26: 2.056, 27: 2.052, 28: 2.048, 29: 2.045, 30: 2.042,
+};
+
+export interface TrendInterval {
+  lower: number;   // Annual % change
+  upper: number;
+  level: number;
+}
+
+export interface TrendEstimate {
+  points: number;
+  startYear: number;
+  endYear: number;
+  ols: {
+    slope: number;                // ln units per year
+    annualChangePercent: number;
+    ci: TrendInterval;
+    rSquared: number;
+  };
+  theilSen: {
+    slope: number;
+    annualChangePercent: number;
+    ci: TrendInterval | null;     // Null when too few pairs for the rank interval
+  };
+  mannKendall: {
+    s: number;
+    tau: number;
+    z: number;
+    pValue: number;
+    significant: boolean;         // pValue < TREND_ALPHA
+  };
+  direction: 'increasing' | 'decreasing' | 'no_significant_trend';
+}
+
+const toPercent = (slope: number) => (Math.exp(slope) - 1) * 100;
+
+function tCritical(df: number): number {
+  if (df <= 30) return T_CRITICAL_95[df];
+  if (df <= 40) return 2.021;
+  if (df <= 60) return 2.0;
+  if (df <= 120) return 1.98;
+  return Z_CRITICAL;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Variance of the Mann-Kendall S statistic, corrected for tied values
+function mannKendallVariance(values: number[]): number {
+  const n = values.length;
+  const ties = new Map<number, number>();
+  for (const v of values) ties.set(v, (ties.get(v) ?? 0) + 1);
+  let tieTerm = 0;
+  for (const t of ties.values()) tieTerm += t * (t - 1) * (2 * t + 5);
+  return (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+}
+
+// Fit trends to a yearly series; values <= 0 are dropped (no log), null below MIN_TREND_POINTS
+export function estimateTrend(series: { year: number; value: number | null }[]): TrendEstimate | null {
+  const points = series
+    .filter((p): p is { year: number; value: number } => p.value !== null && p.value > 0)
+    .sort((a, b) => a.year - b.year);
+  const n = points.length;
+  if (n < MIN_TREND_POINTS) return null;
+
+  const xs = points.map(p => p.year);
+  const ys = points.map(p => Math.log(p.value));
+
+  // Ordinary least squares
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  const slope = sxy / sxx;
+  const sse = Math.max(syy - slope * sxy, 0);
+  const se = Math.sqrt(sse / (n - 2) / sxx);
+  const margin = tCritical(n - 2) * se;
+
+  // Theil–Sen slope and Mann-Kendall S from the same pairs
+  const pairSlopes: number[] = [];
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      pairSlopes.push((ys[j] - ys[i]) / (xs[j] - xs[i]));
+      s += Math.sign(ys[j] - ys[i]);
+    }
+  }
+  pairSlopes.sort((a, b) => a - b);
+  const m = pairSlopes.length;
+  const senSlope = m % 2 === 0 ? (pairSlopes[m / 2 - 1] + pairSlopes[m / 2]) / 2 : pairSlopes[Math.floor(m / 2)];
+
+  const variance = mannKendallVariance(ys);
+  const sd = Math.sqrt(variance);
+  const z = sd === 0 || s === 0 ? 0 : (s - Math.sign(s)) / sd;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+  const significant = pValue < TREND_ALPHA;
+
+  // Rank interval for the Theil–Sen slope (Gilbert 1987): pair slopes at (m ∓ C) / 2
+  const c = Z_CRITICAL * sd;
+  const lowerRank = Math.round((m - c) / 2);
+  const upperRank = Math.round((m + c) / 2) + 1;
+  const senCi = lowerRank >= 1 && upperRank <= m
+    ? { lower: toPercent(pairSlopes[lowerRank - 1]), upper: toPercent(pairSlopes[upperRank - 1]), level: CONFIDENCE_LEVEL }
+    : null;
+
+  return {
+    points: n,
+    startYear: xs[0],
+    endYear: xs[n - 1],
+    ols: {
+      slope,
+      annualChangePercent: toPercent(slope),
+      ci: { lower: toPercent(slope - margin), upper: toPercent(slope + margin), level: CONFIDENCE_LEVEL },
+      rSquared: syy > 0 ? 1 - sse / syy : 1,
+    },
+    theilSen: {
+      slope: senSlope,
+      annualChangePercent: toPercent(senSlope),
+      ci: senCi,
+    },
+    mannKendall: {
+      s,
+      tau: s / m,
+      z,
+      pValue,
+      significant,
+    },
+    direction: !significant ? 'no_significant_trend' : s > 0 ? 'increasing' : 'decreasing',
+  };
+}
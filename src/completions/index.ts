@@ -0,0 +1,148 @@
+/**
+ * MCP argument completion
+ * Suggests jurisdictions, SICS sectors, companies and knowledge-base keys for prompt
+ * and resource arguments, so clients can offer the exact strings the filters expect
+ */
+
+import type { CompleteRequest, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import * as db from '../db/queries.js';
+import { JURISDICTION_ALIASES } from '../knowledge/jurisdictions.js';
+import { ghgConcepts, scope3Categories } from '../knowledge/concepts.js';
+import { reportingFrameworks } from '../knowledge/advanced.js';
+
+// The protocol caps a completion response at 100 values
+const MAX_VALUES = 100;
+
+const SCOPES = ['scope1', 'scope2_lb', 'scope2_mb', 'scope3', ...Array.from({ length: 15 }, (_, i) => `scope3_cat_${i + 1}`)];
+
+type Completion = CompleteResult['completion'];
+
+/**
+ * Candidates matching the typed value: prefix matches first, then substring matches
+ */
+function rank(candidates: string[], value: string): string[] {
+  const query = value.trim().toLowerCase();
+  const unique = Array.from(new Set(candidates));
+  const prefix = unique.filter(c => c.toLowerCase().startsWith(query));
+  const contains = query ? unique.filter(c => !c.toLowerCase().startsWith(query) && c.toLowerCase().includes(query)) : [];
+  return [...prefix, ...contains];
+}
+
+function toCompletion(values: string[]): Completion {
+  return { values: values.slice(0, MAX_VALUES), total: values.length, hasMore: values.length > MAX_VALUES };
+}
+
+const matching = (candidates: string[], value: string): Completion => toCompletion(rank(candidates, value));
+
+// ==================== SOURCES ====================
+
+function completeJurisdiction(value: string, subSector?: string): Completion {
+  const jurisdictions = (subSector ? db.getJurisdictionsWithSubSector(subSector, MAX_VALUES) : db.listJurisdictions())
+    .map(j => j.jurisdiction);
+
+  // "uk" or "usa" should offer the full NZDPU name first
+  const query = value.trim().toLowerCase();
+  const aliased = query
+    ? Object.entries(JURISDICTION_ALIASES).filter(([alias]) => alias.startsWith(query)).map(([, name]) => name)
+    : [];
+  return toCompletion(Array.from(new Set([...aliased.filter(name => jurisdictions.includes(name)), ...rank(jurisdictions, value)])));
+}
+
+function completeSubSector(value: string, jurisdiction?: string): Completion {
+  const subSectors = jurisdiction
+    ? db.getSubSectorsInJurisdiction(jurisdiction).map(s => s.sub_sector)
+    : db.listSubSectors().map(s => s.sub_sector);
+  return matching(subSectors, value);
+}
+
+function completeSicsName(value: string): Completion {
+  const hierarchy = db.listSubSectors();
+  return matching([
+    ...db.listSectors().map(s => s.sector),
+    ...hierarchy.map(r => r.sub_sector),
+    ...hierarchy.filter(r => r.industry).map(r => r.industry),
+  ], value);
+}
+
+/**
+ * nz_ids for a typed id prefix or company name prefix
+ */
+function completeCompanyId(value: string): Completion {
+  const query = value.trim();
+  if (/^\d+$/.test(query)) {
+    return toCompletion(db.getCompanyById(parseInt(query, 10)) ? [query] : []);
+  }
+  const companies = db.completeCompanyNames(query, MAX_VALUES + 1);
+  return {
+    values: companies.slice(0, MAX_VALUES).map(c => String(c.nz_id)),
+    hasMore: companies.length > MAX_VALUES,
+  };
+}
+
+function completeYear(value: string, nzId?: string): Completion {
+  const id = nzId && /^\d+$/.test(nzId) ? parseInt(nzId, 10) : null;
+  const years = id !== null
+    ? db.getCompanyEmissions(id).map(e => String(e.year))
+    : Object.keys(db.getDatasetStats().yearCoverage);
+  return matching(years.sort().reverse(), value);
+}
+
+const EMPTY: Completion = { values: [], total: 0, hasMore: false };
+
+// ==================== ARGUMENTS ====================
+
+function completePromptArgument(prompt: string, argument: string, value: string, context: Record<string, string>): Completion {
+  switch (argument) {
+    case 'jurisdiction':
+      return completeJurisdiction(value, context.sub_sector);
+    case 'sub_sector':
+      return completeSubSector(value, context.jurisdiction);
+    case 'scope':
+      return matching(SCOPES, value);
+    case 'nz_id':
+      return completeCompanyId(value);
+    case 'nz_ids': {
+      // Complete the last id of the comma-separated list, keeping the ones before it
+      const head = value.slice(0, value.lastIndexOf(',') + 1);
+      const completion = completeCompanyId(value.slice(head.length));
+      return { ...completion, values: completion.values.map(id => (head ? `${head} ${id}` : id)) };
+    }
+    case 'year':
+      return prompt === 'company_deep_dive' ? completeYear(value, context.nz_id) : completeYear(value);
+    default:
+      return EMPTY;
+  }
+}
+
+function completeResourceArgument(uriTemplate: string, argument: string, value: string, context: Record<string, string>): Completion {
+  if (!uriTemplate.startsWith('nzdpu://')) return EMPTY;
+  switch (argument) {
+    case 'nz_id':
+      return completeCompanyId(value);
+    case 'year':
+      return completeYear(value, context.nz_id);
+    case 'name':
+      if (uriTemplate.startsWith('nzdpu://sector/')) return completeSicsName(value);
+      if (uriTemplate.startsWith('nzdpu://framework/')) return matching(Object.keys(reportingFrameworks), value);
+      return EMPTY;
+    case 'key':
+      return matching([
+        ...Object.keys(ghgConcepts),
+        ...Object.keys(scope3Categories).map(n => `scope3_category_${n}`),
+      ], value);
+    default:
+      return EMPTY;
+  }
+}
+
+/**
+ * Handle completion/complete for prompt and resource template arguments
+ */
+export function complete(params: CompleteRequest['params']): CompleteResult {
+  const { ref, argument } = params;
+  const context = params.context?.arguments ?? {};
+  const completion = ref.type === 'ref/prompt'
+    ? completePromptArgument(ref.name, argument.name, argument.value, context)
+    : completeResourceArgument(ref.uri, argument.name, argument.value, context);
+  return { completion };
+}
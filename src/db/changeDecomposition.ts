@@ -0,0 +1,185 @@
+/**
+ * Emissions change decomposition
+ * Splits a company's change between two years into reporting effects (categories added or
+ * dropped, Scope 3 method changes, boundary changes) and the like-for-like change on
+ * categories reported the same way in both years
+ */
+
+import { getDatabase } from './schema.js';
+import { getScope3MethodTier, type EmissionsRow } from './queries.js';
+import { SCOPE3_CATEGORY_NAMES } from '../knowledge/materiality.js';
+import type { MethodQualityTier } from '../types/index.js';
+
+export type CategoryChangeStatus = 'new' | 'dropped' | 'continuing';
+export type MethodTierChange = 'upgraded' | 'downgraded' | 'same_tier' | null;
+
+export interface CategoryChange {
+  category: number;
+  name: string;
+  status: CategoryChangeStatus;
+  value1: number | null;
+  value2: number | null;
+  delta: number;                 // Missing values count as zero
+  method1: string | null;
+  method2: string | null;
+  tier1: MethodQualityTier;
+  tier2: MethodQualityTier;
+  methodChanged: boolean;        // Continuing category whose reported method differs
+  tierChange: MethodTierChange;  // Null unless methodChanged
+}
+
+export interface ScopeChange {
+  scope: 'scope1' | 'scope2_lb' | 'scope2_mb';
+  value1: number | null;
+  value2: number | null;
+  delta: number | null;
+  percentChange: number | null;
+  methodology1: string | null;
+  methodology2: string | null;
+  methodChanged: boolean;
+}
+
+export interface Scope3ChangeComponents {
+  newCategories: number;         // Sum of categories reported only in year2
+  droppedCategories: number;     // Minus the sum of categories reported only in year1
+  methodChanges: number;         // Change on continuing categories whose method changed
+  likeForLike: number;           // Change on continuing categories with an unchanged method
+  unallocated: number;           // Reported total change not explained by the category sums
+}
+
+export interface ChangeDecomposition {
+  nz_id: number;
+  company_name: string;
+  year1: number;
+  year2: number;
+  boundary1: string | null;
+  boundary2: string | null;
+  boundaryChanged: boolean;      // Every component below then mixes real change with restatement
+  scopes: ScopeChange[];
+  scope3: {
+    total1: number | null;
+    total2: number | null;
+    delta: number | null;
+    percentChange: number | null;
+    components: Scope3ChangeComponents;
+    likeForLikeBase: number;     // Year1 emissions of the like-for-like categories
+    likeForLikePercent: number | null;
+    categories: CategoryChange[];
+  };
+}
+
+const TIER_RANK: Record<MethodQualityTier, number> = { UNKNOWN: 0, MODELED: 1, PRIMARY: 2 };
+
+const percentChange = (from: number | null, to: number | null) =>
+  from !== null && to !== null && from !== 0 ? ((to - from) / from) * 100 : null;
+
+function categoryChange(category: number, row1: EmissionsRow, row2: EmissionsRow): CategoryChange | null {
+  const value1 = row1[`scope3_cat_${category}` as keyof EmissionsRow] as number | null;
+  const value2 = row2[`scope3_cat_${category}` as keyof EmissionsRow] as number | null;
+  if (value1 === null && value2 === null) return null;
+
+  const method1 = row1[`scope3_cat_${category}_method` as keyof EmissionsRow] as string | null;
+  const method2 = row2[`scope3_cat_${category}_method` as keyof EmissionsRow] as string | null;
+  const tier1 = getScope3MethodTier(method1);
+  const tier2 = getScope3MethodTier(method2);
+  const status: CategoryChangeStatus = value1 === null ? 'new' : value2 === null ? 'dropped' : 'continuing';
+  const methodChanged = status === 'continuing' && (method1 || null) !== (method2 || null);
+
+  return {
+    category,
+    name: SCOPE3_CATEGORY_NAMES[category],
+    status,
+    value1,
+    value2,
+    delta: (value2 ?? 0) - (value1 ?? 0),
+    method1,
+    method2,
+    tier1,
+    tier2,
+    methodChanged,
+    tierChange: !methodChanged ? null
+      : TIER_RANK[tier2] > TIER_RANK[tier1] ? 'upgraded'
+      : TIER_RANK[tier2] < TIER_RANK[tier1] ? 'downgraded'
+      : 'same_tier',
+  };
+}
+
+/**
+ * Decompose a company's change from year1 to year2
+ * Null when the company or either year is missing
+ */
+export function decomposeYearChange(nzId: number, year1: number, year2: number): ChangeDecomposition | null {
+  const db = getDatabase();
+  const company = db
+    .prepare('SELECT company_name FROM companies WHERE nz_id = ?')
+    .get(nzId) as { company_name: string } | undefined;
+  if (!company) return null;
+
+  const select = db.prepare('SELECT * FROM emissions WHERE nz_id = ? AND year = ?');
+  const row1 = select.get(nzId, year1) as EmissionsRow | undefined;
+  const row2 = select.get(nzId, year2) as EmissionsRow | undefined;
+  if (!row1 || !row2) return null;
+
+  const scopes: ScopeChange[] = (['scope1', 'scope2_lb', 'scope2_mb'] as const).map(scope => {
+    const value1 = row1[scope];
+    const value2 = row2[scope];
+    const methodology1 = row1[`${scope}_methodology`];
+    const methodology2 = row2[`${scope}_methodology`];
+    return {
+      scope,
+      value1,
+      value2,
+      delta: value1 !== null && value2 !== null ? value2 - value1 : null,
+      percentChange: percentChange(value1, value2),
+      methodology1,
+      methodology2,
+      methodChanged: (methodology1 || null) !== (methodology2 || null),
+    };
+  });
+
+  const categories: CategoryChange[] = [];
+  for (let cat = 1; cat <= 15; cat++) {
+    const change = categoryChange(cat, row1, row2);
+    if (change) categories.push(change);
+  }
+
+  const sumDelta = (filter: (c: CategoryChange) => boolean) =>
+    categories.filter(filter).reduce((sum, c) => sum + c.delta, 0);
+  const likeForLike = categories.filter(c => c.status === 'continuing' && !c.methodChanged);
+  const likeForLikeBase = likeForLike.reduce((sum, c) => sum + (c.value1 ?? 0), 0);
+
+  const components: Scope3ChangeComponents = {
+    newCategories: sumDelta(c => c.status === 'new'),
+    droppedCategories: sumDelta(c => c.status === 'dropped'),
+    methodChanges: sumDelta(c => c.methodChanged),
+    likeForLike: likeForLike.reduce((sum, c) => sum + c.delta, 0),
+    unallocated: 0,
+  };
+  const total1 = row1.scope3_total;
+  const total2 = row2.scope3_total;
+  const delta = total1 !== null && total2 !== null ? total2 - total1 : null;
+  if (delta !== null) {
+    components.unallocated = delta - sumDelta(() => true);
+  }
+
+  return {
+    nz_id: nzId,
+    company_name: company.company_name,
+    year1,
+    year2,
+    boundary1: row1.organizational_boundary,
+    boundary2: row2.organizational_boundary,
+    boundaryChanged: (row1.organizational_boundary || null) !== (row2.organizational_boundary || null),
+    scopes,
+    scope3: {
+      total1,
+      total2,
+      delta,
+      percentChange: percentChange(total1, total2),
+      components,
+      likeForLikeBase,
+      likeForLikePercent: likeForLikeBase > 0 ? (components.likeForLike / likeForLikeBase) * 100 : null,
+      categories,
+    },
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Ranked company name search
+ * FTS5 over normalised names and aliases, with a trigram-similarity fallback for typos
+ */
+
+import Database from 'better-sqlite3';
+import { getDatabase, hasTable, hasColumn } from './schema.js';
+import type { CompanyRow } from './queries.js';
+import { resolveJurisdictionAlias } from '../knowledge/jurisdictions.js';
+
+export interface CompanySearchFilters {
+  jurisdiction?: string;
+  sics_sector?: string;
+  sics_sub_sector?: string;
+  sics_industry?: string;
+}
+
+export interface NameSuggestion {
+  nz_id: number;
+  company_name: string;
+  jurisdiction: string | null;
+  score: number;
+}
+
+// Legal forms and filler words that should not decide a match ("Siemens AG" = "Siemens")
+const IGNORED_TOKENS = new Set([
+  'the', 'and', 'of',
+  'ag', 'sa', 'se', 'nv', 'bv', 'plc', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company',
+  'ltd', 'limited', 'llc', 'lp', 'gmbh', 'kgaa', 'spa', 'srl', 'ab', 'asa', 'as', 'oyj', 'kk',
+  'bhd', 'berhad', 'tbk', 'pt', 'pty', 'sab', 'cv', 'de', 'holding', 'holdings', 'group',
+]);
+
+const MIN_MATCH_SCORE = 0.3;    // Full-text hits below this are noise (e.g. one shared common word)
+const MIN_FUZZY_SCORE = 0.45;   // Trigram-only matches need to be closer
+const MIN_SUGGESTION_SCORE = 0.25;
+
+// Lower-case ASCII tokens of a name, with runs of spaced initials re-joined;
+// meaningful drops the legal-form and filler words
+function tokenizeCompanyName(name: string): { tokens: string[]; meaningful: string[] } {
+  const tokens = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  // Re-join runs of spaced initials such as "S A" or "N V"
+  const joined: string[] = [];
+  let initials = '';
+  for (const token of [...tokens, '']) {
+    if (token.length === 1 && /[a-z]/.test(token)) {
+      initials += token;
+      continue;
+    }
+    if (initials) joined.push(initials);
+    initials = '';
+    if (token) joined.push(token);
+  }
+
+  return { tokens: joined, meaningful: joined.filter(t => !IGNORED_TOKENS.has(t)) };
+}
+
+/**
+ * Normalise a company name for matching: strip accents, punctuation and legal suffixes
+ * Falls back to the unstripped tokens when the name is only legal-form words
+ */
+export function normalizeCompanyName(name: string): string {
+  const { tokens, meaningful } = tokenizeCompanyName(name);
+  return (meaningful.length > 0 ? meaningful : tokens).join(' ');
+}
+
+// Padded character trigrams, so short names and word boundaries still contribute
+function trigrams(value: string): Set<string> {
+  const padded = `  ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient over character trigrams (0 = nothing shared, 1 = identical)
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const ga = trigrams(a);
+  const gb = trigrams(b);
+  let shared = 0;
+  for (const g of ga) {
+    if (gb.has(g)) shared++;
+  }
+  return (2 * shared) / (ga.size + gb.size);
+}
+
+/**
+ * Score a normalised candidate name against a normalised query (0-1)
+ */
+function scoreName(query: string, candidate: string): number {
+  if (!candidate) return 0;
+  if (candidate === query) return 1;
+
+  const queryTokens = query.split(' ');
+  const candidateTokens = candidate.split(' ');
+  const lastQueryToken = queryTokens[queryTokens.length - 1];
+
+  // Token coverage in both directions; the last query token may be a prefix (search-as-you-type)
+  const tokenMatches = (q: string, c: string) => c === q || (q === lastQueryToken && q.length >= 3 && c.startsWith(q));
+  const queryCovered = queryTokens.filter(q => candidateTokens.some(c => tokenMatches(q, c))).length / queryTokens.length;
+  const candidateCovered = candidateTokens.filter(c => queryTokens.some(q => tokenMatches(q, c))).length / candidateTokens.length;
+
+  let score = Math.max(trigramSimilarity(query, candidate), 0.9 * (0.6 * queryCovered + 0.4 * candidateCovered));
+  if (candidate.startsWith(query + ' ')) {
+    score = Math.max(score, 0.8 + 0.1 * (query.length / candidate.length));
+  }
+  return Math.min(score, 0.99);
+}
+
+function scoreCompany(query: string, company: CompanyRow): number {
+  const nameScore = scoreName(query, normalizeCompanyName(company.company_name));
+  const aliasScore = company.alias ? scoreName(query, normalizeCompanyName(company.alias)) : 0;
+  return Math.round(Math.max(nameScore, aliasScore) * 100) / 100;
+}
+
+function buildFilterClause(filters: CompanySearchFilters): { clause: string; params: string[] } {
+  let clause = '';
+  const params: string[] = [];
+  if (filters.jurisdiction) {
+    clause += ' AND LOWER(c.jurisdiction) = LOWER(?)';
+    params.push(resolveJurisdictionAlias(filters.jurisdiction));
+  }
+  if (filters.sics_sector) {
+    clause += ' AND LOWER(c.sics_sector) = LOWER(?)';
+    params.push(filters.sics_sector);
+  }
+  if (filters.sics_sub_sector) {
+    clause += ' AND LOWER(c.sics_sub_sector) = LOWER(?)';
+    params.push(filters.sics_sub_sector);
+  }
+  if (filters.sics_industry) {
+    clause += ' AND LOWER(c.sics_industry) LIKE LOWER(?)';
+    params.push(`%${filters.sics_industry}%`);
+  }
+  return { clause, params };
+}
+
+/**
+ * Whether the database was built with the FTS5 company name index
+ */
+export function hasSearchIndex(): boolean {
+  return hasTable('company_search');
+}
+
+/**
+ * Rebuild the FTS5 index from the companies table (build time only)
+ */
+export function buildSearchIndex(db: Database.Database): number {
+  const companies = db.prepare('SELECT nz_id, company_name, alias FROM companies').all() as
+    { nz_id: number; company_name: string; alias: string | null }[];
+  const insert = db.prepare('INSERT INTO company_search (nz_id, name, alias) VALUES (?, ?, ?)');
+
+  db.transaction(() => {
+    db.exec('DELETE FROM company_search');
+    for (const c of companies) {
+      insert.run(c.nz_id, normalizeCompanyName(c.company_name), c.alias ? normalizeCompanyName(c.alias) : null);
+    }
+  })();
+  return companies.length;
+}
+
+/**
+ * Find companies by name or alias, ranked by match score (highest first)
+ * Uses the FTS5 index when present, then falls back to trigram similarity for typos.
+ * Queries made only of legal-form words (e.g. "Holdings") are stripped from the index,
+ * so they match the raw names and aliases with LIKE instead
+ */
+export function findCompanyMatches(
+  searchTerm: string,
+  filters: CompanySearchFilters = {}
+): CompanyRow[] {
+  const { tokens, meaningful } = tokenizeCompanyName(searchTerm);
+  if (tokens.length === 0) return [];
+  const query = (meaningful.length > 0 ? meaningful : tokens).join(' ');
+
+  const db = getDatabase();
+  const { clause, params } = buildFilterClause(filters);
+  const byScore = (a: CompanyRow, b: CompanyRow) =>
+    b.match_score! - a.match_score! || a.company_name.localeCompare(b.company_name) || a.nz_id - b.nz_id;
+  const rank = (rows: CompanyRow[], minScore: number): CompanyRow[] => rows
+    .map(row => ({ ...row, match_score: scoreCompany(query, row) }))
+    .filter(row => row.match_score >= minScore)
+    .sort(byScore);
+
+  if (meaningful.length === 0) {
+    // Tokens are plain [a-z0-9] words, so the pattern needs no escaping
+    const pattern = `%${tokens.join(' ')}%`;
+    const aliasClause = hasColumn('companies', 'alias') ? ' OR LOWER(c.alias) LIKE ?' : '';
+    const rows = db.prepare(`
+      SELECT c.* FROM companies c
+      WHERE (LOWER(c.company_name) LIKE ?${aliasClause})${clause}
+    `).all(pattern, ...(aliasClause ? [pattern] : []), ...params) as CompanyRow[];
+    // Score against the unstripped names, since the stripped ones no longer contain the query
+    const rawScore = (name: string | null | undefined) => name ? scoreName(query, tokenizeCompanyName(name).tokens.join(' ')) : 0;
+    return rows
+      .map(row => ({ ...row, match_score: Math.round(Math.max(rawScore(row.company_name), rawScore(row.alias)) * 100) / 100 }))
+      .filter(row => row.match_score >= MIN_MATCH_SCORE)
+      .sort(byScore);
+  }
+
+  if (hasSearchIndex()) {
+    // Every candidate is ranked, so totals and cursors over the ranked list stay exact
+    const ftsQuery = query.split(' ').map(t => `"${t}"*`).join(' OR ');
+    const candidates = db.prepare(`
+      SELECT c.* FROM company_search
+      JOIN companies c ON c.nz_id = company_search.nz_id
+      WHERE company_search MATCH ?${clause}
+    `).all(ftsQuery, ...params) as CompanyRow[];
+
+    const matches = rank(candidates, MIN_MATCH_SCORE);
+    if (matches.length > 0) return matches;
+  }
+
+  // Typos and older databases without the index: score every company that passes the filters
+  const all = db.prepare(`SELECT c.* FROM companies c WHERE 1=1${clause}`).all(...params) as CompanyRow[];
+  return rank(all, MIN_FUZZY_SCORE);
+}
+
+/**
+ * "Did you mean" suggestions for a name that matched nothing, ignoring other filters
+ */
+export function suggestCompanyNames(searchTerm: string, limit: number = 5): NameSuggestion[] {
+  const query = normalizeCompanyName(searchTerm);
+  if (!query) return [];
+
+  const aliasColumn = hasColumn('companies', 'alias') ? ', alias' : '';
+  const companies = getDatabase()
+    .prepare(`SELECT nz_id, company_name, jurisdiction${aliasColumn} FROM companies`)
+    .all() as CompanyRow[];
+
+  return companies
+    .map(c => ({ nz_id: c.nz_id, company_name: c.company_name, jurisdiction: c.jurisdiction, score: scoreCompany(query, c) }))
+    .filter(s => s.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Companies whose name starts with a prefix (argument completion), alphabetical
+ */
+export function completeCompanyNames(prefix: string, limit: number = 100): { nz_id: number; company_name: string }[] {
+  const escaped = prefix.trim().replace(/[\\%_]/g, c => `\\${c}`);
+  return getDatabase()
+    .prepare(`SELECT nz_id, company_name FROM companies WHERE company_name LIKE ? ESCAPE '\\' ORDER BY company_name LIMIT ?`)
+    .all(`${escaped}%`, limit) as { nz_id: number; company_name: string }[];
+}
@@ -0,0 +1,150 @@
+/**
+ * Company identifier crosswalk (LEI / ISIN / ticker)
+ * Backed by the company_identifiers table, loaded from local GLEIF-style files at build time
+ */
+
+import { getDatabase, hasTable } from './schema.js';
+import type { CompanyRow } from './queries.js';
+
+export type IdentifierType = 'nz_id' | 'lei' | 'isin' | 'ticker';
+
+export type IdentifierMatchStatus = 'matched' | 'ambiguous' | 'not_found' | 'invalid';
+
+export interface IdentifierMatch {
+  identifier: string;
+  type: IdentifierType;
+  status: IdentifierMatchStatus;
+  companies: CompanyRow[];
+  note: string | null;
+}
+
+const LEI_PATTERN = /^[A-Z0-9]{18}[0-9]{2}$/;
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/;
+
+/**
+ * Whether the database was built with the identifier crosswalk
+ */
+export function hasIdentifierData(): boolean {
+  return hasTable('company_identifiers')
+    && getDatabase().prepare('SELECT 1 FROM company_identifiers LIMIT 1').get() !== undefined;
+}
+
+/**
+ * Guess the identifier type from its format
+ * Anything that is not an nz_id, LEI or ISIN is treated as a ticker; numbers with a
+ * leading zero (e.g. "0005") can only be tickers. Other numbers may be tickers too
+ * (e.g. "7203"), which resolveIdentifier checks.
+ */
+export function detectIdentifierType(identifier: string): IdentifierType {
+  const value = identifier.trim().toUpperCase();
+  if (/^[1-9]\d{0,9}$/.test(value)) return 'nz_id';
+  if (value.length === 20 && LEI_PATTERN.test(value)) return 'lei';
+  if (value.length === 12 && ISIN_PATTERN.test(value)) return 'isin';
+  return 'ticker';
+}
+
+/**
+ * Validate an ISIN check digit (Luhn over the letter-expanded code)
+ */
+export function isValidIsin(isin: string): boolean {
+  const value = isin.trim().toUpperCase();
+  if (!ISIN_PATTERN.test(value)) return false;
+
+  const digits = value
+    .split('')
+    .map(ch => (/[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch))
+    .join('');
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = parseInt(digits[i], 10);
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Find companies carrying an identifier in the crosswalk
+ */
+function findByCrosswalk(type: 'lei' | 'isin' | 'ticker', value: string): CompanyRow[] {
+  if (!hasIdentifierData()) return [];
+
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT DISTINCT c.* FROM company_identifiers i
+    JOIN companies c ON i.nz_id = c.nz_id
+    WHERE i.id_type = ? AND i.id_value = ? COLLATE NOCASE
+    ORDER BY c.company_name
+  `).all(type, value) as CompanyRow[];
+}
+
+/**
+ * Look up a company by LEI, checking the companies table first and then the crosswalk
+ */
+export function findCompaniesByLei(lei: string): CompanyRow[] {
+  const value = lei.trim().toUpperCase();
+  const db = getDatabase();
+  const direct = db.prepare('SELECT * FROM companies WHERE lei = ? COLLATE NOCASE').all(value) as CompanyRow[];
+  if (direct.length > 0) return direct;
+  return findByCrosswalk('lei', value);
+}
+
+/**
+ * Resolve one identifier (nz_id, LEI, ISIN or ticker) to companies
+ * A number without an explicit type is checked against the ticker crosswalk before
+ * being read as an nz_id, and reported as ambiguous when it could be either
+ */
+export function resolveIdentifier(identifier: string, type?: IdentifierType): IdentifierMatch {
+  const value = identifier.trim().toUpperCase();
+  const idType = type || detectIdentifierType(value);
+  const result = (status: IdentifierMatchStatus, companies: CompanyRow[], note: string | null = null, matchedType = idType): IdentifierMatch =>
+    ({ identifier: identifier.trim(), type: matchedType, status, companies, note });
+
+  if (!value) return result('invalid', [], 'Empty identifier');
+
+  if (idType === 'nz_id') {
+    const nzId = parseInt(value, 10);
+    if (isNaN(nzId)) return result('invalid', [], 'nz_id must be a number');
+    const company = getDatabase().prepare('SELECT * FROM companies WHERE nz_id = ?').get(nzId) as CompanyRow | undefined;
+    const tickers = type ? [] : findByCrosswalk('ticker', value);
+    if (tickers.length === 0) return company ? result('matched', [company]) : result('not_found', []);
+
+    const companies = company ? [company, ...tickers.filter(c => c.nz_id !== company.nz_id)] : tickers;
+    if (companies.length === 1) return result('matched', companies, null, company ? 'nz_id' : 'ticker');
+    return result('ambiguous', companies, company
+      ? 'Number is both an nz_id and a ticker; confirm which company is meant'
+      : 'Identifier maps to more than one company', company ? 'nz_id' : 'ticker');
+  }
+
+  let companies: CompanyRow[];
+  if (idType === 'lei') {
+    if (!LEI_PATTERN.test(value)) return result('invalid', [], 'LEI must be 20 alphanumeric characters');
+    companies = findCompaniesByLei(value);
+  } else if (idType === 'isin') {
+    if (!isValidIsin(value)) return result('invalid', [], 'ISIN format or check digit is invalid');
+    companies = findByCrosswalk('isin', value);
+  } else {
+    companies = findByCrosswalk('ticker', value);
+  }
+
+  if (companies.length === 1) return result('matched', companies);
+  if (companies.length > 1) return result('ambiguous', companies, 'Identifier maps to more than one company');
+
+  const note = idType !== 'lei' && !hasIdentifierData()
+    ? 'ISIN/ticker crosswalk not loaded in this database'
+    : null;
+  return result('not_found', [], note);
+}
+
+/**
+ * Resolve a batch of mixed identifiers, preserving input order
+ */
+export function resolveIdentifiers(identifiers: string[]): IdentifierMatch[] {
+  return identifiers.map(identifier => resolveIdentifier(identifier));
+}
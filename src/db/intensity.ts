@@ -0,0 +1,70 @@
+/**
+ * Emissions intensity metrics
+ * Normalises absolute emissions by revenue (USD millions) or employee count, or expresses
+ * a Scope 3 category as a share of the company's Scope 3 total
+ */
+
+import { hasColumn } from './schema.js';
+import { convertToUsd } from '../knowledge/fxRates.js';
+import { ToolError } from '../validation/errors.js';
+
+export type IntensityMetric = 'absolute' | 'per_revenue' | 'per_employee' | 'category_share';
+
+export const METRIC_UNITS: Record<IntensityMetric, string> = {
+  absolute: 'tCO₂e',
+  per_revenue: 'tCO₂e / USD million revenue',
+  per_employee: 'tCO₂e / employee',
+  category_share: '% of Scope 3',
+};
+
+export interface IntensityDenominators {
+  revenue?: number | null;
+  revenue_currency?: string | null;
+  employee_count?: number | null;
+  scope3_total?: number | null;
+}
+
+/**
+ * Whether the database stores revenue and employee counts for each disclosure year
+ */
+export function hasIntensityData(): boolean {
+  return hasColumn('emissions', 'revenue') && hasColumn('emissions', 'employee_count');
+}
+
+/**
+ * Throw a helpful error when an intensity metric is requested on an older database
+ */
+export function assertMetricAvailable(metric: IntensityMetric): void {
+  if ((metric === 'per_revenue' || metric === 'per_employee') && !hasIntensityData()) {
+    throw new ToolError('DATA_UNAVAILABLE', 'Intensity metrics require revenue and employee data, which this database predates. Rebuild with `npm run build-db` or use metric: "absolute".');
+  }
+}
+
+/**
+ * Convert an absolute emissions value to the requested metric
+ * Denominators must come from the same disclosure (emissions row) as the value.
+ * Returns null when the denominator is missing, zero, or in an unknown currency
+ */
+export function toMetricValue(
+  value: number | null,
+  denominators: IntensityDenominators,
+  metric: IntensityMetric
+): number | null {
+  if (value === null) return null;
+  if (metric === 'absolute') return value;
+
+  if (metric === 'category_share') {
+    if (!denominators.scope3_total || denominators.scope3_total <= 0) return null;
+    return value / denominators.scope3_total * 100;
+  }
+
+  if (metric === 'per_revenue') {
+    if (!denominators.revenue || denominators.revenue <= 0) return null;
+    const revenueUsd = convertToUsd(denominators.revenue, denominators.revenue_currency);
+    if (!revenueUsd) return null;
+    return value / (revenueUsd / 1e6);
+  }
+
+  if (!denominators.employee_count || denominators.employee_count <= 0) return null;
+  return value / denominators.employee_count;
+}
@@ -0,0 +1,194 @@
+/**
+ * Peer outlier detection
+ * Flags emissions that are implausible relative to companies in the same SICS industry
+ * and year: robust z-scores (median/MAD) on log values, so one extreme peer cannot hide another
+ */
+
+import { getDatabase } from './schema.js';
+import { resolveJurisdictionAlias } from '../knowledge/jurisdictions.js';
+import { calculateRobustZScores, ROBUST_Z_THRESHOLD } from '../benchmarking/engine.js';
+
+export type OutlierScope = 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3' | `scope3_cat_${number}`;
+
+// Smaller industry-year groups do not give a stable median/MAD
+export const MIN_OUTLIER_GROUP_SIZE = 5;
+
+export interface OutlierFilters {
+  year?: number;
+  jurisdiction?: string;
+  sics_sector?: string;
+  sics_sub_sector?: string;
+  sics_industry?: string;
+}
+
+export interface PeerOutlier {
+  nz_id: number;
+  company_name: string;
+  jurisdiction: string | null;
+  sics_industry: string;
+  year: number;
+  value: number;
+  peerCount: number;      // Companies in the industry-year group, including this one
+  peerMedian: number;
+  zScore: number;
+  direction: 'high' | 'low';
+}
+
+export interface OutlierReport {
+  scope: OutlierScope;
+  threshold: number;
+  groupsChecked: number;
+  groupsTooSmall: number;
+  total: number;
+  outliers: PeerOutlier[];
+}
+
+export interface CompanyOutlierCheck {
+  sics_industry: string;
+  year: number;
+  value: number;
+  peerCount: number;
+  peerMedian: number;
+  zScore: number;
+  isOutlier: boolean;
+  direction: 'high' | 'low' | null;
+}
+
+interface GroupRow {
+  nz_id: number;
+  company_name: string;
+  jurisdiction: string | null;
+  sics_industry: string;
+  year: number;
+  value: number;
+}
+
+function scopeColumn(scope: OutlierScope): string {
+  if (scope === 'scope3') return 'scope3_total';
+  if (scope === 'scope1' || scope === 'scope2_lb' || scope === 'scope2_mb') return scope;
+  const cat = parseInt(scope.replace('scope3_cat_', ''), 10);
+  return cat >= 1 && cat <= 15 ? `scope3_cat_${cat}` : 'scope1';
+}
+
+function loadGroupRows(scope: OutlierScope, where: string, params: (string | number)[]): GroupRow[] {
+  const column = scopeColumn(scope);
+  return getDatabase().prepare(`
+    SELECT e.nz_id, c.company_name, c.jurisdiction, c.sics_industry, e.year, e.${column} as value
+    FROM emissions e
+    JOIN companies c ON e.nz_id = c.nz_id
+    WHERE e.${column} IS NOT NULL AND e.${column} > 0 AND c.sics_industry IS NOT NULL${where}
+    ORDER BY c.sics_industry, e.year, e.nz_id
+  `).all(...params) as GroupRow[];
+}
+
+/**
+ * Robust z-score of every member of one industry-year group
+ */
+function scoreGroup(rows: GroupRow[]): { row: GroupRow; zScore: number; peerMedian: number }[] | null {
+  if (rows.length < MIN_OUTLIER_GROUP_SIZE) return null;
+  const robust = calculateRobustZScores(rows.map(r => r.value));
+  if (!robust) return null;
+  const peerMedian = Math.exp(robust.logMedian);
+  return rows.map((row, i) => ({ row, zScore: robust.zScores[i], peerMedian }));
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Companies whose emissions are outliers within their SICS industry and year
+ * Sector, sub-sector, industry and year filters choose the groups; the jurisdiction
+ * filter only limits which flagged companies are listed (peers stay industry-wide).
+ */
+export function findPeerOutliers(
+  scope: OutlierScope,
+  filters: OutlierFilters = {},
+  limit: number = 50
+): OutlierReport {
+  let where = '';
+  const params: (string | number)[] = [];
+  if (filters.sics_sector) {
+    where += ' AND LOWER(c.sics_sector) = LOWER(?)';
+    params.push(filters.sics_sector);
+  }
+  if (filters.sics_sub_sector) {
+    where += ' AND LOWER(c.sics_sub_sector) = LOWER(?)';
+    params.push(filters.sics_sub_sector);
+  }
+  if (filters.sics_industry) {
+    where += ' AND LOWER(c.sics_industry) = LOWER(?)';
+    params.push(filters.sics_industry);
+  }
+  if (filters.year) {
+    where += ' AND e.year = ?';
+    params.push(filters.year);
+  }
+
+  const groups = new Map<string, GroupRow[]>();
+  for (const row of loadGroupRows(scope, where, params)) {
+    const key = `${row.sics_industry}|${row.year}`;
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+
+  const jurisdiction = filters.jurisdiction ? resolveJurisdictionAlias(filters.jurisdiction).toLowerCase() : null;
+  const outliers: PeerOutlier[] = [];
+  let groupsChecked = 0;
+  for (const rows of groups.values()) {
+    const scored = scoreGroup(rows);
+    if (!scored) continue;
+    groupsChecked++;
+    for (const { row, zScore, peerMedian } of scored) {
+      if (Math.abs(zScore) <= ROBUST_Z_THRESHOLD) continue;
+      if (jurisdiction && row.jurisdiction?.toLowerCase() !== jurisdiction) continue;
+      outliers.push({
+        ...row,
+        peerCount: rows.length,
+        peerMedian,
+        zScore: round2(zScore),
+        direction: zScore > 0 ? 'high' : 'low',
+      });
+    }
+  }
+
+  outliers.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore) || a.nz_id - b.nz_id || a.year - b.year);
+
+  return {
+    scope,
+    threshold: ROBUST_Z_THRESHOLD,
+    groupsChecked,
+    groupsTooSmall: groups.size - groupsChecked,
+    total: outliers.length,
+    outliers: outliers.slice(0, limit),
+  };
+}
+
+/**
+ * Where one company-year sits within its SICS industry and year
+ * Null when the company has no industry or value, or the group is too small to score
+ */
+export function getCompanyOutlierCheck(
+  nzId: number,
+  scope: OutlierScope,
+  year: number
+): CompanyOutlierCheck | null {
+  const industry = getDatabase().prepare('SELECT sics_industry FROM companies WHERE nz_id = ?').get(nzId) as
+    { sics_industry: string | null } | undefined;
+  if (!industry?.sics_industry) return null;
+
+  const rows = loadGroupRows(scope, ' AND c.sics_industry = ? AND e.year = ?', [industry.sics_industry, year]);
+  const member = scoreGroup(rows)?.find(s => s.row.nz_id === nzId);
+  if (!member) return null;
+
+  const isOutlier = Math.abs(member.zScore) > ROBUST_Z_THRESHOLD;
+  return {
+    sics_industry: industry.sics_industry,
+    year,
+    value: member.row.value,
+    peerCount: rows.length,
+    peerMedian: member.peerMedian,
+    zScore: round2(member.zScore),
+    isOutlier,
+    direction: isOutlier ? (member.zScore > 0 ? 'high' : 'low') : null,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Cursor pagination
+ * Opaque tokens that carry a listing's filter set and offset, so an agent can walk
+ * through every result of a query ("all UK banks") one page at a time
+ */
+
+import { getDatabase, hasTable } from './schema.js';
+import { ToolError } from '../validation/errors.js';
+
+export type PageListing = 'search' | 'top_emitters' | 'disclosure';
+
+export type PageFilters = Record<string, string | number>;
+
+export interface PageInfo {
+  total: number;
+  offset: number;
+  returned: number;
+  remaining: number;
+  next_cursor: string | null;
+}
+
+interface CursorPayload {
+  l: PageListing;
+  f: PageFilters;
+  o: number;
+  v: string;
+}
+
+/**
+ * Identifies the loaded dataset; cursors from a rebuilt database are rejected
+ * because row order and totals may have changed
+ */
+function datasetVersion(): string {
+  const db = getDatabase();
+  if (hasTable('metadata')) {
+    const row = db.prepare(`SELECT value FROM metadata WHERE key = 'build_date'`).get() as { value: string } | undefined;
+    if (row) return row.value;
+  }
+  const counts = db.prepare('SELECT (SELECT COUNT(*) FROM companies) AS companies, (SELECT COUNT(*) FROM emissions) AS emissions')
+    .get() as { companies: number; emissions: number };
+  return `${counts.companies}:${counts.emissions}`;
+}
+
+/**
+ * Drop unset filters so equal filter sets always encode the same way
+ */
+export function pageFilters(filters: Record<string, string | number | null | undefined>): PageFilters {
+  const cleaned: PageFilters = {};
+  for (const key of Object.keys(filters).sort()) {
+    const value = filters[key];
+    if (value !== undefined && value !== null && value !== '') cleaned[key] = value;
+  }
+  return cleaned;
+}
+
+export function encodeCursor(listing: PageListing, filters: PageFilters, offset: number): string {
+  const payload: CursorPayload = { l: listing, f: filters, o: offset, v: datasetVersion() };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+const invalidCursor = (message: string) =>
+  new ToolError('INVALID_ARGUMENTS', `Invalid cursor: ${message}. Repeat the original request without a cursor to start again.`);
+
+/**
+ * Decode a cursor issued for this listing
+ * The cursor carries the whole query, so filter arguments sent with it are ignored
+ */
+export function decodeCursor(cursor: string, listing: PageListing): { filters: PageFilters; offset: number } {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw invalidCursor('not a cursor returned by this server');
+  }
+  if (!payload || typeof payload !== 'object' || !Number.isInteger(payload.o) || payload.o < 0
+      || !payload.f || typeof payload.f !== 'object') {
+    throw invalidCursor('not a cursor returned by this server');
+  }
+  if (payload.l !== listing) {
+    throw invalidCursor(`it was issued for ${payload.l}, not ${listing}`);
+  }
+  if (payload.v !== datasetVersion()) {
+    throw invalidCursor('the database has been rebuilt since it was issued');
+  }
+  return { filters: payload.f, offset: payload.o };
+}
+
+/**
+ * Page metadata for the `returned` rows starting at offset, out of total
+ */
+export function toPage(
+  listing: PageListing,
+  filters: PageFilters,
+  returned: number,
+  total: number,
+  offset: number
+): PageInfo {
+  const remaining = Math.max(total - offset - returned, 0);
+  return {
+    total,
+    offset,
+    returned,
+    remaining,
+    next_cursor: remaining > 0 ? encodeCursor(listing, filters, offset + returned) : null,
+  };
+}
+
+/**
+ * Markdown summary of where a page sits in the full result set, with the next cursor
+ */
+export function formatPageSummary(page: PageInfo): string {
+  if (page.returned === 0) return '';
+  let summary = `**Showing:** ${page.offset + 1}-${page.offset + page.returned} of ${page.total}`;
+  summary += page.remaining > 0 ? ` (${page.remaining} remaining)` : ' (last page)';
+  if (page.next_cursor) summary += `\n**Next page:** call again with \`cursor: "${page.next_cursor}"\``;
+  return summary + '\n\n';
+}
@@ -0,0 +1,266 @@
+/**
+ * Sector pathway alignment
+ * Scores a company's historical trajectory, declared targets and current intensity against
+ * the bundled decarbonisation benchmarks, giving an implied temperature rise (ITR) per company
+ * and aggregated across a list of companies
+ */
+
+import { getTimeSeries } from './yearComparison.js';
+import { getCompanyTargets, type TargetRow } from './targets.js';
+import { resolveTargetScope, sumComponents, type SeriesScope } from './targetProgress.js';
+import { hasIntensityData, toMetricValue } from './intensity.js';
+import { getCompanyById, getCompanyEmissions } from './queries.js';
+import { estimateTrend } from '../benchmarking/trends.js';
+import {
+  DEFAULT_TARGET_SCORE,
+  PATHWAY_INTENSITY_COVERAGE,
+  PATHWAY_INTENSITY_UNIT,
+  PATHWAY_SCENARIOS,
+  PATHWAYS_AS_OF,
+  PATHWAYS_VERSION,
+  getIntensityPathway,
+  pathwayIntensity,
+  temperatureForIntensity,
+  temperatureForReductionRate,
+  type PathwayScenario,
+} from '../knowledge/pathways.js';
+
+export type PathwayCoverage = 'scope1_2' | 'scope1_2_3';
+
+export interface TrajectoryScore {
+  startYear: number;
+  endYear: number;
+  points: number;
+  method: 'theil_sen' | 'endpoints';
+  annualReductionPercent: number;  // % of start-year emissions per year; negative = growth
+  temperature: number;
+}
+
+export interface TargetScore {
+  target: TargetRow | null;        // Null when the default score applies
+  scopeLabel: string | null;
+  annualReductionPercent: number | null;
+  temperature: number;
+  isDefault: boolean;
+  reason: string | null;           // Why the default score was used
+}
+
+export interface IntensityScore {
+  pathwayKey: string;              // SICS sub-sector or sector of the curves, or 'default'
+  year: number;
+  intensity: number;
+  unit: string;
+  pathwayIntensities: Record<PathwayScenario, number>;
+  temperature: number;
+}
+
+export interface CompanyPathwayAlignment {
+  nz_id: number;
+  company_name: string;
+  sics_sector: string | null;
+  sics_sub_sector: string | null;
+  coverage: PathwayCoverage;
+  scope2Method: 'scope2_mb' | 'scope2_lb';
+  latestYear: number | null;
+  latestEmissions: number | null;
+  trajectory: TrajectoryScore | null;
+  target: TargetScore;
+  intensity: IntensityScore | null;
+  temperature: number | null;      // Mean of the component scores; null without trajectory or intensity data
+  boundaryChanges: number[];
+}
+
+export interface PathwayAlignmentAggregate {
+  companies: number;
+  scored: number;
+  meanTemperature: number | null;
+  emissionsWeightedTemperature: number | null;  // Weighted by latest covered emissions
+  distribution: { band: string; count: number }[];
+}
+
+export interface PathwayAlignmentResult {
+  version: string;
+  asOf: string;
+  coverage: PathwayCoverage;
+  companies: CompanyPathwayAlignment[];
+  notFound: number[];
+  aggregate: PathwayAlignmentAggregate;
+}
+
+const TEMPERATURE_BANDS: { band: string; max: number }[] = [
+  { band: '≤1.5°C', max: 1.5 },
+  { band: '1.5–2°C', max: 2.0 },
+  { band: '2–3°C', max: 3.0 },
+  { band: '>3°C', max: Infinity },
+];
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Annual reduction in % of start-year emissions, from the Theil–Sen slope when there are
+ * enough points and from the first and last years otherwise
+ */
+function scoreTrajectory(points: { year: number; value: number }[]): TrajectoryScore | null {
+  if (points.length < 2) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const span = last.year - first.year;
+
+  const trend = estimateTrend(points);
+  const annualReductionPercent = trend
+    ? ((1 - Math.exp(trend.theilSen.slope * span)) / span) * 100
+    : ((first.value - last.value) / first.value / span) * 100;
+
+  return {
+    startYear: first.year,
+    endYear: last.year,
+    points: points.length,
+    method: trend ? 'theil_sen' : 'endpoints',
+    annualReductionPercent,
+    temperature: round2(temperatureForReductionRate(annualReductionPercent)),
+  };
+}
+
+/**
+ * Nearest-term absolute target covering every scope in the coverage, still open in latestYear
+ */
+function scoreTarget(nzId: number, required: SeriesScope[], latestYear: number | null): TargetScore {
+  const defaultScore = (reason: string): TargetScore => ({
+    target: null,
+    scopeLabel: null,
+    annualReductionPercent: null,
+    temperature: DEFAULT_TARGET_SCORE,
+    isDefault: true,
+    reason,
+  });
+
+  const candidates = getCompanyTargets(nzId)
+    .filter(t => t.target_type === 'absolute' && t.base_year && t.target_year && t.target_percentage !== null
+      && t.target_year > t.base_year && (!latestYear || t.target_year >= latestYear))
+    .map(t => ({ target: t, scope: resolveTargetScope(t.target_scope) }))
+    .filter(c => c.scope && required.every(r => c.scope!.components.includes(r)
+      || (r === 'scope2_mb' && c.scope!.components.includes('scope2_lb'))))
+    .sort((a, b) => a.target.target_year! - b.target.target_year!);
+
+  if (candidates.length === 0) {
+    return defaultScore('No open absolute target covers these scopes');
+  }
+
+  const { target, scope } = candidates[0];
+  const annualReductionPercent = target.target_percentage! / (target.target_year! - target.base_year!);
+  return {
+    target,
+    scopeLabel: scope!.label,
+    annualReductionPercent,
+    temperature: round2(temperatureForReductionRate(annualReductionPercent)),
+    isDefault: false,
+    reason: null,
+  };
+}
+
+/**
+ * Implied temperature rise of one company
+ * Null when the company does not exist
+ */
+export function getPathwayAlignment(nzId: number, coverage: PathwayCoverage = 'scope1_2'): CompanyPathwayAlignment | null {
+  const company = getCompanyById(nzId);
+  if (!company) return null;
+
+  const series = getTimeSeries(nzId);
+  // Market-based unless location-based is reported in more years; methods are never mixed
+  const reportedYears = (scope: SeriesScope) => series.filter(p => p[scope] !== null).length;
+  const scope2Method = reportedYears('scope2_lb') > reportedYears('scope2_mb') ? 'scope2_lb' : 'scope2_mb';
+  const components: SeriesScope[] = coverage === 'scope1_2_3'
+    ? ['scope1', scope2Method, 'scope3']
+    : ['scope1', scope2Method];
+
+  const points = series
+    .map(p => ({ year: p.year, value: sumComponents(p, components) }))
+    .filter((p): p is { year: number; value: number } => p.value !== null && p.value > 0);
+  const latest = points.length > 0 ? points[points.length - 1] : null;
+
+  const trajectory = scoreTrajectory(points);
+  const target = scoreTarget(nzId, coverage === 'scope1_2_3' ? ['scope1', 'scope2_mb', 'scope3'] : ['scope1', 'scope2_mb'], latest?.year ?? null);
+
+  let intensity: IntensityScore | null = null;
+  if (latest && coverage === PATHWAY_INTENSITY_COVERAGE && hasIntensityData()) {
+    // Revenue from the same disclosure as the emissions
+    const value = toMetricValue(latest.value, getCompanyEmissions(nzId, latest.year)[0] ?? {}, 'per_revenue');
+    const pathway = getIntensityPathway(company.sics_sector, company.sics_sub_sector);
+    const temperature = value !== null ? temperatureForIntensity(pathway, latest.year, value) : null;
+    if (value !== null && temperature !== null) {
+      const scenarios = Object.keys(PATHWAY_SCENARIOS) as PathwayScenario[];
+      intensity = {
+        pathwayKey: pathway.key,
+        year: latest.year,
+        intensity: value,
+        unit: PATHWAY_INTENSITY_UNIT,
+        pathwayIntensities: Object.fromEntries(scenarios.map(s => [s, pathwayIntensity(pathway, s, latest.year)])) as Record<PathwayScenario, number>,
+        temperature: round2(temperature),
+      };
+    }
+  }
+
+  // The default target score alone says nothing about the company, so it needs other evidence
+  const scores = [trajectory?.temperature, intensity?.temperature].filter((t): t is number => t !== undefined);
+  if (scores.length > 0) scores.push(target.temperature);
+  else if (!target.isDefault) scores.push(target.temperature);
+
+  const windowYears = new Set(points.map(p => p.year));
+  return {
+    nz_id: nzId,
+    company_name: company.company_name,
+    sics_sector: company.sics_sector,
+    sics_sub_sector: company.sics_sub_sector,
+    coverage,
+    scope2Method,
+    latestYear: latest?.year ?? null,
+    latestEmissions: latest?.value ?? null,
+    trajectory,
+    target,
+    intensity,
+    temperature: scores.length > 0 ? round2(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+    boundaryChanges: series
+      .filter((p, i) => i > 0 && windowYears.has(p.year) && p.boundary && series[i - 1].boundary && p.boundary !== series[i - 1].boundary)
+      .map(p => p.year),
+  };
+}
+
+/**
+ * Implied temperature rise of each company and of the list as a whole
+ */
+export function getPortfolioPathwayAlignment(nzIds: number[], coverage: PathwayCoverage = 'scope1_2'): PathwayAlignmentResult {
+  const companies: CompanyPathwayAlignment[] = [];
+  const notFound: number[] = [];
+  for (const nzId of [...new Set(nzIds)]) {
+    const alignment = getPathwayAlignment(nzId, coverage);
+    if (alignment) companies.push(alignment);
+    else notFound.push(nzId);
+  }
+
+  const scored = companies.filter(c => c.temperature !== null);
+  const weighted = scored.filter(c => c.latestEmissions !== null);
+  const totalEmissions = weighted.reduce((sum, c) => sum + c.latestEmissions!, 0);
+
+  return {
+    version: PATHWAYS_VERSION,
+    asOf: PATHWAYS_AS_OF,
+    coverage,
+    companies,
+    notFound,
+    aggregate: {
+      companies: companies.length,
+      scored: scored.length,
+      meanTemperature: scored.length > 0
+        ? round2(scored.reduce((sum, c) => sum + c.temperature!, 0) / scored.length)
+        : null,
+      emissionsWeightedTemperature: totalEmissions > 0
+        ? round2(weighted.reduce((sum, c) => sum + c.temperature! * c.latestEmissions!, 0) / totalEmissions)
+        : null,
+      distribution: TEMPERATURE_BANDS.map(({ band, max }, i) => ({
+        band,
+        count: scored.filter(c => c.temperature! <= max && (i === 0 || c.temperature! > TEMPERATURE_BANDS[i - 1].max)).length,
+      })),
+    },
+  };
+}
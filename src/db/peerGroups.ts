@@ -0,0 +1,427 @@
+/**
+ * Explicit peer groups
+ * Builds a benchmark peer set from a definition - SICS level, jurisdiction or region group,
+ * emissions size band, verification and boundary requirements, or a fixed list of nz_ids -
+ * and reports the membership that was used. Optionally keeps only peers comparable with the
+ * benchmarked company (same boundary, same year, similar Scope 3 coverage). Also compares a
+ * company's Scope 3 category shares with its sector peers on the sector's material categories.
+ */
+
+import { getDatabase } from './schema.js';
+import { assertMetricAvailable, toMetricValue, type IntensityMetric } from './intensity.js';
+import { getScope3CoverageSummary, type CompanyRow, type EmissionsRow } from './queries.js';
+import { resolveJurisdictionAlias, REGION_GROUPS, type RegionGroup } from '../knowledge/jurisdictions.js';
+import { getMaterialCategories, MATERIAL_CATEGORIES, SCOPE3_CATEGORY_NAMES } from '../knowledge/materiality.js';
+import { checkEmissionsComparability } from '../knowledge/comparability.js';
+import { calculatePeerStats, calculatePercentileRank } from '../benchmarking/engine.js';
+import { ToolError } from '../validation/errors.js';
+import type { EmissionsData, PeerGroupStats } from '../types/index.js';
+
+export type PeerScope = 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3' | `scope3_cat_${number}`;
+export type SicsLevel = 'sector' | 'sub_sector' | 'industry';
+export type SizeBand = 'similar' | 'small' | 'medium' | 'large' | 'very_large';
+
+// Absolute tCO₂e of the benchmarked scope; lower bound inclusive, upper exclusive
+export const SIZE_BANDS: Record<Exclude<SizeBand, 'similar'>, { min: number; max: number | null }> = {
+  small: { min: 0, max: 100_000 },
+  medium: { min: 100_000, max: 1_000_000 },
+  large: { min: 1_000_000, max: 10_000_000 },
+  very_large: { min: 10_000_000, max: null },
+};
+
+// "similar" keeps peers within one order of magnitude of the benchmarked company
+const SIMILAR_SIZE_FACTOR = 10;
+
+// Minimum Jaccard overlap of reported Scope 3 categories for a peer to count as comparable
+export const SCOPE3_COVERAGE_SIMILARITY = 0.5;
+
+export interface PeerDefinition {
+  sics_level?: SicsLevel;     // Single mode: use the company's own sector, sub-sector or industry
+  sics_sector?: string;
+  sics_sub_sector?: string;
+  sics_industry?: string;
+  jurisdiction?: string;
+  region?: RegionGroup;
+  size_band?: SizeBand;
+  verification?: string;      // Partial match on verification_status, e.g. "reasonable"
+  boundary?: string;          // Partial match on organizational_boundary, e.g. "operational"
+  peer_ids?: number[];
+}
+
+export interface PeerMember {
+  nz_id: number;
+  company_name: string;
+  jurisdiction: string | null;
+  sics_industry: string | null;
+  year: number;
+  value: number;              // In the requested metric
+  absoluteValue: number;      // tCO₂e
+}
+
+export type ExclusionReason = 'year' | 'boundary' | 'scope3_coverage';
+
+export interface ExcludedPeer {
+  nz_id: number;
+  company_name: string;
+  year: number;
+  reason: ExclusionReason;
+  detail: string;
+}
+
+// What comparable_only compared against, and who it removed
+export interface ComparabilityFilter {
+  reference: {
+    source: 'company' | 'peers';      // The benchmarked company, or the most common peer profile
+    year: number;
+    boundary: string | null;
+    scope3Categories: number[] | null; // Scope 3 total and category_share only
+  };
+  excluded: Record<ExclusionReason, number>;
+  excludedPeers: ExcludedPeer[];
+}
+
+export interface PeerGroup {
+  criteria: string[];
+  year: number | null;        // Null pools every reported year
+  members: PeerMember[];
+  stats: PeerGroupStats | null;
+  missingPeerIds: number[];   // peer_ids with no qualifying value
+  percentile: number | null;  // Benchmarked company's rank among the members (single mode)
+  comparability: ComparabilityFilter | null;
+}
+
+// The company being benchmarked, which "sics_level" and "similar" are relative to
+export interface PeerAnchor {
+  company: CompanyRow;
+  value: number | null;
+  absoluteValue: number | null;
+}
+
+export interface CategoryShareBenchmark {
+  category: number;
+  name: string;
+  companyShare: number | null;      // % of the company's Scope 3 total
+  peerMedianShare: number | null;
+  peerCount: number;                // Sector peers reporting the category and a Scope 3 total
+  percentile: number | null;
+}
+
+// A company's material Scope 3 categories, each as a share of Scope 3, against sector peers
+export interface MaterialCategoryBenchmark {
+  sector: string;
+  year: number;
+  materialityKey: string | null;    // Sub-sector or sector the material set comes from; null for the default set
+  reasoning: string;
+  categories: CategoryShareBenchmark[];  // Most material first
+}
+
+type PeerRow = EmissionsRow & {
+  company_name: string;
+  jurisdiction: string | null;
+  sics_industry: string | null;
+  value: number;
+};
+
+/**
+ * Whether any peer-definition argument was given
+ */
+export function hasPeerDefinition(definition: PeerDefinition): boolean {
+  return Object.values(definition).some(v => Array.isArray(v) ? v.length > 0 : v !== undefined && v !== '');
+}
+
+const formatTonnes = (v: number) => Math.round(v).toLocaleString();
+
+// The fields checkEmissionsComparability reads, from a SQLite emissions row
+function toEmissionsData(row: EmissionsRow): EmissionsData {
+  return {
+    company_id: row.nz_id,
+    year: row.year,
+    scope1_emissions: row.scope1 ?? undefined,
+    scope1_methodology: row.scope1_methodology ?? undefined,
+    scope2_location_based: row.scope2_lb ?? undefined,
+    scope2_market_based: row.scope2_mb ?? undefined,
+    scope3_total: row.scope3_total ?? undefined,
+    organizational_boundary: row.organizational_boundary ?? undefined,
+    verification_status: row.verification_status ?? undefined,
+  };
+}
+
+function jaccard(a: number[], b: number[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const set = new Set(a);
+  const shared = b.filter(x => set.has(x)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+// Most frequent value; ties go to the largest (latest year) or alphabetically first
+function mostCommon<T extends string | number>(values: T[]): T | null {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: T | null = null;
+  for (const [v, n] of counts) {
+    const bestCount = best === null ? 0 : counts.get(best)!;
+    if (n > bestCount || (n === bestCount && best !== null &&
+        (typeof v === 'number' ? v > (best as number) : String(v) < String(best)))) {
+      best = v;
+    }
+  }
+  return best;
+}
+
+/**
+ * Keep the rows comparable with the reference disclosure
+ * The reference is the benchmarked company's own row, or else the most common year,
+ * boundary and Scope 3 category set among the peers. Category coverage is only compared
+ * when the value depends on it (Scope 3 total, or a category's share of it).
+ */
+function filterComparable(
+  rows: PeerRow[],
+  checkCoverage: boolean,
+  referenceRow: EmissionsRow | null
+): { rows: PeerRow[]; filter: ComparabilityFilter } {
+  const categoriesOf = (row: EmissionsRow) => getScope3CoverageSummary(row).categoriesWithData;
+
+  let reference: ComparabilityFilter['reference'];
+  if (referenceRow) {
+    reference = {
+      source: 'company',
+      year: referenceRow.year,
+      boundary: referenceRow.organizational_boundary,
+      scope3Categories: checkCoverage ? categoriesOf(referenceRow) : null,
+    };
+  } else {
+    const year = mostCommon(rows.map(r => r.year)) ?? 0;
+    const inYear = rows.filter(r => r.year === year);
+    const boundary = mostCommon(inYear.map(r => r.organizational_boundary).filter((b): b is string => Boolean(b)));
+    let scope3Categories: number[] | null = null;
+    if (checkCoverage) {
+      const sameBoundary = inYear.filter(r => r.organizational_boundary === boundary);
+      const counts = new Array(16).fill(0);
+      for (const row of sameBoundary) for (const cat of categoriesOf(row)) counts[cat]++;
+      scope3Categories = counts.flatMap((n, cat) => cat > 0 && n * 2 >= sameBoundary.length ? [cat] : []);
+    }
+    reference = { source: 'peers', year, boundary, scope3Categories };
+  }
+
+  const referenceData = toEmissionsData({ ...(referenceRow ?? rows[0]), year: reference.year, organizational_boundary: reference.boundary });
+  const excluded: Record<ExclusionReason, number> = { year: 0, boundary: 0, scope3_coverage: 0 };
+  const excludedPeers: ExcludedPeer[] = [];
+  const kept: PeerRow[] = [];
+
+  for (const row of rows) {
+    const warnings = checkEmissionsComparability(referenceData, toEmissionsData(row)).warnings;
+    let reason: ExclusionReason | null = null;
+    let detail = '';
+    const yearWarning = warnings.find(w => w.type === 'year_mismatch');
+    const boundaryWarning = warnings.find(w => w.type === 'boundary_mismatch');
+    if (yearWarning) {
+      reason = 'year';
+      detail = yearWarning.message;
+    } else if (boundaryWarning) {
+      reason = 'boundary';
+      detail = boundaryWarning.message;
+    } else if (reference.boundary && !row.organizational_boundary) {
+      reason = 'boundary';
+      detail = 'Organizational boundary not reported';
+    } else if (reference.scope3Categories) {
+      const categories = categoriesOf(row);
+      const overlap = jaccard(reference.scope3Categories, categories);
+      if (overlap < SCOPE3_COVERAGE_SIMILARITY) {
+        reason = 'scope3_coverage';
+        detail = `Scope 3 categories ${categories.join(', ') || 'none'} overlap ${Math.round(overlap * 100)}% with the reference set`;
+      }
+    }
+
+    if (reason) {
+      excluded[reason]++;
+      excludedPeers.push({ nz_id: row.nz_id, company_name: row.company_name, year: row.year, reason, detail });
+    } else {
+      kept.push(row);
+    }
+  }
+
+  return { rows: kept, filter: { reference, excluded, excludedPeers } };
+}
+
+/**
+ * Peers matching every criterion of the definition, with their statistics
+ * Without a year every reported company-year is pooled, as in getPeerStatistics.
+ */
+export function buildPeerGroup(
+  scope: PeerScope,
+  definition: PeerDefinition,
+  options: { year?: number; metric?: IntensityMetric; anchor?: PeerAnchor; comparableOnly?: boolean } = {}
+): PeerGroup {
+  const metric = options.metric ?? 'absolute';
+  const anchor = options.anchor;
+  assertMetricAvailable(metric);
+
+  const column = scope === 'scope3' ? 'scope3_total' : scope;
+  let where = `e.${column} IS NOT NULL AND e.${column} > 0`;
+  const params: (string | number)[] = [];
+  const criteria: string[] = [];
+
+  const sics = {
+    sector: definition.sics_sector,
+    sub_sector: definition.sics_sub_sector,
+    industry: definition.sics_industry,
+  };
+  if (definition.sics_level) {
+    if (!anchor) throw new ToolError('INVALID_ARGUMENTS', 'sics_level needs a company to take the SICS classification from (mode: "single")');
+    const own = anchor.company[`sics_${definition.sics_level}`];
+    if (!own) {
+      throw new ToolError('DATA_UNAVAILABLE', `${anchor.company.company_name} has no SICS ${definition.sics_level.replace('_', '-')}; choose another sics_level`);
+    }
+    sics[definition.sics_level] = own;
+  }
+  const sicsLabels: Record<SicsLevel, string> = { sector: 'Sector', sub_sector: 'Sub-sector', industry: 'Industry' };
+  for (const level of ['sector', 'sub_sector', 'industry'] as const) {
+    if (!sics[level]) continue;
+    where += ` AND LOWER(c.sics_${level}) = LOWER(?)`;
+    params.push(sics[level]);
+    criteria.push(`${sicsLabels[level]}: ${sics[level]}`);
+  }
+
+  if (definition.region) {
+    const members = REGION_GROUPS[definition.region];
+    where += ` AND LOWER(c.jurisdiction) IN (${members.map(() => 'LOWER(?)').join(', ')})`;
+    params.push(...members);
+    criteria.push(`Region: ${definition.region}`);
+  } else if (definition.jurisdiction) {
+    where += ' AND LOWER(c.jurisdiction) = LOWER(?)';
+    params.push(resolveJurisdictionAlias(definition.jurisdiction));
+    criteria.push(`Jurisdiction: ${resolveJurisdictionAlias(definition.jurisdiction)}`);
+  }
+
+  if (definition.size_band) {
+    let band: { min: number; max: number | null };
+    if (definition.size_band === 'similar') {
+      if (!anchor?.absoluteValue || anchor.absoluteValue <= 0) {
+        throw new ToolError('INVALID_ARGUMENTS', 'size_band "similar" needs a company with reported emissions for this scope (mode: "single")');
+      }
+      band = { min: anchor.absoluteValue / SIMILAR_SIZE_FACTOR, max: anchor.absoluteValue * SIMILAR_SIZE_FACTOR };
+    } else {
+      band = SIZE_BANDS[definition.size_band];
+    }
+    where += ` AND e.${column} >= ?`;
+    params.push(band.min);
+    if (band.max !== null) {
+      where += ` AND e.${column} < ?`;
+      params.push(band.max);
+    }
+    const range = band.max !== null ? `${formatTonnes(band.min)}-${formatTonnes(band.max)}` : `≥ ${formatTonnes(band.min)}`;
+    criteria.push(`Size: ${definition.size_band} (${range} tCO₂e)`);
+  }
+
+  if (definition.verification) {
+    where += ` AND LOWER(e.verification_status) LIKE LOWER(?)`;
+    params.push(`%${definition.verification}%`);
+    criteria.push(`Verification: ${definition.verification}`);
+  }
+  if (definition.boundary) {
+    where += ` AND LOWER(e.organizational_boundary) LIKE LOWER(?)`;
+    params.push(`%${definition.boundary}%`);
+    criteria.push(`Boundary: ${definition.boundary}`);
+  }
+
+  const peerIds = definition.peer_ids ?? [];
+  if (peerIds.length > 0) {
+    where += ` AND c.nz_id IN (${peerIds.map(() => '?').join(', ')})`;
+    params.push(...peerIds);
+    criteria.push(`Peer list: ${peerIds.length} nz_id(s)`);
+  }
+
+  if (options.year) {
+    where += ' AND e.year = ?';
+    params.push(options.year);
+  }
+
+  // e.* carries the intensity denominators of each disclosure and the Scope 3 total for category_share
+  const db = getDatabase();
+  let rows = db.prepare(`
+    SELECT e.*, c.company_name, c.jurisdiction, c.sics_industry, e.${column} as value
+    FROM emissions e
+    JOIN companies c ON e.nz_id = c.nz_id
+    WHERE ${where}
+    ORDER BY e.${column} DESC, c.nz_id, e.year
+  `).all(...params) as PeerRow[];
+
+  let comparability: ComparabilityFilter | null = null;
+  if (options.comparableOnly && rows.length > 0) {
+    const referenceRow = anchor && options.year
+      ? (db.prepare('SELECT * FROM emissions WHERE nz_id = ? AND year = ?').get(anchor.company.nz_id, options.year) as EmissionsRow | undefined) ?? null
+      : null;
+    const filtered = filterComparable(rows, scope === 'scope3' || metric === 'category_share', referenceRow);
+    rows = filtered.rows;
+    comparability = filtered.filter;
+  }
+
+  // Peers without the denominator (or with an unknown currency) drop out
+  const members: PeerMember[] = [];
+  for (const row of rows) {
+    const value = toMetricValue(row.value, row, metric);
+    if (value === null) continue;
+    members.push({
+      nz_id: row.nz_id,
+      company_name: row.company_name,
+      jurisdiction: row.jurisdiction,
+      sics_industry: row.sics_industry,
+      year: row.year,
+      value,
+      absoluteValue: row.value,
+    });
+  }
+  if (metric !== 'absolute') members.sort((a, b) => b.value - a.value || a.nz_id - b.nz_id || a.year - b.year);
+
+  const memberIds = new Set(members.map(m => m.nz_id));
+  const values = members.map(m => m.value);
+
+  return {
+    criteria,
+    year: options.year ?? comparability?.reference.year ?? null,
+    members,
+    stats: values.length > 0 ? calculatePeerStats(values) : null,
+    missingPeerIds: peerIds.filter(id => !memberIds.has(id)),
+    percentile: anchor?.value != null && values.length > 0
+      ? Math.round(calculatePercentileRank(anchor.value, values))
+      : null,
+    comparability,
+  };
+}
+
+/**
+ * Share of Scope 3 in each of the company's material categories, ranked among its sector peers
+ * Materiality comes from the sub-sector, then the sector, then the default set. Peers that do
+ * not report a category (or a Scope 3 total) are left out of that category's comparison.
+ */
+export function benchmarkMaterialCategories(company: CompanyRow, year: number): MaterialCategoryBenchmark | null {
+  if (!company.sics_sector) return null;
+  const subSector = company.sics_sub_sector ?? undefined;
+  const materiality = getMaterialCategories(company.sics_sector, subSector);
+  const materialityKey = subSector && MATERIAL_CATEGORIES[subSector] ? subSector
+    : MATERIAL_CATEGORIES[company.sics_sector] ? company.sics_sector
+    : null;
+
+  const own = getDatabase().prepare('SELECT * FROM emissions WHERE nz_id = ? AND year = ?').get(company.nz_id, year) as
+    EmissionsRow | undefined;
+  const categories = materiality.categories.map(category => {
+    const scope = `scope3_cat_${category}` as const;
+    const absoluteValue = (own?.[scope as keyof EmissionsRow] as number | null | undefined) ?? null;
+    const companyShare = toMetricValue(absoluteValue, { scope3_total: own?.scope3_total }, 'category_share');
+    const group = buildPeerGroup(scope, { sics_sector: company.sics_sector ?? undefined }, {
+      year,
+      metric: 'category_share',
+      anchor: { company, value: companyShare, absoluteValue },
+    });
+    return {
+      category,
+      name: SCOPE3_CATEGORY_NAMES[category],
+      companyShare,
+      peerMedianShare: group.stats?.median ?? null,
+      peerCount: group.stats?.count ?? 0,
+      percentile: group.percentile,
+    };
+  });
+
+  return { sector: company.sics_sector, year, materialityKey, reasoning: materiality.reasoning, categories };
+}
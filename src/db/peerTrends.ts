@@ -1,13 +1,19 @@
 /**
  * Time-series peer analytics
  * FIX-H3: Addresses Limitation L6.3 and L6.4 from testing
+ * A constant cohort (balanced panel) keeps only companies reporting in every year, so the
+ * trend is not moved by companies joining or leaving the dataset.
  */
 
 import { getDatabase } from './schema.js';
+import { resolveJurisdictionAlias } from '../knowledge/jurisdictions.js';
+import type { CompanyRow, EmissionsRow } from './queries.js';
+import { estimateTrend, type TrendEstimate } from '../benchmarking/trends.js';
 
 export interface PeerTrendDataPoint {
   year: number;
   count: number; // Number of companies with data this year
+  sum: number;   // Aggregate emissions of those companies
   mean: number;
   median: number;
   min: number;
@@ -16,6 +22,17 @@ export interface PeerTrendDataPoint {
   percentile75: number;
 }
 
+export type PeerTrendScope = 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3' | `scope3_cat_${number}`;
+
+// all: every company reporting in each year; constant: only companies reporting in every year
+export type PeerTrendCohort = 'all' | 'constant';
+
+export interface PeerTrendFilters {
+  jurisdiction?: string;
+  sics_sector?: string;
+  sics_sub_sector?: string;
+}
+
 export interface PeerTrendResult {
   filters: {
     scope: string;
@@ -30,39 +47,51 @@ export interface PeerTrendResult {
   };
   dataPoints: PeerTrendDataPoint[];
 
-  // Overall trend analysis
+  // Overall trend analysis; with 3+ years the direction comes from the Mann-Kendall test
+  // on the mean series ("stable" = no significant trend), otherwise from a ±5% mean change
   overallTrendDirection: 'increasing' | 'decreasing' | 'stable' | 'insufficient_data';
   meanChange: number | null; // Absolute change from first to last year
   meanChangePercent: number | null; // Percent change in mean
   averageAnnualChange: number | null; // Average year-over-year change
   averageAnnualGrowthRate: number | null; // CAGR for mean values
+  regression: TrendEstimate | null; // Log-scale slopes and significance of the mean series
+
+  cohort: PeerTrendCohort;
+  cohortSize: number | null; // Companies in the constant cohort
+  composition: CompositionAttribution | null; // Constant cohort only
 }
 
 /**
- * Get time-series trend for a peer group across multiple years
+ * First-to-last-year change of the unbalanced series split into like-for-like change
+ * (the constant cohort) and composition (companies entering or leaving the dataset)
  */
-export function getPeerTrend(
-  scope: 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3',
-  filters: {
-    jurisdiction?: string;
-    sics_sector?: string;
-    sics_sub_sector?: string;
-  },
-  startYear?: number,
-  endYear?: number
-): PeerTrendResult {
-  const db = getDatabase();
-
-  // Map scope to column
-  const column = scope === 'scope3' ? 'scope3_total' : scope;
+export interface CompositionAttribution {
+  startYear: number;
+  endYear: number;
+  entrants: number; // Reporting in the last year but not in the cohort
+  leavers: number;  // Reporting in the first year but not in the cohort
+  unbalancedMeanChange: number;
+  cohortMeanChange: number;
+  compositionMeanChange: number; // unbalanced - cohort
+  unbalancedSumChange: number;
+  cohortSumChange: number;
+  compositionSumChange: number;  // Entrants' last-year sum minus leavers' first-year sum
+  compositionShare: number | null; // Composition as % of the unbalanced mean change
+}
 
-  // Build WHERE clause
+/**
+ * WHERE clause selecting peer group rows that report the scope
+ */
+function buildPeerWhereClause(
+  column: string,
+  filters: PeerTrendFilters
+): { whereClause: string; params: (string | number)[] } {
   let whereClause = `e.${column} IS NOT NULL AND e.${column} > 0`;
   const params: (string | number)[] = [];
 
   if (filters.jurisdiction) {
     whereClause += ' AND LOWER(c.jurisdiction) = LOWER(?)';
-    params.push(filters.jurisdiction);
+    params.push(resolveJurisdictionAlias(filters.jurisdiction));
   }
   if (filters.sics_sector) {
     whereClause += ' AND LOWER(c.sics_sector) = LOWER(?)';
@@ -72,6 +101,26 @@ export function getPeerTrend(
     whereClause += ' AND LOWER(c.sics_sub_sector) = LOWER(?)';
     params.push(filters.sics_sub_sector);
   }
+  return { whereClause, params };
+}
+
+/**
+ * Get time-series trend for a peer group across multiple years
+ * With the constant cohort, only companies reporting in every year that has data are kept,
+ * and the change in the all-company series is attributed to composition and real change.
+ */
+export function getPeerTrend(
+  scope: PeerTrendScope,
+  filters: PeerTrendFilters,
+  startYear?: number,
+  endYear?: number,
+  cohort: PeerTrendCohort = 'all'
+): PeerTrendResult {
+  const db = getDatabase();
+
+  // Map scope to column
+  const column = scope === 'scope3' ? 'scope3_total' : scope;
+  const { whereClause, params } = buildPeerWhereClause(column, filters);
 
   // Determine year range if not specified
   if (!startYear || !endYear) {
@@ -84,60 +133,46 @@ export function getPeerTrend(
     const yearRange = db.prepare(yearRangeQuery).get(...params) as { min_year: number; max_year: number } | undefined;
 
     if (!yearRange) {
-      return createEmptyTrendResult(scope, filters, startYear || 0, endYear || 0);
+      return createEmptyTrendResult(scope, filters, startYear || 0, endYear || 0, cohort);
     }
 
     startYear = startYear || yearRange.min_year;
     endYear = endYear || yearRange.max_year;
   }
 
-  // Get statistics for each year
-  const dataPoints: PeerTrendDataPoint[] = [];
-
-  for (let year = startYear; year <= endYear; year++) {
-    const yearWhereClause = `${whereClause} AND e.year = ?`;
-    const yearParams = [...params, year];
-
-    // Get all values for this year
-    const valuesQuery = `
-      SELECT e.${column} as value
-      FROM emissions e
-      JOIN companies c ON e.nz_id = c.nz_id
-      WHERE ${yearWhereClause}
-      ORDER BY e.${column}
-    `;
-
-    const values = db.prepare(valuesQuery).all(...yearParams) as { value: number }[];
-
-    if (values.length === 0) {
-      continue; // Skip years with no data
+  // Every reported value in the range, grouped by year
+  const rows = db.prepare(`
+    SELECT e.nz_id, e.year, e.${column} as value
+    FROM emissions e
+    JOIN companies c ON e.nz_id = c.nz_id
+    WHERE ${whereClause} AND e.year BETWEEN ? AND ?
+  `).all(...params, startYear, endYear) as { nz_id: number; year: number; value: number }[];
+
+  const byYear = new Map<number, { nz_id: number; value: number }[]>();
+  for (const row of rows) {
+    const yearRows = byYear.get(row.year);
+    if (yearRows) yearRows.push(row);
+    else byYear.set(row.year, [row]);
+  }
+  // Years with no data are skipped, and do not break the constant cohort
+  const years = [...byYear.keys()].sort((a, b) => a - b);
+
+  const unbalanced = years.map(year => yearStatistics(year, byYear.get(year)!.map(r => r.value)));
+  let dataPoints = unbalanced;
+  let cohortSize: number | null = null;
+  let composition: CompositionAttribution | null = null;
+
+  if (cohort === 'constant') {
+    const yearsReported = new Map<number, number>();
+    for (const row of rows) yearsReported.set(row.nz_id, (yearsReported.get(row.nz_id) ?? 0) + 1);
+    const members = new Set([...yearsReported].filter(([, n]) => n === years.length).map(([nzId]) => nzId));
+    cohortSize = members.size;
+    dataPoints = members.size > 0
+      ? years.map(year => yearStatistics(year, byYear.get(year)!.filter(r => members.has(r.nz_id)).map(r => r.value)))
+      : [];
+    if (dataPoints.length >= 2) {
+      composition = attributeComposition(unbalanced, dataPoints, byYear, members);
     }
-
-    const sortedValues = values.map(v => v.value).sort((a, b) => a - b);
-    const count = sortedValues.length;
-    const sum = sortedValues.reduce((a, b) => a + b, 0);
-    const mean = sum / count;
-
-    // Calculate median
-    const midpoint = Math.floor(count / 2);
-    const median = count % 2 === 0
-      ? (sortedValues[midpoint - 1] + sortedValues[midpoint]) / 2
-      : sortedValues[midpoint];
-
-    // Calculate percentiles
-    const p25Index = Math.floor(count * 0.25);
-    const p75Index = Math.floor(count * 0.75);
-
-    dataPoints.push({
-      year,
-      count,
-      mean,
-      median,
-      min: sortedValues[0],
-      max: sortedValues[count - 1],
-      percentile25: sortedValues[p25Index],
-      percentile75: sortedValues[p75Index],
-    });
   }
 
   // Analyze overall trend
@@ -157,9 +192,117 @@ export function getPeerTrend(
     },
     dataPoints,
     ...analysis,
+    cohort,
+    cohortSize,
+    composition,
+  };
+}
+
+/**
+ * Summary statistics of one year's values
+ */
+function yearStatistics(year: number, values: number[]): PeerTrendDataPoint {
+  const sortedValues = [...values].sort((a, b) => a - b);
+  const count = sortedValues.length;
+  const sum = sortedValues.reduce((a, b) => a + b, 0);
+  const mean = sum / count;
+
+  // Calculate median
+  const midpoint = Math.floor(count / 2);
+  const median = count % 2 === 0
+    ? (sortedValues[midpoint - 1] + sortedValues[midpoint]) / 2
+    : sortedValues[midpoint];
+
+  // Calculate percentiles
+  const p25Index = Math.floor(count * 0.25);
+  const p75Index = Math.floor(count * 0.75);
+
+  return {
+    year,
+    count,
+    sum,
+    mean,
+    median,
+    min: sortedValues[0],
+    max: sortedValues[count - 1],
+    percentile25: sortedValues[p25Index],
+    percentile75: sortedValues[p75Index],
+  };
+}
+
+/**
+ * Split the unbalanced first-to-last change into cohort change and composition
+ * Sums split exactly: the rest is companies outside the cohort in the first and last year.
+ */
+function attributeComposition(
+  unbalanced: PeerTrendDataPoint[],
+  constant: PeerTrendDataPoint[],
+  byYear: Map<number, { nz_id: number; value: number }[]>,
+  members: Set<number>
+): CompositionAttribution {
+  const [first, last] = [unbalanced[0], unbalanced[unbalanced.length - 1]];
+  const [cohortFirst, cohortLast] = [constant[0], constant[constant.length - 1]];
+  const unbalancedMeanChange = last.mean - first.mean;
+  const cohortMeanChange = cohortLast.mean - cohortFirst.mean;
+  const unbalancedSumChange = last.sum - first.sum;
+  const cohortSumChange = cohortLast.sum - cohortFirst.sum;
+  const outside = (year: number) => byYear.get(year)!.filter(r => !members.has(r.nz_id)).length;
+
+  return {
+    startYear: first.year,
+    endYear: last.year,
+    entrants: outside(last.year),
+    leavers: outside(first.year),
+    unbalancedMeanChange,
+    cohortMeanChange,
+    compositionMeanChange: unbalancedMeanChange - cohortMeanChange,
+    unbalancedSumChange,
+    cohortSumChange,
+    compositionSumChange: unbalancedSumChange - cohortSumChange,
+    compositionShare: unbalancedMeanChange !== 0
+      ? ((unbalancedMeanChange - cohortMeanChange) / unbalancedMeanChange) * 100
+      : null,
   };
 }
 
+/**
+ * Company-year rows behind a peer trend (same filters and year range as getPeerTrend)
+ */
+export function getPeerTrendConstituents(
+  scope: PeerTrendScope,
+  filters: PeerTrendFilters,
+  startYear?: number,
+  endYear?: number
+): { company: CompanyRow; emissions: EmissionsRow }[] {
+  const db = getDatabase();
+  const column = scope === 'scope3' ? 'scope3_total' : scope;
+  const { whereClause, params } = buildPeerWhereClause(column, filters);
+
+  let query = `
+    SELECT e.nz_id, e.year FROM emissions e
+    JOIN companies c ON e.nz_id = c.nz_id
+    WHERE ${whereClause}
+  `;
+  if (startYear) {
+    query += ' AND e.year >= ?';
+    params.push(startYear);
+  }
+  if (endYear) {
+    query += ' AND e.year <= ?';
+    params.push(endYear);
+  }
+  query += ' ORDER BY e.year, c.company_name';
+
+  const keys = db.prepare(query).all(...params) as { nz_id: number; year: number }[];
+  const getCompany = db.prepare('SELECT * FROM companies WHERE nz_id = ?');
+  const getEmissions = db.prepare('SELECT * FROM emissions WHERE nz_id = ? AND year = ?');
+
+  return keys.map(k => ({
+    company: getCompany.get(k.nz_id) as CompanyRow,
+    emissions: getEmissions.get(k.nz_id, k.year) as EmissionsRow,
+  }));
+}
+
 /**
  * Analyze trend direction and calculate summary statistics
  */
@@ -169,6 +312,7 @@ function analyzeTrend(dataPoints: PeerTrendDataPoint[]): {
   meanChangePercent: number | null;
   averageAnnualChange: number | null;
   averageAnnualGrowthRate: number | null;
+  regression: TrendEstimate | null;
 } {
   if (dataPoints.length < 2) {
     return {
@@ -177,6 +321,7 @@ function analyzeTrend(dataPoints: PeerTrendDataPoint[]): {
       meanChangePercent: null,
       averageAnnualChange: null,
       averageAnnualGrowthRate: null,
+      regression: null,
     };
   }
 
@@ -206,9 +351,13 @@ function analyzeTrend(dataPoints: PeerTrendDataPoint[]): {
       ? (Math.pow(lastPoint.mean / firstPoint.mean, 1 / yearsApart) - 1) * 100
       : null;
 
-  // Determine trend direction (using simple threshold)
+  // Determine trend direction: significance test when there are enough years,
+  // else a simple threshold on the first-to-last change
+  const regression = estimateTrend(dataPoints.map(p => ({ year: p.year, value: p.mean })));
   let overallTrendDirection: 'increasing' | 'decreasing' | 'stable' = 'stable';
-  if (Math.abs(meanChangePercent) > 5) {
+  if (regression) {
+    if (regression.direction !== 'no_significant_trend') overallTrendDirection = regression.direction;
+  } else if (Math.abs(meanChangePercent) > 5) {
     // More than 5% change is considered a trend
     overallTrendDirection = meanChangePercent > 0 ? 'increasing' : 'decreasing';
   }
@@ -219,6 +368,7 @@ function analyzeTrend(dataPoints: PeerTrendDataPoint[]): {
     meanChangePercent,
     averageAnnualChange,
     averageAnnualGrowthRate,
+    regression,
   };
 }
 
@@ -233,7 +383,8 @@ function createEmptyTrendResult(
     sics_sub_sector?: string;
   },
   startYear: number,
-  endYear: number
+  endYear: number,
+  cohort: PeerTrendCohort = 'all'
 ): PeerTrendResult {
   return {
     filters: {
@@ -251,5 +402,9 @@ function createEmptyTrendResult(
     meanChangePercent: null,
     averageAnnualChange: null,
     averageAnnualGrowthRate: null,
+    regression: null,
+    cohort,
+    cohortSize: cohort === 'constant' ? 0 : null,
+    composition: null,
   };
 }
@@ -0,0 +1,259 @@
+/**
+ * Portfolio financed emissions
+ * PCAF-style attribution of company emissions to listed equity and corporate debt holdings
+ */
+
+import {
+  getCompanyById,
+  getCompanyByLei,
+  searchCompanies,
+  getCompanyEmissions,
+  assessDataQuality,
+  getScope3CoverageSummary,
+  type CompanyRow,
+  type EmissionsRow,
+} from './queries.js';
+import { hasIntensityData, toMetricValue } from './intensity.js';
+import { resolveIdentifier } from './identifiers.js';
+import type { MethodQualityTier } from '../types/index.js';
+
+export interface PortfolioHolding {
+  nz_id?: number;
+  lei?: string;
+  isin?: string;
+  name?: string;
+  position_value: number;
+  evic?: number;                // Enterprise value including cash (listed equity / bonds)
+  outstanding_amount?: number;  // Total equity + debt, used when EVIC is not available
+}
+
+export type HoldingMatchStatus = 'matched' | 'not_found' | 'ambiguous' | 'no_emissions';
+
+export interface HoldingResult {
+  input: PortfolioHolding;
+  label: string;
+  status: HoldingMatchStatus;
+  candidates: { nz_id: number; company_name: string }[];
+  company: CompanyRow | null;
+  year: number | null;
+  weight: number;
+  attributionFactor: number | null;
+  covered: boolean;                 // Scope 1 and Scope 2 both attributed; counts toward coveredValue
+  financedScope1: number | null;
+  financedScope2: number | null;
+  financedScope3: number | null;
+  scope3CategoriesReported: number | null;
+  revenueIntensity: number | null;  // (Scope 1 + 2) / USD million revenue
+  dataQualityScore: number | null;  // 1 (best) to 5, PCAF-style
+  notes: string[];
+}
+
+export interface PortfolioResult {
+  holdings: HoldingResult[];
+  totalValue: number;
+  coveredValue: number;         // Value of holdings with Scope 1 and Scope 2 both attributed
+  uncoveredValue: number;       // Everything else: unmatched, no EVIC, or Scope 1 or 2 not reported
+  financedScope1: number;
+  financedScope2: number;
+  financedScope3: number;
+  carbonFootprint: number | null;   // (Scope 1 + 2) financed per million invested
+  waci: number | null;              // Weighted average carbon intensity, tCO₂e / USD million revenue
+  waciCoverage: number;             // Share of portfolio value with revenue data
+  weightedDataQuality: number | null;
+  weightedDataQualityAllHoldings: number | null; // Uncovered holdings counted as 5
+}
+
+/**
+ * Resolve a holding to a company by nz_id, then LEI, then ISIN, then name
+ */
+function resolveHolding(holding: PortfolioHolding): {
+  company: CompanyRow | null;
+  status: HoldingMatchStatus;
+  candidates: { nz_id: number; company_name: string }[];
+} {
+  if (holding.nz_id) {
+    const company = getCompanyById(holding.nz_id);
+    return { company: company || null, status: company ? 'matched' : 'not_found', candidates: [] };
+  }
+  if (holding.lei) {
+    const company = getCompanyByLei(holding.lei.trim().toUpperCase());
+    return { company: company || null, status: company ? 'matched' : 'not_found', candidates: [] };
+  }
+  if (holding.isin) {
+    const match = resolveIdentifier(holding.isin, 'isin');
+    if (match.status === 'matched') return { company: match.companies[0], status: 'matched', candidates: [] };
+    return {
+      company: null,
+      status: match.status === 'ambiguous' ? 'ambiguous' : 'not_found',
+      candidates: match.companies.map(c => ({ nz_id: c.nz_id, company_name: c.company_name })),
+    };
+  }
+  if (holding.name) {
+    // Name search is fuzzy, so only an exact (normalised) name match is attributed;
+    // close names are offered as candidates instead
+    const matches = searchCompanies(holding.name.trim(), 5);
+    const exact = matches.filter(c => c.match_score === 1);
+    if (exact.length === 1) return { company: exact[0], status: 'matched', candidates: [] };
+    if (matches.length === 0) return { company: null, status: 'not_found', candidates: [] };
+    return {
+      company: null,
+      status: 'ambiguous',
+      candidates: matches.map(c => ({ nz_id: c.nz_id, company_name: c.company_name })),
+    };
+  }
+  return { company: null, status: 'not_found', candidates: [] };
+}
+
+/**
+ * PCAF-style data quality score (1 = best, 5 = worst) for reported company emissions
+ * Score 1: verified reported emissions; score 2: unverified reported emissions.
+ * Scope 3 is scored from the value-weighted method tier of the reported categories,
+ * one step worse when fewer than 5 categories are reported.
+ */
+function scoreDataQuality(emissions: EmissionsRow, includeScope3: boolean): number {
+  const assessment = assessDataQuality(emissions);
+  let scope12Score = assessment.verificationScore === 'LOW' ? 2 : 1;
+  if (assessment.overallScore === 'LOW') scope12Score += 1;
+
+  if (!includeScope3) return scope12Score;
+
+  const coverage = getScope3CoverageSummary(emissions);
+  if (coverage.categoriesReported === 0) return scope12Score;
+
+  const tierScores: Record<MethodQualityTier, number> = { PRIMARY: 2, MODELED: 3, UNKNOWN: 4 };
+  let weighted = 0;
+  let total = 0;
+  for (const cat of coverage.categoriesWithData) {
+    const value = coverage.categoryValues[cat];
+    weighted += tierScores[assessment.scope3MethodQuality[cat].methodTier] * value;
+    total += value;
+  }
+  let scope3Score = total > 0 ? weighted / total : 4;
+  if (coverage.categoriesReported < 5) scope3Score = Math.min(5, scope3Score + 1);
+
+  // Average Scope 1+2 and Scope 3 so both parts of the footprint count
+  return (scope12Score + scope3Score) / 2;
+}
+
+/**
+ * Calculate financed emissions, WACI, carbon footprint and data quality for a portfolio
+ */
+export function calculatePortfolioEmissions(
+  holdings: PortfolioHolding[],
+  options: { year?: number; scope2: 'scope2_lb' | 'scope2_mb'; includeScope3: boolean }
+): PortfolioResult {
+  const totalValue = holdings.reduce((sum, h) => sum + (h.position_value > 0 ? h.position_value : 0), 0);
+  const canComputeWaci = hasIntensityData();
+
+  const results: HoldingResult[] = holdings.map(holding => {
+    const label = holding.name || holding.isin || holding.lei || (holding.nz_id ? `nz_id ${holding.nz_id}` : 'Unidentified holding');
+    const weight = totalValue > 0 && holding.position_value > 0 ? holding.position_value / totalValue : 0;
+    const { company, status, candidates } = resolveHolding(holding);
+
+    const result: HoldingResult = {
+      input: holding,
+      label,
+      status,
+      candidates,
+      company,
+      year: null,
+      weight,
+      attributionFactor: null,
+      covered: false,
+      financedScope1: null,
+      financedScope2: null,
+      financedScope3: null,
+      scope3CategoriesReported: null,
+      revenueIntensity: null,
+      dataQualityScore: null,
+      notes: [],
+    };
+    if (!company) return result;
+
+    const emissions = getCompanyEmissions(company.nz_id, options.year)[0];
+    if (!emissions) {
+      result.status = 'no_emissions';
+      result.notes.push(options.year ? `No emissions reported for ${options.year}` : 'No emissions reported');
+      return result;
+    }
+    result.year = emissions.year;
+
+    const denominator = holding.evic || holding.outstanding_amount;
+    if (denominator && denominator > 0) {
+      result.attributionFactor = holding.position_value / denominator;
+      if (result.attributionFactor > 1) {
+        result.notes.push('Position exceeds EVIC/outstanding amount - check inputs');
+      }
+    } else {
+      result.notes.push('No EVIC or outstanding amount - excluded from financed emissions');
+    }
+
+    const scope2Value = emissions[options.scope2];
+    if (result.attributionFactor !== null) {
+      result.financedScope1 = emissions.scope1 !== null ? emissions.scope1 * result.attributionFactor : null;
+      result.financedScope2 = scope2Value !== null ? scope2Value * result.attributionFactor : null;
+      if (options.includeScope3) {
+        result.financedScope3 = emissions.scope3_total !== null ? emissions.scope3_total * result.attributionFactor : null;
+      }
+      result.covered = result.financedScope1 !== null && result.financedScope2 !== null;
+    }
+    if (emissions.scope1 === null) result.notes.push('Scope 1 not reported');
+    if (scope2Value === null) result.notes.push(`${options.scope2 === 'scope2_mb' ? 'Market-based' : 'Location-based'} Scope 2 not reported`);
+
+    if (options.includeScope3) {
+      result.scope3CategoriesReported = getScope3CoverageSummary(emissions).categoriesReported;
+    }
+
+    if (canComputeWaci && emissions.scope1 !== null && scope2Value !== null) {
+      result.revenueIntensity = toMetricValue(emissions.scope1 + scope2Value, emissions, 'per_revenue');
+    }
+
+    result.dataQualityScore = scoreDataQuality(emissions, options.includeScope3);
+    return result;
+  });
+
+  // Portfolio aggregates
+  const attributed = results.filter(r => r.attributionFactor !== null);
+  const sum = (values: (number | null)[]) => values.reduce<number>((acc, v) => acc + (v ?? 0), 0);
+
+  const financedScope1 = sum(attributed.map(r => r.financedScope1));
+  const financedScope2 = sum(attributed.map(r => r.financedScope2));
+  const financedScope3 = sum(attributed.map(r => r.financedScope3));
+  // A holding missing Scope 1 or 2 would understate the footprint, so only fully attributed ones count
+  const covered = results.filter(r => r.covered);
+  const coveredValue = sum(covered.map(r => r.input.position_value));
+  const coveredEmissions = sum(covered.map(r => r.financedScope1! + r.financedScope2!));
+
+  const carbonFootprint = coveredValue > 0 ? coveredEmissions / (coveredValue / 1e6) : null;
+
+  // WACI re-weights over holdings with revenue data so missing data does not pull it down
+  const withIntensity = results.filter(r => r.revenueIntensity !== null);
+  const waciWeight = sum(withIntensity.map(r => r.weight));
+  const waci = waciWeight > 0
+    ? withIntensity.reduce((acc, r) => acc + r.weight * r.revenueIntensity!, 0) / waciWeight
+    : null;
+
+  const scored = results.filter(r => r.dataQualityScore !== null);
+  const scoredWeight = sum(scored.map(r => r.weight));
+  const weightedDataQuality = scoredWeight > 0
+    ? scored.reduce((acc, r) => acc + r.weight * r.dataQualityScore!, 0) / scoredWeight
+    : null;
+  const weightedDataQualityAllHoldings = totalValue > 0
+    ? results.reduce((acc, r) => acc + r.weight * (r.dataQualityScore ?? 5), 0)
+    : null;
+
+  return {
+    holdings: results,
+    totalValue,
+    coveredValue,
+    uncoveredValue: totalValue - coveredValue,
+    financedScope1,
+    financedScope2,
+    financedScope3,
+    carbonFootprint,
+    waci,
+    waciCoverage: waciWeight,
+    weightedDataQuality,
+    weightedDataQualityAllHoldings,
+  };
+}
@@ -1,4 +1,12 @@
 import { getDatabase } from './schema.js';
+import { ToolError } from '../validation/errors.js';
+import { assertMetricAvailable, toMetricValue, type IntensityMetric } from './intensity.js';
+import { findCompaniesByLei } from './identifiers.js';
+import { findCompanyMatches } from './companySearch.js';
+import { resolveJurisdictionAlias } from '../knowledge/jurisdictions.js';
+import { calculatePeerStats } from '../benchmarking/engine.js';
+import { buildPeerGroup, type ComparabilityFilter, type PeerDefinition } from './peerGroups.js';
+import type { PeerGroupStats } from '../types/index.js';
 
 // ==================== TYPES ====================
 
@@ -11,6 +19,13 @@ export interface CompanyRow {
   sics_industry: string | null;
   lei: string | null;
   latest_reported_year: number | null;
+  alias?: string | null;
+  // Set by ranked name search (0-1)
+  match_score?: number;
+  // Latest reported values; absent in databases built before intensity denominators were stored
+  revenue?: number | null;
+  revenue_currency?: string | null;
+  employee_count?: number | null;
 }
 
 export interface EmissionsRow {
@@ -72,6 +87,10 @@ export interface EmissionsRow {
   scope3_cat_15_relevancy: string | null;
   organizational_boundary: string | null;
   verification_status: string | null;
+  // Intensity denominators reported in this disclosure; absent in older databases
+  revenue?: number | null;
+  revenue_currency?: string | null;
+  employee_count?: number | null;
 }
 
 export interface TopEmitter {
@@ -83,6 +102,7 @@ export interface TopEmitter {
   sics_sector: string | null;
   sics_sub_sector: string | null;
   sics_industry: string | null;
+  absolute_value?: number; // Set when ranked by an intensity metric
 }
 
 export interface TopEmittersFilters {
@@ -208,21 +228,39 @@ export function getTopEmitters(
   scope: 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3' | `scope3_cat_${number}`,
   limit: number = 10,
   year?: number,
-  filters?: TopEmittersFilters
+  filters?: TopEmittersFilters,
+  metric: IntensityMetric = 'absolute'
 ): TopEmitter[] {
+  return getTopEmittersPage(scope, limit, 0, year, filters, metric).data;
+}
+
+/**
+ * Get one page of the emitter ranking with the total number of ranked rows
+ * Ties are broken by nz_id and year so pages never overlap
+ */
+export function getTopEmittersPage(
+  scope: 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3' | `scope3_cat_${number}`,
+  limit: number = 10,
+  offset: number = 0,
+  year?: number,
+  filters?: TopEmittersFilters,
+  metric: IntensityMetric = 'absolute'
+): { data: TopEmitter[]; total: number } {
   const db = getDatabase();
+  assertMetricAvailable(metric);
 
-  // Map scope to column name
+  // Map scope to column name; only known columns reach the SQL
   let column: string;
   if (scope === 'scope1') column = 'scope1';
   else if (scope === 'scope2_lb') column = 'scope2_lb';
   else if (scope === 'scope2_mb') column = 'scope2_mb';
   else if (scope === 'scope3') column = 'scope3_total';
-  else if (scope.startsWith('scope3_cat_')) {
-    const catNum = scope.replace('scope3_cat_', '');
+  else {
+    const catNum = Number(scope.replace('scope3_cat_', ''));
+    if (!Number.isInteger(catNum) || catNum < 1 || catNum > 15) {
+      throw new ToolError('INVALID_ARGUMENTS', `Unknown scope: ${scope}`, { scope });
+    }
     column = `scope3_cat_${catNum}`;
-  } else {
-    column = 'scope1';
   }
 
   let query = `
@@ -234,7 +272,7 @@ export function getTopEmitters(
       c.jurisdiction,
       c.sics_sector,
       c.sics_sub_sector,
-      c.sics_industry
+      c.sics_industry${metric !== 'absolute' ? ',\n      e.revenue, e.revenue_currency, e.employee_count' : ''}
     FROM emissions e
     JOIN companies c ON e.nz_id = c.nz_id
     WHERE e.${column} IS NOT NULL AND e.${column} > 0
@@ -245,7 +283,7 @@ export function getTopEmitters(
   // Add optional filters
   if (filters?.jurisdiction) {
     query += ' AND LOWER(c.jurisdiction) = LOWER(?)';
-    params.push(filters.jurisdiction);
+    params.push(resolveJurisdictionAlias(filters.jurisdiction));
   }
   if (filters?.sics_sector) {
     query += ' AND LOWER(c.sics_sector) = LOWER(?)';
@@ -265,22 +303,43 @@ export function getTopEmitters(
     params.push(year);
   }
 
-  query += ` ORDER BY e.${column} DESC LIMIT ?`;
-  params.push(limit);
+  if (metric !== 'absolute') {
+    // Currency conversion happens in JS, so rank the full filtered set here
+    const rows = db.prepare(query).all(...params) as (TopEmitter & { revenue: number | null; revenue_currency: string | null; employee_count: number | null })[];
+    const ranked: TopEmitter[] = [];
+    for (const { revenue, revenue_currency, employee_count, ...row } of rows) {
+      const value = toMetricValue(row.value, { revenue, revenue_currency, employee_count }, metric);
+      if (value !== null) ranked.push({ ...row, value, absolute_value: row.value });
+    }
+    ranked.sort((a, b) => b.value - a.value || a.nz_id - b.nz_id || a.year - b.year);
+    return { data: ranked.slice(offset, offset + limit), total: ranked.length };
+  }
 
-  return db.prepare(query).all(...params) as TopEmitter[];
+  const countResult = db.prepare(`SELECT COUNT(*) as count FROM (${query})`).get(...params) as { count: number };
+
+  query += ` ORDER BY e.${column} DESC, e.nz_id, e.year LIMIT ? OFFSET ?`;
+
+  const data = db.prepare(query).all(...params, limit, offset) as TopEmitter[];
+  return { data, total: countResult.count };
 }
 
 /**
- * Get companies with at least N disclosure years
+ * Get companies with at least N disclosure years, longest history first
  */
 export function getCompaniesWithMinDisclosures(
   minDisclosures: number,
-  limit: number = 100
-): { nz_id: number; company_name: string; disclosure_count: number; years: string }[] {
+  limit: number = 100,
+  offset: number = 0
+): { data: { nz_id: number; company_name: string; disclosure_count: number; years: string }[]; total: number } {
   const db = getDatabase();
   
-  return db.prepare(`
+  const countResult = db.prepare(`
+    SELECT COUNT(*) as count FROM (
+      SELECT c.nz_id FROM companies c JOIN emissions e ON c.nz_id = e.nz_id GROUP BY c.nz_id HAVING COUNT(e.year) >= ?
+    )
+  `).get(minDisclosures) as { count: number };
+  
+  const data = db.prepare(`
     SELECT 
       c.nz_id,
       c.company_name,
@@ -290,26 +349,21 @@ export function getCompaniesWithMinDisclosures(
     JOIN emissions e ON c.nz_id = e.nz_id
     GROUP BY c.nz_id
     HAVING COUNT(e.year) >= ?
-    ORDER BY disclosure_count DESC
-    LIMIT ?
-  `).all(minDisclosures, limit) as { nz_id: number; company_name: string; disclosure_count: number; years: string }[];
+    ORDER BY disclosure_count DESC, c.nz_id
+    LIMIT ? OFFSET ?
+  `).all(minDisclosures, limit, offset) as { nz_id: number; company_name: string; disclosure_count: number; years: string }[];
+  
+  return { data, total: countResult.count };
 }
 
 /**
- * Search companies by name
+ * Search companies by name or alias, best match first
  */
 export function searchCompanies(
   searchTerm: string,
   limit: number = 20
 ): CompanyRow[] {
-  const db = getDatabase();
-  
-  return db.prepare(`
-    SELECT * FROM companies
-    WHERE company_name LIKE ?
-    ORDER BY company_name
-    LIMIT ?
-  `).all(`%${searchTerm}%`, limit) as CompanyRow[];
+  return findCompanyMatches(searchTerm).slice(0, limit);
 }
 
 /**
@@ -321,11 +375,10 @@ export function getCompanyById(nzId: number): CompanyRow | undefined {
 }
 
 /**
- * Get company by LEI (Legal Entity Identifier)
+ * Get company by LEI (Legal Entity Identifier), falling back to the identifier crosswalk
  */
 export function getCompanyByLei(lei: string): CompanyRow | undefined {
-  const db = getDatabase();
-  return db.prepare('SELECT * FROM companies WHERE lei = ?').get(lei) as CompanyRow | undefined;
+  return findCompaniesByLei(lei)[0];
 }
 
 /**
@@ -353,17 +406,21 @@ export function listCompanies(filters: {
   offset?: number;
 }): { data: CompanyRow[]; total: number } {
   const db = getDatabase();
+  const limit = filters.limit || 20;
+  const offset = filters.offset || 0;
+  
+  // Name searches are ranked by match score rather than listed alphabetically
+  if (filters.search) {
+    const matches = findCompanyMatches(filters.search, filters);
+    return { data: matches.slice(offset, offset + limit), total: matches.length };
+  }
   
   let whereClause = '1=1';
   const params: unknown[] = [];
   
-  if (filters.search) {
-    whereClause += ' AND company_name LIKE ?';
-    params.push(`%${filters.search}%`);
-  }
   if (filters.jurisdiction) {
     whereClause += ' AND LOWER(jurisdiction) = LOWER(?)';
-    params.push(filters.jurisdiction);
+    params.push(resolveJurisdictionAlias(filters.jurisdiction));
   }
   if (filters.sics_sector) {
     whereClause += ' AND LOWER(sics_sector) = LOWER(?)';
@@ -382,12 +439,10 @@ export function listCompanies(filters: {
   const countResult = db.prepare(`SELECT COUNT(*) as count FROM companies WHERE ${whereClause}`).get(...params) as { count: number };
   
   // Get data with pagination
-  const limit = filters.limit || 20;
-  const offset = filters.offset || 0;
   const data = db.prepare(`
     SELECT * FROM companies 
     WHERE ${whereClause}
-    ORDER BY company_name
+    ORDER BY company_name, nz_id
     LIMIT ? OFFSET ?
   `).all(...params, limit, offset) as CompanyRow[];
   
@@ -488,28 +543,20 @@ export function getSubSectorsInJurisdiction(
       sics_sub_sector as sub_sector,
       COUNT(*) as count
     FROM companies
-    WHERE jurisdiction = ? AND sics_sub_sector IS NOT NULL
+    WHERE LOWER(jurisdiction) = LOWER(?) AND sics_sub_sector IS NOT NULL
     GROUP BY sics_sub_sector
     ORDER BY count DESC
-  `).all(jurisdiction) as { sub_sector: string; count: number }[];
+  `).all(resolveJurisdictionAlias(jurisdiction)) as { sub_sector: string; count: number }[];
 }
 
 /**
  * Get peer statistics for benchmarking
  */
 export function getPeerStatistics(
-  scope: 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3',
-  filters: { jurisdiction?: string; sics_sector?: string; year?: number }
-): {
-  count: number;
-  mean: number;
-  median: number;
-  min: number;
-  max: number;
-  stdDev: number;
-  percentile25: number;
-  percentile75: number;
-} | null {
+  scope: 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3' | `scope3_cat_${number}`,
+  filters: { jurisdiction?: string; sics_sector?: string; year?: number },
+  metric: IntensityMetric = 'absolute'
+): PeerGroupStats | null {
   const db = getDatabase();
   
   // Map scope to column
@@ -520,7 +567,7 @@ export function getPeerStatistics(
   
   if (filters.jurisdiction) {
     whereClause += ' AND LOWER(c.jurisdiction) = LOWER(?)';
-    params.push(filters.jurisdiction);
+    params.push(resolveJurisdictionAlias(filters.jurisdiction));
   }
   if (filters.sics_sector) {
     whereClause += ' AND LOWER(c.sics_sector) = LOWER(?)';
@@ -531,51 +578,53 @@ export function getPeerStatistics(
     params.push(filters.year);
   }
   
-  // Get all values for statistical calculations
-  const values = db.prepare(`
-    SELECT e.${column} as value
-    FROM emissions e
-    JOIN companies c ON e.nz_id = c.nz_id
-    WHERE ${whereClause}
-    ORDER BY e.${column}
-  `).all(...params) as { value: number }[];
-  
-  if (values.length === 0) return null;
-  
-  const nums = values.map(v => v.value);
-  const count = nums.length;
-  const sum = nums.reduce((a, b) => a + b, 0);
-  const mean = sum / count;
-  const min = nums[0];
-  const max = nums[count - 1];
+  assertMetricAvailable(metric);
   
-  // Median
-  const mid = Math.floor(count / 2);
-  const median = count % 2 === 0 ? (nums[mid - 1] + nums[mid]) / 2 : nums[mid];
-  
-  // Percentiles
-  const p25Idx = Math.floor(count * 0.25);
-  const p75Idx = Math.floor(count * 0.75);
-  const percentile25 = nums[p25Idx];
-  const percentile75 = nums[p75Idx];
+  // Get all values for statistical calculations
+  let nums: number[];
+  if (metric === 'absolute') {
+    const values = db.prepare(`
+      SELECT e.${column} as value
+      FROM emissions e
+      JOIN companies c ON e.nz_id = c.nz_id
+      WHERE ${whereClause}
+      ORDER BY e.${column}
+    `).all(...params) as { value: number }[];
+    nums = values.map(v => v.value);
+  } else {
+    // Peers without the denominator (or with an unknown currency) drop out
+    const rows = db.prepare(`
+      SELECT e.${column} as value, e.revenue, e.revenue_currency, e.employee_count, e.scope3_total
+      FROM emissions e
+      JOIN companies c ON e.nz_id = c.nz_id
+      WHERE ${whereClause}
+    `).all(...params) as { value: number; revenue: number | null; revenue_currency: string | null; employee_count: number | null; scope3_total: number | null }[];
+    nums = rows
+      .map(r => toMetricValue(r.value, r, metric))
+      .filter((v): v is number => v !== null)
+      .sort((a, b) => a - b);
+  }
   
-  // Standard deviation
-  const variance = nums.reduce((acc, v) => acc + Math.pow(v - mean, 2), 0) / count;
-  const stdDev = Math.sqrt(variance);
+  if (nums.length === 0) return null;
   
-  return { count, mean, median, min, max, stdDev, percentile25, percentile75 };
+  return calculatePeerStats(nums);
 }
 
 /**
- * Benchmark a company against peers
+ * Benchmark a company against peers, with rank-based percentiles in each peer group
+ * With comparableOnly, each group keeps only peers with the company's boundary, year and
+ * (for Scope 3) a similar category set; exclusions are reported per group.
  */
 export function benchmarkCompany(
   nzId: number,
-  scope: 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3',
-  year?: number
+  scope: 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3' | `scope3_cat_${number}`,
+  year?: number,
+  metric: IntensityMetric = 'absolute',
+  comparableOnly: boolean = false
 ): {
   company: CompanyRow;
   companyValue: number | null;
+  companyAbsoluteValue: number | null;
   companyYear: number;
   jurisdictionStats: ReturnType<typeof getPeerStatistics>;
   sectorStats: ReturnType<typeof getPeerStatistics>;
@@ -583,6 +632,11 @@ export function benchmarkCompany(
   percentileInJurisdiction: number | null;
   percentileInSector: number | null;
   percentileInCombined: number | null;
+  comparability: {
+    jurisdiction: ComparabilityFilter | null;
+    sector: ComparabilityFilter | null;
+    combined: ComparabilityFilter | null;
+  } | null;
 } | null {
   const db = getDatabase();
   
@@ -592,7 +646,8 @@ export function benchmarkCompany(
   
   // Get company's emissions
   const column = scope === 'scope3' ? 'scope3_total' : scope;
-  let emissionsQuery = `SELECT ${column} as value, year FROM emissions WHERE nz_id = ?`;
+  // Intensity denominators come from the same disclosure
+  let emissionsQuery = `SELECT *, ${column} as value FROM emissions WHERE nz_id = ?`;
   const emissionsParams: unknown[] = [nzId];
   
   if (year) {
@@ -602,103 +657,44 @@ export function benchmarkCompany(
     emissionsQuery += ' ORDER BY year DESC LIMIT 1';
   }
   
-  const emissionsResult = db.prepare(emissionsQuery).get(...emissionsParams) as { value: number | null; year: number } | undefined;
-  const companyValue = emissionsResult?.value ?? null;
+  const emissionsResult = db.prepare(emissionsQuery).get(...emissionsParams) as
+    (EmissionsRow & { value: number | null }) | undefined;
+  const companyAbsoluteValue = emissionsResult?.value ?? null;
+  const companyValue = toMetricValue(companyAbsoluteValue, emissionsResult ?? {}, metric);
   const companyYear = emissionsResult?.year ?? company.latest_reported_year ?? 2022;
   
-  // Get peer statistics
-  const jurisdictionStats = company.jurisdiction 
-    ? getPeerStatistics(scope, { jurisdiction: company.jurisdiction, year: companyYear })
+  // Each grouping ranks the company among its peers; comparableOnly filters them against its own disclosure
+  const anchor = { company, value: companyValue, absoluteValue: companyAbsoluteValue };
+  const group = (definition: PeerDefinition, applies: unknown) => applies
+    ? buildPeerGroup(scope, definition, { year: companyYear, metric, anchor, comparableOnly })
     : null;
-  
-  const sectorStats = company.sics_sector
-    ? getPeerStatistics(scope, { sics_sector: company.sics_sector, year: companyYear })
-    : null;
-  
-  const combinedStats = (company.jurisdiction && company.sics_sector)
-    ? getPeerStatistics(scope, { jurisdiction: company.jurisdiction, sics_sector: company.sics_sector, year: companyYear })
-    : null;
-  
-  // Calculate percentiles
-  const calcPercentile = (value: number | null, stats: ReturnType<typeof getPeerStatistics>): number | null => {
-    if (!value || !stats) return null;
-    
-    // Count how many values are below this one
-    const column = scope === 'scope3' ? 'scope3_total' : scope;
-    // Simple approximation using the stats
-    if (value <= stats.min) return 0;
-    if (value >= stats.max) return 100;
-    
-    // Linear interpolation estimate
-    const range = stats.max - stats.min;
-    const position = value - stats.min;
-    return Math.round((position / range) * 100);
-  };
-  
+  const jurisdictionGroup = group({ jurisdiction: company.jurisdiction ?? undefined }, company.jurisdiction);
+  const sectorGroup = group({ sics_sector: company.sics_sector ?? undefined }, company.sics_sector);
+  const combinedGroup = group(
+    { jurisdiction: company.jurisdiction ?? undefined, sics_sector: company.sics_sector ?? undefined },
+    company.jurisdiction && company.sics_sector
+  );
   return {
     company,
     companyValue,
+    companyAbsoluteValue,
     companyYear,
-    jurisdictionStats,
-    sectorStats,
-    combinedStats,
-    percentileInJurisdiction: calcPercentile(companyValue, jurisdictionStats),
-    percentileInSector: calcPercentile(companyValue, sectorStats),
-    percentileInCombined: calcPercentile(companyValue, combinedStats),
+    jurisdictionStats: jurisdictionGroup?.stats ?? null,
+    sectorStats: sectorGroup?.stats ?? null,
+    combinedStats: combinedGroup?.stats ?? null,
+    percentileInJurisdiction: jurisdictionGroup?.percentile ?? null,
+    percentileInSector: sectorGroup?.percentile ?? null,
+    percentileInCombined: combinedGroup?.percentile ?? null,
+    comparability: comparableOnly
+      ? {
+        jurisdiction: jurisdictionGroup?.comparability ?? null,
+        sector: sectorGroup?.comparability ?? null,
+        combined: combinedGroup?.comparability ?? null,
+      }
+      : null,
   };
 }
 
-/**
- * Validate emissions data - find potential data quality issues
- */
-export function findDataQualityIssues(limit: number = 50): {
-  nz_id: number;
-  company_name: string;
-  year: number;
-  scope: string;
-  value: number;
-  issue: string;
-}[] {
-  const db = getDatabase();
-  
-  const issues: {
-    nz_id: number;
-    company_name: string;
-    year: number;
-    scope: string;
-    value: number;
-    issue: string;
-  }[] = [];
-  
-  // Find values > 1 billion (potential unit errors)
-  const billionPlus = db.prepare(`
-    SELECT 
-      e.nz_id, c.company_name, e.year,
-      'scope1' as scope, e.scope1 as value
-    FROM emissions e
-    JOIN companies c ON e.nz_id = c.nz_id
-    WHERE e.scope1 > 1000000000
-    UNION ALL
-    SELECT 
-      e.nz_id, c.company_name, e.year,
-      'scope3_total' as scope, e.scope3_total as value
-    FROM emissions e
-    JOIN companies c ON e.nz_id = c.nz_id
-    WHERE e.scope3_total > 1000000000
-    ORDER BY value DESC
-    LIMIT ?
-  `).all(limit) as { nz_id: number; company_name: string; year: number; scope: string; value: number }[];
-  
-  for (const row of billionPlus) {
-    issues.push({
-      ...row,
-      issue: 'Value > 1 billion tCO2e - possible unit error (kg reported as tonnes)',
-    });
-  }
-  
-  return issues;
-}
-
 /**
  * Compare multiple companies
  * OPTIMIZED: Uses bulk queries instead of N+1 pattern
@@ -757,6 +753,16 @@ export function compareCompanies(
   return results;
 }
 
+/**
+ * Emissions rows for specific company-years, in the order requested (null when missing)
+ */
+export function getEmissionsForCompanyYears(
+  keys: { nz_id: number; year: number }[]
+): (EmissionsRow | null)[] {
+  const stmt = getDatabase().prepare('SELECT * FROM emissions WHERE nz_id = ? AND year = ?');
+  return keys.map(k => (stmt.get(k.nz_id, k.year) as EmissionsRow | undefined) || null);
+}
+
 /**
  * Get database metadata
  */
@@ -869,7 +875,7 @@ function assessS12MethodologyQuality(methodology: string | null): QualityScore {
  * Get method quality tier for Scope 3
  * FIX-M2: Enhanced with fuzzy matching for better classification
  */
-function getScope3MethodTier(method: string | null): MethodQualityTier {
+export function getScope3MethodTier(method: string | null): MethodQualityTier {
   if (!method || method === '—') {
     return 'UNKNOWN';
   }
@@ -1463,14 +1469,177 @@ export function compareCompaniesWithScope3(
 export {
   compareYears,
   getTimeSeries,
+  getCompanyTrend,
+  getCompanyTimeSeries,
   type YearComparisonResult,
   type TimeSeriesPoint,
+  type TimeSeriesScope,
+  type CompanyTrendResult,
+  type TimeSeriesRowKey,
+  type TimeSeriesValue,
+  type TimeSeriesRow,
+  type TimeSeriesMarker,
+  type CompanyTimeSeriesResult,
 } from './yearComparison.js';
 
+// ==================== CHANGE DECOMPOSITION ====================
+// Re-export year-to-year change decomposition
+export {
+  decomposeYearChange,
+  type ChangeDecomposition,
+  type CategoryChange,
+  type CategoryChangeStatus,
+  type MethodTierChange,
+  type ScopeChange,
+  type Scope3ChangeComponents,
+} from './changeDecomposition.js';
+
 // ==================== PEER TRENDS ====================
 // Re-export peer trend functions (FIX-H3)
 export {
   getPeerTrend,
+  getPeerTrendConstituents,
+  type PeerTrendScope,
+  type PeerTrendCohort,
+  type CompositionAttribution,
+  type PeerTrendFilters,
   type PeerTrendResult,
   type PeerTrendDataPoint,
 } from './peerTrends.js';
+
+// ==================== TARGETS ====================
+// Re-export emissions reduction target functions
+export {
+  hasTargetsData,
+  getCompanyTargets,
+  findTargets,
+  listTargetStatuses,
+  formatTargetLabel,
+  type TargetRow,
+  type CompanyTargetRow,
+  type TargetFilters,
+} from './targets.js';
+
+// ==================== TARGET PROGRESS ====================
+// Re-export target progress tracking
+export {
+  getTargetProgress,
+  ON_TRACK_TOLERANCE_PP,
+  type TargetProgressResult,
+  type TargetProgressStatus,
+} from './targetProgress.js';
+
+// ==================== PATHWAY ALIGNMENT ====================
+// Re-export sector pathway alignment (implied temperature rise)
+export {
+  getPathwayAlignment,
+  getPortfolioPathwayAlignment,
+  type PathwayCoverage,
+  type TrajectoryScore,
+  type TargetScore,
+  type IntensityScore,
+  type CompanyPathwayAlignment,
+  type PathwayAlignmentAggregate,
+  type PathwayAlignmentResult,
+} from './pathwayAlignment.js';
+
+// ==================== INTENSITY ====================
+// Re-export intensity metric helpers
+export {
+  hasIntensityData,
+  METRIC_UNITS,
+  type IntensityMetric,
+} from './intensity.js';
+
+// ==================== PORTFOLIO ====================
+// Re-export portfolio financed emissions
+export {
+  calculatePortfolioEmissions,
+  type PortfolioHolding,
+  type PortfolioResult,
+  type HoldingResult,
+  type HoldingMatchStatus,
+} from './portfolio.js';
+
+// ==================== IDENTIFIERS ====================
+// Re-export LEI / ISIN / ticker crosswalk lookups
+export {
+  hasIdentifierData,
+  detectIdentifierType,
+  isValidIsin,
+  resolveIdentifier,
+  resolveIdentifiers,
+  type IdentifierType,
+  type IdentifierMatch,
+  type IdentifierMatchStatus,
+} from './identifiers.js';
+
+// ==================== DATA VALIDATION RULES ====================
+// Re-export the data_issues rule engine
+export {
+  findDataQualityIssues,
+  registerValidationRule,
+  VALIDATION_RULES,
+  type ValidationRule,
+  type IssueSeverity,
+  type DataQualityIssue,
+  type DataQualityFilters,
+  type DataQualityReport,
+} from './validationRules.js';
+
+// ==================== PEER OUTLIERS ====================
+// Re-export robust z-score outlier detection
+export {
+  findPeerOutliers,
+  getCompanyOutlierCheck,
+  MIN_OUTLIER_GROUP_SIZE,
+  type OutlierScope,
+  type OutlierFilters,
+  type PeerOutlier,
+  type OutlierReport,
+  type CompanyOutlierCheck,
+} from './outliers.js';
+
+// ==================== PEER GROUPS ====================
+// Re-export explicit peer-group definitions for benchmarks
+export {
+  buildPeerGroup,
+  benchmarkMaterialCategories,
+  hasPeerDefinition,
+  SIZE_BANDS,
+  SCOPE3_COVERAGE_SIMILARITY,
+  type PeerScope,
+  type SicsLevel,
+  type SizeBand,
+  type PeerDefinition,
+  type PeerMember,
+  type PeerGroup,
+  type PeerAnchor,
+  type ExclusionReason,
+  type ExcludedPeer,
+  type ComparabilityFilter,
+  type CategoryShareBenchmark,
+  type MaterialCategoryBenchmark,
+} from './peerGroups.js';
+
+// ==================== PAGINATION ====================
+// Re-export cursor pagination helpers
+export {
+  decodeCursor,
+  pageFilters,
+  toPage,
+  formatPageSummary,
+  type PageInfo,
+  type PageFilters,
+  type PageListing,
+} from './pagination.js';
+
+// ==================== COMPANY SEARCH ====================
+// Re-export ranked name search helpers
+export {
+  hasSearchIndex,
+  normalizeCompanyName,
+  suggestCompanyNames,
+  completeCompanyNames,
+  type NameSuggestion,
+} from './companySearch.js';
@@ -36,7 +36,12 @@ CREATE TABLE IF NOT EXISTS companies (
   sics_industry TEXT,
   lei TEXT,
   latest_reported_year INTEGER,
+  alias TEXT,
   source TEXT,
+  -- Latest reported revenue and headcount (profile only; intensity metrics use the per-year values on emissions)
+  revenue REAL,
+  revenue_currency TEXT,
+  employee_count INTEGER,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -100,11 +105,45 @@ CREATE TABLE IF NOT EXISTS emissions (
   scope3_cat_15_relevancy TEXT,
   organizational_boundary TEXT,
   verification_status TEXT,
+  -- Intensity denominators reported in this disclosure
+  revenue REAL,
+  revenue_currency TEXT,
+  employee_count INTEGER,
   created_at TEXT DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(nz_id, year),
   FOREIGN KEY (nz_id) REFERENCES companies(nz_id)
 );
 
+-- Targets table: One row per reduction target declared in a company-year disclosure
+CREATE TABLE IF NOT EXISTS targets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nz_id INTEGER NOT NULL,
+  reported_year INTEGER NOT NULL,
+  target_id TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_scope TEXT,
+  base_year INTEGER,
+  target_year INTEGER,
+  target_percentage REAL,
+  target_absolute REAL,
+  sbti_status TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(nz_id, reported_year, target_type, target_id),
+  FOREIGN KEY (nz_id) REFERENCES companies(nz_id)
+);
+
+-- Company identifiers: LEI / ISIN / ticker crosswalk loaded from local GLEIF-style files
+CREATE TABLE IF NOT EXISTS company_identifiers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nz_id INTEGER NOT NULL,
+  id_type TEXT NOT NULL,
+  id_value TEXT NOT NULL,
+  source TEXT,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(id_type, id_value, nz_id),
+  FOREIGN KEY (nz_id) REFERENCES companies(nz_id)
+);
+
 -- Indexes for fast queries
 -- Company lookup indexes
 CREATE INDEX IF NOT EXISTS idx_companies_jurisdiction ON companies(jurisdiction);
@@ -133,6 +172,23 @@ CREATE INDEX IF NOT EXISTS idx_emissions_scope3_cat_1 ON emissions(scope3_cat_1)
 CREATE INDEX IF NOT EXISTS idx_emissions_scope3_cat_5 ON emissions(scope3_cat_5);
 CREATE INDEX IF NOT EXISTS idx_emissions_scope3_cat_11 ON emissions(scope3_cat_11);
 
+-- Targets lookup indexes
+CREATE INDEX IF NOT EXISTS idx_targets_nz_id_year ON targets(nz_id, reported_year DESC);
+CREATE INDEX IF NOT EXISTS idx_targets_target_year ON targets(target_year);
+CREATE INDEX IF NOT EXISTS idx_targets_sbti_status ON targets(sbti_status);
+
+-- Identifier lookup indexes
+CREATE INDEX IF NOT EXISTS idx_identifiers_type_value ON company_identifiers(id_type, id_value COLLATE NOCASE);
+CREATE INDEX IF NOT EXISTS idx_identifiers_nz_id ON company_identifiers(nz_id);
+
+-- Full-text index over normalised company names and aliases (ranked name search)
+CREATE VIRTUAL TABLE IF NOT EXISTS company_search USING fts5(
+  nz_id UNINDEXED,
+  name,
+  alias,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
 -- Metadata table for tracking database info
 CREATE TABLE IF NOT EXISTS metadata (
   key TEXT PRIMARY KEY,
@@ -173,6 +229,20 @@ export function getDatabase(): Database.Database {
   return dbInstance;
 }
 
+// Check whether a table exists (older pre-bundled databases may predate newer tables)
+export function hasTable(tableName: string): boolean {
+  const row = getDatabase()
+    .prepare("SELECT 1 FROM sqlite_master WHERE type IN ('table', 'view') AND name = ?")
+    .get(tableName);
+  return row !== undefined;
+}
+
+// Check whether a column exists (older pre-bundled databases may predate newer columns)
+export function hasColumn(tableName: string, columnName: string): boolean {
+  const columns = getDatabase().prepare(`PRAGMA table_info(${tableName})`).all() as { name: string }[];
+  return columns.some(c => c.name === columnName);
+}
+
 // Close database connection
 export function closeDatabase(): void {
   if (dbInstance) {
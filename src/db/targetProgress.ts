@@ -0,0 +1,225 @@
+/**
+ * Target progress tracking
+ * Measures reported emissions against the linear pathway implied by a declared base-year target
+ */
+
+import { getTimeSeries, type TimeSeriesPoint } from './yearComparison.js';
+import { getCompanyTargets, type TargetRow } from './targets.js';
+import { detectMethodologyChanges } from './queries.js';
+
+// Percentage points either side of the pathway still considered "on track"
+export const ON_TRACK_TOLERANCE_PP = 2;
+
+export type TargetProgressStatus =
+  | 'ahead'
+  | 'on_track'
+  | 'behind'
+  | 'achieved'
+  | 'no_base_year'
+  | 'no_progress_data'
+  | 'not_trackable';
+
+export interface TargetProgressResult {
+  target: TargetRow;
+  status: TargetProgressStatus;
+  statusReason: string | null;
+  scopeLabel: string | null;
+  baseValue: number | null;
+  latestYear: number | null;
+  latestValue: number | null;
+  targetValue: number | null;
+  actualReductionPercent: number | null;   // Reduction achieved vs base year so far
+  requiredReductionPercent: number | null; // Reduction the linear pathway requires by latestYear
+  pathwayValue: number | null;             // Emissions the linear pathway allows in latestYear
+  requiredAnnualRate: number | null;       // % per year needed from latestYear to target year (compound; linear share of latestValue for a zero target)
+  onTrackTolerancePp: number;              // ± percentage points around the pathway that count as on_track
+  // Boundary/methodology changes after the base year; NZDPU does not say whether the base year was recalculated
+  changesSinceBaseYear: { year: number; scope: string; previousMethod: string | null; currentMethod: string | null }[];
+}
+
+export type SeriesScope = 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3';
+
+/**
+ * Map a free-text target scope (e.g., "Scope 1+2", "Scope 1 and 2 (market-based)", "Scope 3")
+ * to the time-series components it covers
+ */
+export function resolveTargetScope(targetScope: string | null): { components: SeriesScope[]; label: string } | null {
+  if (!targetScope) return null;
+  const text = targetScope.toLowerCase();
+
+  // Digits only count after "scope" or "s", in lists such as "1+2", "1, 2 and 3", "S1 + S2" or "1-3",
+  // so "Scope 3 (categories 1, 2 and 11)" stays Scope 3
+  const scopes = new Set<number>();
+  const lists = text.matchAll(/\b(?:scopes?|s)\s*([123](?!\d)(?:\s*(?:\+|,|&|\/|-|–|and)\s*(?:scopes?\s*|s)?[123](?!\d))*)/g);
+  for (const [, list] of lists) {
+    const digits = (list.match(/[123]/g) ?? []).map(Number);
+    digits.forEach(d => scopes.add(d));
+    if (/[-–]/.test(list)) {
+      for (let d = Math.min(...digits); d <= Math.max(...digits); d++) scopes.add(d);
+    }
+  }
+  const hasScope1 = scopes.has(1);
+  const hasScope2 = scopes.has(2);
+  const hasScope3 = scopes.has(3);
+  const scope2 = /location/.test(text) ? 'scope2_lb' : 'scope2_mb';
+
+  const components: SeriesScope[] = [];
+  if (hasScope1) components.push('scope1');
+  if (hasScope2) components.push(scope2);
+  if (hasScope3) components.push('scope3');
+  if (components.length === 0) return null;
+
+  const labels: Record<SeriesScope, string> = {
+    scope1: 'Scope 1',
+    scope2_lb: 'Scope 2 (LB)',
+    scope2_mb: 'Scope 2 (MB)',
+    scope3: 'Scope 3',
+  };
+  return { components, label: components.map(c => labels[c]).join(' + ') };
+}
+
+/**
+ * Sum the covered components for one year; null if any component is missing
+ * so a partial sum is never mistaken for a reduction
+ */
+export function sumComponents(point: TimeSeriesPoint, components: SeriesScope[]): number | null {
+  let total = 0;
+  for (const component of components) {
+    const value = point[component];
+    if (value === null) return null;
+    total += value;
+  }
+  return total;
+}
+
+/**
+ * Which detectMethodologyChanges entries affect the covered scopes
+ */
+function isRelevantChange(changeScope: string, components: SeriesScope[]): boolean {
+  if (changeScope === 'Organizational Boundary') return true;
+  if (changeScope === 'Scope 1') return components.includes('scope1');
+  if (changeScope === 'Scope 2 Location-Based') return components.includes('scope2_lb');
+  if (changeScope === 'Scope 2 Market-Based') return components.includes('scope2_mb');
+  if (changeScope.startsWith('Scope 3')) return components.includes('scope3');
+  return false;
+}
+
+function emptyResult(target: TargetRow, status: TargetProgressStatus, statusReason: string, scopeLabel: string | null = null): TargetProgressResult {
+  return {
+    target,
+    status,
+    statusReason,
+    scopeLabel,
+    baseValue: null,
+    latestYear: null,
+    latestValue: null,
+    targetValue: null,
+    actualReductionPercent: null,
+    requiredReductionPercent: null,
+    pathwayValue: null,
+    requiredAnnualRate: null,
+    onTrackTolerancePp: ON_TRACK_TOLERANCE_PP,
+    changesSinceBaseYear: [],
+  };
+}
+
+/**
+ * Measure a company's progress against each target in its latest disclosure
+ * Only absolute targets can be tracked against reported emissions
+ */
+export function getTargetProgress(nzId: number): TargetProgressResult[] {
+  const targets = getCompanyTargets(nzId);
+  if (targets.length === 0) return [];
+
+  const series = getTimeSeries(nzId);
+  const methodologyChanges = detectMethodologyChanges(nzId);
+
+  return targets.map(target => {
+    if (target.target_type !== 'absolute') {
+      return emptyResult(target, 'not_trackable', 'Intensity targets cannot be measured against absolute emissions');
+    }
+    if (!target.base_year || !target.target_year || target.target_percentage === null) {
+      return emptyResult(target, 'not_trackable', 'Target is missing its base year, target year or reduction percentage');
+    }
+    if (target.target_year <= target.base_year) {
+      return emptyResult(target, 'not_trackable', 'Target year is not after the base year');
+    }
+
+    const scope = resolveTargetScope(target.target_scope);
+    if (!scope) {
+      return emptyResult(target, 'not_trackable', `Target scope "${target.target_scope || 'unspecified'}" could not be mapped to reported scopes`);
+    }
+
+    const basePoint = series.find(p => p.year === target.base_year);
+    const baseValue = basePoint ? sumComponents(basePoint, scope.components) : null;
+    if (baseValue === null || baseValue <= 0) {
+      return emptyResult(target, 'no_base_year', `No ${scope.label} emissions reported for base year ${target.base_year}`, scope.label);
+    }
+
+    // Latest year after the base year with all covered scopes reported
+    const latestPoint = [...series]
+      .reverse()
+      .find(p => p.year > target.base_year! && sumComponents(p, scope.components) !== null);
+    if (!latestPoint) {
+      const result = emptyResult(target, 'no_progress_data', `No ${scope.label} emissions reported after base year ${target.base_year}`, scope.label);
+      result.baseValue = baseValue;
+      return result;
+    }
+
+    const latestYear = latestPoint.year;
+    const latestValue = sumComponents(latestPoint, scope.components)!;
+    const targetValue = baseValue * (1 - target.target_percentage / 100);
+
+    // Linear pathway from base year to target year, capped at the target year
+    const elapsedShare = Math.min(1, (latestYear - target.base_year) / (target.target_year - target.base_year));
+    const requiredReductionPercent = target.target_percentage * elapsedShare;
+    const pathwayValue = baseValue * (1 - requiredReductionPercent / 100);
+    const actualReductionPercent = ((baseValue - latestValue) / baseValue) * 100;
+
+    let status: TargetProgressStatus;
+    if (latestValue <= targetValue) {
+      status = 'achieved';
+    } else if (actualReductionPercent >= requiredReductionPercent + ON_TRACK_TOLERANCE_PP) {
+      status = 'ahead';
+    } else if (actualReductionPercent >= requiredReductionPercent - ON_TRACK_TOLERANCE_PP) {
+      status = 'on_track';
+    } else {
+      status = 'behind';
+    }
+
+    // Compound annual reduction needed from the latest year to reach the target value
+    const yearsRemaining = target.target_year - latestYear;
+    let requiredAnnualRate: number | null = null;
+    if (status === 'achieved') {
+      requiredAnnualRate = 0;
+    } else if (yearsRemaining > 0 && targetValue > 0) {
+      requiredAnnualRate = (1 - Math.pow(targetValue / latestValue, 1 / yearsRemaining)) * 100;
+    } else if (yearsRemaining > 0) {
+      // A compound rate never reaches zero, so net-zero and 100% targets use an equal cut each year
+      requiredAnnualRate = 100 / yearsRemaining;
+    }
+
+    const changesSinceBaseYear = methodologyChanges
+      .filter(c => c.year > target.base_year! && c.year <= latestYear)
+      .flatMap(c => c.changes
+        .filter(change => isRelevantChange(change.scope, scope.components))
+        .map(change => ({ year: c.year, ...change })));
+
+    return {
+      target,
+      status,
+      statusReason: yearsRemaining <= 0 && status !== 'achieved' ? 'Target year has passed without reaching the target' : null,
+      scopeLabel: scope.label,
+      baseValue,
+      latestYear,
+      latestValue,
+      targetValue,
+      actualReductionPercent,
+      requiredReductionPercent,
+      pathwayValue,
+      requiredAnnualRate,
+      onTrackTolerancePp: ON_TRACK_TOLERANCE_PP,
+      changesSinceBaseYear,
+    };
+  });
+}
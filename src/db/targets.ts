@@ -0,0 +1,164 @@
+/**
+ * Emissions reduction target queries
+ * Targets are stored per disclosure year; the latest disclosure is used by default
+ */
+
+import { getDatabase, hasTable } from './schema.js';
+import { resolveJurisdictionAlias } from '../knowledge/jurisdictions.js';
+
+export interface TargetRow {
+  id: number;
+  nz_id: number;
+  reported_year: number;
+  target_id: string;
+  target_type: string;
+  target_scope: string | null;
+  base_year: number | null;
+  target_year: number | null;
+  target_percentage: number | null;
+  target_absolute: number | null;     // Target-year tCO₂e implied by target_percentage and NZDPU base-year emissions
+  sbti_status: string | null;
+}
+
+export interface CompanyTargetRow extends TargetRow {
+  company_name: string;
+  jurisdiction: string | null;
+  sics_sector: string | null;
+  sics_sub_sector: string | null;
+}
+
+export interface TargetFilters {
+  sbti_status?: string;
+  target_year?: number;
+  target_type?: 'absolute' | 'intensity';
+  jurisdiction?: string;
+  sics_sector?: string;
+  sics_sub_sector?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Whether the database was built with the targets table
+ * Databases built before targets were persisted will not have it
+ */
+export function hasTargetsData(): boolean {
+  return hasTable('targets');
+}
+
+/**
+ * Get a company's targets from its latest disclosure (or a specific disclosure year)
+ */
+export function getCompanyTargets(nzId: number, reportedYear?: number): TargetRow[] {
+  if (!hasTargetsData()) return [];
+
+  const db = getDatabase();
+
+  if (reportedYear) {
+    return db.prepare(`
+      SELECT * FROM targets
+      WHERE nz_id = ? AND reported_year = ?
+      ORDER BY target_year, target_type, target_scope
+    `).all(nzId, reportedYear) as TargetRow[];
+  }
+
+  return db.prepare(`
+    SELECT * FROM targets
+    WHERE nz_id = ? AND reported_year = (
+      SELECT MAX(reported_year) FROM targets WHERE nz_id = ?
+    )
+    ORDER BY target_year, target_type, target_scope
+  `).all(nzId, nzId) as TargetRow[];
+}
+
+/**
+ * Find targets across companies, filtered by SBTi status, target year and classification
+ * Only each company's latest disclosure is considered so restated targets are not double counted
+ */
+export function findTargets(filters: TargetFilters): { data: CompanyTargetRow[]; total: number } {
+  if (!hasTargetsData()) return { data: [], total: 0 };
+
+  const db = getDatabase();
+
+  let whereClause = `t.reported_year = (
+    SELECT MAX(t2.reported_year) FROM targets t2 WHERE t2.nz_id = t.nz_id
+  )`;
+  const params: unknown[] = [];
+
+  if (filters.sbti_status) {
+    whereClause += ' AND LOWER(t.sbti_status) LIKE LOWER(?)';
+    params.push(`%${filters.sbti_status}%`);
+  }
+  if (filters.target_year) {
+    whereClause += ' AND t.target_year = ?';
+    params.push(filters.target_year);
+  }
+  if (filters.target_type) {
+    whereClause += ' AND t.target_type = ?';
+    params.push(filters.target_type);
+  }
+  if (filters.jurisdiction) {
+    whereClause += ' AND LOWER(c.jurisdiction) = LOWER(?)';
+    params.push(resolveJurisdictionAlias(filters.jurisdiction));
+  }
+  if (filters.sics_sector) {
+    whereClause += ' AND LOWER(c.sics_sector) = LOWER(?)';
+    params.push(filters.sics_sector);
+  }
+  if (filters.sics_sub_sector) {
+    whereClause += ' AND LOWER(c.sics_sub_sector) = LOWER(?)';
+    params.push(filters.sics_sub_sector);
+  }
+
+  const countResult = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM targets t
+    JOIN companies c ON t.nz_id = c.nz_id
+    WHERE ${whereClause}
+  `).get(...params) as { count: number };
+
+  const limit = filters.limit || 20;
+  const offset = filters.offset || 0;
+  const data = db.prepare(`
+    SELECT
+      t.*,
+      c.company_name,
+      c.jurisdiction,
+      c.sics_sector,
+      c.sics_sub_sector
+    FROM targets t
+    JOIN companies c ON t.nz_id = c.nz_id
+    WHERE ${whereClause}
+    ORDER BY c.company_name, t.target_year, t.target_type
+    LIMIT ? OFFSET ?
+  `).all(...params, limit, offset) as CompanyTargetRow[];
+
+  return { data, total: countResult.count };
+}
+
+/**
+ * Summarise SBTi / ambition status values with company counts
+ * Used when a filter returns no results to show what values exist
+ */
+export function listTargetStatuses(): { sbti_status: string; count: number }[] {
+  if (!hasTargetsData()) return [];
+
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT sbti_status, COUNT(DISTINCT nz_id) as count
+    FROM targets
+    WHERE sbti_status IS NOT NULL
+    GROUP BY sbti_status
+    ORDER BY count DESC
+  `).all() as { sbti_status: string; count: number }[];
+}
+
+/**
+ * Format a target as a short label for tables (e.g., "-42% by 2030 vs 2019")
+ */
+export function formatTargetLabel(target: TargetRow): string {
+  let label = target.target_percentage !== null ? `-${target.target_percentage}%` : 'Target';
+  if (target.target_year) label += ` by ${target.target_year}`;
+  if (target.base_year) label += ` vs ${target.base_year}`;
+  return label;
+}
@@ -0,0 +1,358 @@
+/**
+ * Data validation rules
+ * A registry of checks run over the emissions table for the data_issues analysis.
+ * Each rule sees one company-year record and the company's previous reported year,
+ * so cross-year checks (jumps, copied values, swapped Scope 2 methods) fit the same shape.
+ */
+
+import { getDatabase } from './schema.js';
+import type { EmissionsRow } from './queries.js';
+import { resolveJurisdictionAlias } from '../knowledge/jurisdictions.js';
+import { ToolError } from '../validation/errors.js';
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationRecord extends EmissionsRow {
+  company_name: string;
+  jurisdiction: string | null;
+  sics_sector: string | null;
+  sics_sub_sector: string | null;
+}
+
+export interface RuleContext {
+  // The same company's closest earlier reported year, if any
+  previous?: ValidationRecord;
+}
+
+export interface RuleFinding {
+  scope: string;
+  value: number;
+  issue: string;
+}
+
+export interface ValidationRule {
+  id: string;
+  title: string;
+  description: string;
+  severity: IssueSeverity;
+  check(record: ValidationRecord, context: RuleContext): RuleFinding[];
+}
+
+export interface DataQualityIssue extends RuleFinding {
+  rule: string;
+  severity: IssueSeverity;
+  nz_id: number;
+  company_name: string;
+  sics_sector: string | null;
+  year: number;
+}
+
+export interface DataQualityFilters {
+  rule?: string;
+  year?: number;
+  jurisdiction?: string;
+  sics_sector?: string;
+  sics_sub_sector?: string;
+}
+
+export interface DataQualityReport {
+  rules: { id: string; title: string; description: string; severity: IssueSeverity; count: number }[];
+  issues: DataQualityIssue[];
+  total: number;
+  recordsChecked: number;
+}
+
+// ==================== THRESHOLDS ====================
+
+const UNIT_ERROR_THRESHOLD = 1_000_000_000;   // tCO₂e; above this is usually kg reported as tonnes
+const ROUND_NUMBER_MIN_ZEROS = 6;              // 1,000,000 and up with one significant digit
+const YOY_JUMP_FACTOR = 10;                    // ×10 or ÷10 against the previous reported year
+const CATEGORY_SUM_TOLERANCE = 0.01;           // 1% of scope3_total
+const CATEGORY_SUM_MIN_GAP = 1;                // tCO₂e; ignore rounding on small totals
+
+const HEADLINE_SCOPES = ['scope1', 'scope2_lb', 'scope2_mb', 'scope3_total'] as const;
+const CATEGORIES = Array.from({ length: 15 }, (_, i) => i + 1);
+
+type HeadlineScope = typeof HEADLINE_SCOPES[number];
+
+const categoryValue = (record: EmissionsRow, cat: number) =>
+  record[`scope3_cat_${cat}` as keyof EmissionsRow] as number | null;
+const categoryRelevancy = (record: EmissionsRow, cat: number) =>
+  record[`scope3_cat_${cat}_relevancy` as keyof EmissionsRow] as string | null;
+
+const headlineValue = (record: EmissionsRow, scope: HeadlineScope) => record[scope];
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// ==================== RULES ====================
+
+const unitError: ValidationRule = {
+  id: 'unit_error',
+  title: 'Unit Error',
+  description: `Values > ${formatValue(UNIT_ERROR_THRESHOLD)} tCO₂e may be kg reported as tonnes`,
+  severity: 'error',
+  check: record => HEADLINE_SCOPES
+    .filter(scope => (headlineValue(record, scope) ?? 0) > UNIT_ERROR_THRESHOLD)
+    .map(scope => ({
+      scope,
+      value: headlineValue(record, scope)!,
+      issue: 'Value > 1 billion tCO2e - possible unit error (kg reported as tonnes)',
+    })),
+};
+
+const negativeValue: ValidationRule = {
+  id: 'negative_value',
+  title: 'Negative Value',
+  description: 'Emissions can not be negative; removals and offsets are reported separately',
+  severity: 'error',
+  check: record => [
+    ...HEADLINE_SCOPES.map(scope => ({ scope: scope as string, value: headlineValue(record, scope) })),
+    ...CATEGORIES.map(cat => ({ scope: `scope3_cat_${cat}`, value: categoryValue(record, cat) })),
+  ]
+    .filter((v): v is { scope: string; value: number } => v.value !== null && v.value < 0)
+    .map(v => ({ ...v, issue: 'Negative emissions value (invalid)' })),
+};
+
+const roundNumber: ValidationRule = {
+  id: 'round_number',
+  title: 'Round Number',
+  description: 'Values with one significant digit (e.g. 1,000,000 or 20,000,000) may be estimates or placeholders',
+  severity: 'warning',
+  check: record => HEADLINE_SCOPES
+    .filter(scope => {
+      const value = headlineValue(record, scope);
+      return value !== null && new RegExp(`^[1-9]0{${ROUND_NUMBER_MIN_ZEROS},}$`).test(String(value));
+    })
+    .map(scope => ({
+      scope,
+      value: headlineValue(record, scope)!,
+      issue: 'Suspiciously round number - may be an estimate or placeholder',
+    })),
+};
+
+const categoryExceedsTotal: ValidationRule = {
+  id: 'category_exceeds_total',
+  title: 'Category > Total',
+  description: 'A single Scope 3 category larger than the reported Scope 3 total',
+  severity: 'error',
+  check: record => {
+    const total = record.scope3_total;
+    if (total === null || total <= 0) return [];
+    return CATEGORIES
+      .filter(cat => (categoryValue(record, cat) ?? 0) > total)
+      .map(cat => ({
+        scope: `scope3_cat_${cat}`,
+        value: categoryValue(record, cat)!,
+        issue: `Category ${cat} exceeds total Scope 3 of ${formatValue(total)} (impossible)`,
+      }));
+  },
+};
+
+const categorySumMismatch: ValidationRule = {
+  id: 'category_sum_mismatch',
+  title: 'Category Sum ≠ Total',
+  description: `Reported Scope 3 categories sum to more than ${CATEGORY_SUM_TOLERANCE * 100}% away from scope3_total`,
+  severity: 'warning',
+  check: record => {
+    const total = record.scope3_total;
+    const reported = CATEGORIES.map(cat => categoryValue(record, cat)).filter((v): v is number => v !== null);
+    if (total === null || total <= 0 || reported.length === 0) return [];
+    const sum = reported.reduce((a, b) => a + b, 0);
+    const gap = sum - total;
+    if (Math.abs(gap) <= Math.max(total * CATEGORY_SUM_TOLERANCE, CATEGORY_SUM_MIN_GAP)) return [];
+    return [{
+      scope: 'scope3_total',
+      value: total,
+      issue: `${reported.length} reported categories sum to ${formatValue(sum)} (${gap > 0 ? '+' : ''}${((gap / total) * 100).toFixed(1)}% vs total)`,
+    }];
+  },
+};
+
+const scope2Identical: ValidationRule = {
+  id: 'scope2_identical',
+  title: 'Scope 2 LB = MB',
+  description: 'Identical location- and market-based Scope 2; plausible without market instruments, otherwise one method may be copied into the other',
+  severity: 'info',
+  check: record => (record.scope2_lb !== null && record.scope2_lb > 0 && record.scope2_lb === record.scope2_mb)
+    ? [{ scope: 'scope2_mb', value: record.scope2_mb, issue: 'Market-based equals location-based Scope 2 exactly' }]
+    : [],
+};
+
+const scope2Swapped: ValidationRule = {
+  id: 'scope2_swapped',
+  title: 'Scope 2 LB/MB Swapped',
+  description: 'Scope 2 methodology labels that name the other method, or LB and MB values that trade places from one year to the next',
+  severity: 'warning',
+  check: (record, { previous }) => {
+    const findings: RuleFinding[] = [];
+    const lbMethod = record.scope2_lb_methodology?.toLowerCase() ?? '';
+    const mbMethod = record.scope2_mb_methodology?.toLowerCase() ?? '';
+    if (record.scope2_lb !== null && lbMethod.includes('market') && !lbMethod.includes('location')) {
+      findings.push({ scope: 'scope2_lb', value: record.scope2_lb, issue: `Location-based value has a market-based methodology ("${record.scope2_lb_methodology}")` });
+    }
+    if (record.scope2_mb !== null && mbMethod.includes('location') && !mbMethod.includes('market')) {
+      findings.push({ scope: 'scope2_mb', value: record.scope2_mb, issue: `Market-based value has a location-based methodology ("${record.scope2_mb_methodology}")` });
+    }
+    if (previous && record.scope2_lb !== null && record.scope2_mb !== null && record.scope2_lb !== record.scope2_mb
+        && record.scope2_lb === previous.scope2_mb && record.scope2_mb === previous.scope2_lb) {
+      findings.push({ scope: 'scope2_lb', value: record.scope2_lb, issue: `LB and MB values are swapped relative to ${previous.year}` });
+    }
+    return findings;
+  },
+};
+
+const yoyJump: ValidationRule = {
+  id: 'yoy_jump',
+  title: 'Year-over-Year Jump',
+  description: `Change of ×${YOY_JUMP_FACTOR} or more (either direction) against the previous reported year`,
+  severity: 'warning',
+  check: (record, { previous }) => {
+    if (!previous) return [];
+    return HEADLINE_SCOPES.flatMap(scope => {
+      const value = headlineValue(record, scope);
+      const before = headlineValue(previous, scope);
+      if (value === null || before === null || value <= 0 || before <= 0) return [];
+      const ratio = value / before;
+      if (ratio < YOY_JUMP_FACTOR && ratio > 1 / YOY_JUMP_FACTOR) return [];
+      const change = ratio >= 1 ? `×${ratio.toFixed(1)}` : `÷${(1 / ratio).toFixed(1)}`;
+      return [{ scope, value, issue: `${change} vs ${previous.year} (${formatValue(before)}) - check units, boundary or restatement` }];
+    });
+  },
+};
+
+const duplicateAcrossYears: ValidationRule = {
+  id: 'duplicate_across_years',
+  title: 'Copied Across Years',
+  description: 'Exactly the same value as the previous reported year, which suggests a carried-forward figure',
+  severity: 'warning',
+  check: (record, { previous }) => {
+    if (!previous) return [];
+    return HEADLINE_SCOPES
+      .filter(scope => {
+        const value = headlineValue(record, scope);
+        return value !== null && value > 0 && value === headlineValue(previous, scope);
+      })
+      .map(scope => ({ scope, value: headlineValue(record, scope)!, issue: `Identical to ${previous.year}` }));
+  },
+};
+
+const notRelevantReported: ValidationRule = {
+  id: 'not_relevant_reported',
+  title: 'Reported Under "Not Relevant"',
+  description: 'Scope 3 category with emissions although the company flagged it as not relevant',
+  severity: 'warning',
+  check: record => CATEGORIES
+    .filter(cat => (categoryValue(record, cat) ?? 0) > 0 && /^not relevant/i.test(categoryRelevancy(record, cat) ?? ''))
+    .map(cat => ({
+      scope: `scope3_cat_${cat}`,
+      value: categoryValue(record, cat)!,
+      issue: `Emissions reported for category ${cat} flagged "${categoryRelevancy(record, cat)}"`,
+    })),
+};
+
+/**
+ * Rules in report order; add a rule here (or with registerValidationRule) to include it in data_issues
+ */
+export const VALIDATION_RULES: ValidationRule[] = [
+  unitError,
+  negativeValue,
+  categoryExceedsTotal,
+  categorySumMismatch,
+  scope2Swapped,
+  yoyJump,
+  duplicateAcrossYears,
+  notRelevantReported,
+  roundNumber,
+  scope2Identical,
+];
+
+export function registerValidationRule(rule: ValidationRule): void {
+  if (VALIDATION_RULES.some(r => r.id === rule.id)) {
+    throw new Error(`Validation rule already registered: ${rule.id}`);
+  }
+  VALIDATION_RULES.push(rule);
+}
+
+// ==================== ENGINE ====================
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Run the validation rules over the emissions table
+ * Sector/jurisdiction filters narrow the companies checked; the year filter narrows the
+ * reported issues, while cross-year rules still compare against the previous year.
+ */
+export function findDataQualityIssues(filters: DataQualityFilters = {}, limit: number = 50): DataQualityReport {
+  const rules = filters.rule ? VALIDATION_RULES.filter(r => r.id === filters.rule) : VALIDATION_RULES;
+  if (rules.length === 0) {
+    throw new ToolError('INVALID_ARGUMENTS', `Unknown validation rule: ${filters.rule}. Available rules: ${VALIDATION_RULES.map(r => r.id).join(', ')}`, { rule: filters.rule });
+  }
+
+  let query = `
+    SELECT e.*, c.company_name, c.jurisdiction, c.sics_sector, c.sics_sub_sector
+    FROM emissions e
+    JOIN companies c ON e.nz_id = c.nz_id
+    WHERE 1=1
+  `;
+  const params: string[] = [];
+  if (filters.jurisdiction) {
+    query += ' AND LOWER(c.jurisdiction) = LOWER(?)';
+    params.push(resolveJurisdictionAlias(filters.jurisdiction));
+  }
+  if (filters.sics_sector) {
+    query += ' AND LOWER(c.sics_sector) = LOWER(?)';
+    params.push(filters.sics_sector);
+  }
+  if (filters.sics_sub_sector) {
+    query += ' AND LOWER(c.sics_sub_sector) = LOWER(?)';
+    params.push(filters.sics_sub_sector);
+  }
+  query += ' ORDER BY e.nz_id, e.year';
+
+  const records = getDatabase().prepare(query).all(...params) as ValidationRecord[];
+
+  const issues: DataQualityIssue[] = [];
+  let recordsChecked = 0;
+  let previous: ValidationRecord | undefined;
+  for (const record of records) {
+    const context: RuleContext = { previous: previous?.nz_id === record.nz_id ? previous : undefined };
+    previous = record;
+    if (filters.year && record.year !== filters.year) continue;
+    recordsChecked++;
+
+    for (const rule of rules) {
+      for (const finding of rule.check(record, context)) {
+        issues.push({
+          rule: rule.id,
+          severity: rule.severity,
+          nz_id: record.nz_id,
+          company_name: record.company_name,
+          sics_sector: record.sics_sector,
+          year: record.year,
+          ...finding,
+        });
+      }
+    }
+  }
+
+  const ruleOrder = new Map(rules.map((r, i) => [r.id, i]));
+  issues.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+    || ruleOrder.get(a.rule)! - ruleOrder.get(b.rule)!
+    || b.value - a.value
+    || a.nz_id - b.nz_id
+    || a.year - b.year);
+
+  return {
+    rules: rules.map(r => ({
+      id: r.id,
+      title: r.title,
+      description: r.description,
+      severity: r.severity,
+      count: issues.filter(i => i.rule === r.id).length,
+    })),
+    issues: issues.slice(0, limit),
+    total: issues.length,
+    recordsChecked,
+  };
+}
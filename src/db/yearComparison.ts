@@ -1,10 +1,14 @@
 /**
  * Year-to-year comparison functions
  * FIX-H2: Addresses Limitation L6.1 and L6.2 from testing
+ * Also fits log-scale trends to a company's full time series, and lays the full
+ * series out year by year with change markers.
  */
 
 import { getDatabase } from './schema.js';
-import type { EmissionsRow } from './queries.js';
+import { detectMethodologyChanges, type EmissionsRow } from './queries.js';
+import { estimateTrend, type TrendEstimate } from '../benchmarking/trends.js';
+import { SCOPE3_CATEGORY_NAMES } from '../knowledge/materiality.js';
 
 export interface YearComparisonResult {
   nz_id: number;
@@ -230,3 +234,173 @@ export function getTimeSeries(nzId: number): TimeSeriesPoint[] {
 
   return results;
 }
+
+export type TimeSeriesScope = 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3';
+
+export interface CompanyTrendResult {
+  nz_id: number;
+  company_name: string;
+  series: TimeSeriesPoint[];
+  trends: Record<TimeSeriesScope, TrendEstimate | null>; // Null below MIN_TREND_POINTS reported years
+  boundaryChanges: number[]; // Years whose organizational boundary differs from the previous year
+}
+
+/**
+ * Fitted trend of each scope in a company's time series
+ * Boundary changes break like-for-like comparison, so they are listed next to the slopes.
+ */
+export function getCompanyTrend(nzId: number, startYear?: number, endYear?: number): CompanyTrendResult | null {
+  const company = getDatabase()
+    .prepare('SELECT company_name FROM companies WHERE nz_id = ?')
+    .get(nzId) as { company_name: string } | undefined;
+  if (!company) return null;
+
+  const series = getTimeSeries(nzId)
+    .filter(p => (!startYear || p.year >= startYear) && (!endYear || p.year <= endYear));
+  const trendOf = (scope: TimeSeriesScope) => estimateTrend(series.map(p => ({ year: p.year, value: p[scope] })));
+
+  return {
+    nz_id: nzId,
+    company_name: company.company_name,
+    series,
+    trends: {
+      scope1: trendOf('scope1'),
+      scope2_lb: trendOf('scope2_lb'),
+      scope2_mb: trendOf('scope2_mb'),
+      scope3: trendOf('scope3'),
+    },
+    boundaryChanges: series
+      .filter((p, i) => i > 0 && p.boundary && series[i - 1].boundary && p.boundary !== series[i - 1].boundary)
+      .map(p => p.year),
+  };
+}
+
+export type TimeSeriesRowKey = TimeSeriesScope | `scope3_cat_${number}`;
+
+export interface TimeSeriesValue {
+  year: number;
+  value: number | null;
+  delta: number | null;          // Change from the previous reported year
+  percentChange: number | null;
+}
+
+export interface TimeSeriesRow {
+  key: TimeSeriesRowKey;
+  label: string;
+  values: TimeSeriesValue[];     // One per entry of CompanyTimeSeriesResult.years
+  cagr: number | null;           // % per year, first to last non-null value
+  cagrStartYear: number | null;
+  cagrEndYear: number | null;
+}
+
+export interface TimeSeriesMarker {
+  year: number;                  // Year the change took effect
+  kind: 'methodology' | 'boundary' | 'verification';
+  scope: string;
+  previous: string | null;
+  current: string | null;
+}
+
+export interface CompanyTimeSeriesResult {
+  nz_id: number;
+  company_name: string;
+  years: number[];
+  rows: TimeSeriesRow[];         // Scope 1, Scope 2 LB/MB, Scope 3 total, then reported categories
+  markers: TimeSeriesMarker[];
+}
+
+const TIME_SERIES_SCOPES: { key: TimeSeriesScope; column: keyof EmissionsRow; label: string }[] = [
+  { key: 'scope1', column: 'scope1', label: 'Scope 1' },
+  { key: 'scope2_lb', column: 'scope2_lb', label: 'Scope 2 (LB)' },
+  { key: 'scope2_mb', column: 'scope2_mb', label: 'Scope 2 (MB)' },
+  { key: 'scope3', column: 'scope3_total', label: 'Scope 3 Total' },
+];
+
+function buildTimeSeriesRow(key: TimeSeriesRowKey, label: string, points: { year: number; value: number | null }[]): TimeSeriesRow {
+  const values = points.map((p, i) => {
+    const prev = i > 0 ? points[i - 1].value : null;
+    return {
+      year: p.year,
+      value: p.value,
+      delta: p.value !== null && prev !== null ? p.value - prev : null,
+      percentChange: i > 0 ? calculatePercentChange(prev, p.value) : null,
+    };
+  });
+
+  const reported = points.filter(p => p.value !== null);
+  const first = reported[0];
+  const last = reported[reported.length - 1];
+  const cagr = first && last ? calculateCAGR(first.value, last.value, last.year - first.year) : null;
+
+  return {
+    key,
+    label,
+    values,
+    cagr,
+    cagrStartYear: cagr !== null ? first.year : null,
+    cagrEndYear: cagr !== null ? last.year : null,
+  };
+}
+
+/**
+ * Every reported year of a company across all scopes and Scope 3 categories
+ * Deltas compare each year with the previous reported year; markers record methodology,
+ * boundary and verification changes on the year they took effect.
+ */
+export function getCompanyTimeSeries(nzId: number, startYear?: number, endYear?: number): CompanyTimeSeriesResult | null {
+  const db = getDatabase();
+  const company = db
+    .prepare('SELECT company_name FROM companies WHERE nz_id = ?')
+    .get(nzId) as { company_name: string } | undefined;
+  if (!company) return null;
+
+  const emissions = (db
+    .prepare('SELECT * FROM emissions WHERE nz_id = ? ORDER BY year ASC')
+    .all(nzId) as EmissionsRow[])
+    .filter(e => (!startYear || e.year >= startYear) && (!endYear || e.year <= endYear));
+  const years = emissions.map(e => e.year);
+
+  const rows = TIME_SERIES_SCOPES.map(({ key, column, label }) =>
+    buildTimeSeriesRow(key, label, emissions.map(e => ({ year: e.year, value: e[column] as number | null }))));
+  for (let cat = 1; cat <= 15; cat++) {
+    const points = emissions.map(e => ({ year: e.year, value: e[`scope3_cat_${cat}` as keyof EmissionsRow] as number | null }));
+    if (points.every(p => p.value === null)) continue;
+    rows.push(buildTimeSeriesRow(`scope3_cat_${cat}`, `Cat ${cat}: ${SCOPE3_CATEGORY_NAMES[cat]}`, points));
+  }
+
+  // Changes are only meaningful against a year inside the window
+  const inWindow = new Set(years.slice(1));
+  const markers: TimeSeriesMarker[] = [];
+  for (const { year, changes } of detectMethodologyChanges(nzId)) {
+    if (!inWindow.has(year)) continue;
+    for (const c of changes) {
+      markers.push({
+        year,
+        kind: c.scope === 'Organizational Boundary' ? 'boundary' : 'methodology',
+        scope: c.scope,
+        previous: c.previousMethod,
+        current: c.currentMethod,
+      });
+    }
+  }
+  for (let i = 1; i < emissions.length; i++) {
+    if (emissions[i].verification_status !== emissions[i - 1].verification_status) {
+      markers.push({
+        year: emissions[i].year,
+        kind: 'verification',
+        scope: 'Verification',
+        previous: emissions[i - 1].verification_status,
+        current: emissions[i].verification_status,
+      });
+    }
+  }
+  markers.sort((a, b) => a.year - b.year);
+
+  return {
+    nz_id: nzId,
+    company_name: company.company_name,
+    years,
+    rows,
+    markers,
+  };
+}
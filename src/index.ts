@@ -5,8 +5,19 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
   Tool,
+  type CallToolRequest,
 } from '@modelcontextprotocol/sdk/types.js';
+import { parseTransportOptions, startHttpServer } from './transport/http.js';
+import { listResources, readResource, RESOURCE_TEMPLATES } from './resources/index.js';
+import { PROMPTS, getPrompt } from './prompts/index.js';
+import { complete } from './completions/index.js';
 
 // Database queries (instant)
 import * as db from './db/queries.js';
@@ -46,23 +57,37 @@ import {
 import {
   BENCHMARK_DISCLAIMER,
   RANKING_DISCLAIMER,
-  SCOPE3_DATA_QUALITY_DISCLAIMER
+  SCOPE3_DATA_QUALITY_DISCLAIMER,
+  TARGETS_DISCLAIMER,
+  PORTFOLIO_DISCLAIMER
 } from './knowledge/disclaimers.js';
+import { FX_RATES_AS_OF } from './knowledge/fxRates.js';
+import { DEFAULT_TARGET_SCORE } from './knowledge/pathways.js';
+import { formatToolResult, parseOutputFormat } from './output/format.js';
+import { getOutputSchema } from './output/schemas.js';
+import { exportResults, type ExportFormat, type ExportSource } from './output/export.js';
+import { parseCursorFilters, parseToolArgs, toInputSchema } from './validation/inputs.js';
+import { ToolError, toolErrorResult, companyNotFound, emissionsNotFound } from './validation/errors.js';
+import type { PeerGroupStats } from './types/index.js';
+import { MIN_TREND_POINTS, TREND_ALPHA, type TrendEstimate } from './benchmarking/trends.js';
 import {
   SCOPE2_COMPARISON_EXPLANATION,
   SCOPE2_COMPARISON_SUMMARY
 } from './knowledge/explanations.js';
 
 // ============================================================
-// 7 CONSOLIDATED TOOLS
+// 10 CONSOLIDATED TOOLS
 // ============================================================
-// 1. nzdpu_search    - Find companies (by name, LEI, sector, jurisdiction)
+// 1. nzdpu_search    - Find companies (by name, LEI/ISIN/ticker, sector, jurisdiction)
 // 2. nzdpu_emissions - Get emissions data for a company
 // 3. nzdpu_list      - List sectors, jurisdictions, or subsectors
 // 4. nzdpu_analyze   - Dataset-wide analytics
 // 5. nzdpu_benchmark - Compare and benchmark companies
 // 6. nzdpu_quality   - Detailed data quality assessment
 // 7. nzdpu_learn     - Educational content
+// 8. nzdpu_targets   - Emissions reduction targets
+// 9. nzdpu_portfolio - Portfolio financed emissions
+// 10. nzdpu_export   - CSV / XLSX export of full result sets
 // ============================================================
 
 const tools: Tool[] = [
@@ -78,6 +103,8 @@ WHEN TO USE:
 • Filtering by location: "Companies in France" or "UK energy companies"  
 • Filtering by sector: "Oil & Gas companies" or "Financial services firms"
 • Looking up by LEI: "Find company with LEI 549300..."
+• Looking up by ISIN or ticker: "Which company is US0378331005?"
+• Resolving a holdings list: pass 'identifiers' with mixed nz_ids, LEIs, ISINs and tickers (up to 200)
 
 SICS HIERARCHY (most specific wins):
 • sector: Broad category (e.g., "Extractives & Minerals Processing", "Financials")
@@ -85,18 +112,7 @@ SICS HIERARCHY (most specific wins):
 • industry: Most specific (e.g., "Oil & Gas Exploration & Production")
 
 RETURNS: Company profiles with nz_id (use this ID with other tools), name, jurisdiction, and SICS classification.`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string', description: 'Company name to search (partial match supported)' },
-        lei: { type: 'string', description: 'Legal Entity Identifier (20-character code)' },
-        jurisdiction: { type: 'string', description: 'Country/region (e.g., "France", "United States of America", "Japan")' },
-        sector: { type: 'string', description: 'SICS sector (e.g., "Extractives & Minerals Processing", "Financials")' },
-        sub_sector: { type: 'string', description: 'SICS sub-sector (e.g., "Oil & Gas", "Commercial Banks")' },
-        industry: { type: 'string', description: 'SICS industry (more specific than sub-sector)' },
-        limit: { type: 'number', description: 'Max results to return (default: 20)', default: 20 },
-      },
-    },
+    inputSchema: toInputSchema('nzdpu_search'),
   },
 
   // ============ 2. EMISSIONS ============
@@ -121,14 +137,7 @@ SECTOR MATERIALITY (which Scope 3 categories matter most):
 • Retail: Category 1 (Purchased Goods) dominates
 
 RETURNS: Emissions by year, Scope 3 coverage summary, category breakdown with %, methodologies, boundary, verification.`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        company_id: { type: 'number', description: 'The company nz_id (get this from nzdpu_search first)' },
-        year: { type: 'number', description: 'Specific reporting year (omit for all available years)' },
-      },
-      required: ['company_id'],
-    },
+    inputSchema: toInputSchema('nzdpu_emissions'),
   },
 
   // ============ 3. LIST ============
@@ -145,18 +154,7 @@ TYPE OPTIONS:
 • "sectors" - All SICS sectors with company counts
 • "jurisdictions" - All countries/regions with company counts
 • "subsectors" - Full SICS hierarchy (sector > sub-sector > industry)`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: { 
-          type: 'string', 
-          enum: ['sectors', 'jurisdictions', 'subsectors'],
-          description: 'What to list: sectors, jurisdictions, or subsectors'
-        },
-        sector: { type: 'string', description: 'For subsectors: filter to a specific sector' },
-      },
-      required: ['type'],
-    },
+    inputSchema: toInputSchema('nzdpu_list'),
   },
 
   // ============ 4. ANALYZE ============
@@ -172,39 +170,17 @@ WHEN TO USE:
 
 ANALYSIS OPTIONS:
 • "overview" - Total counts, breakdown by sector/jurisdiction/year
-• "top_emitters" - Ranked list by any scope (requires 'scope' param)
+• "top_emitters" - Ranked list by any scope (requires 'scope' param; optional 'metric' for intensity rankings)
 • "disclosure" - Companies by years of disclosure history
-• "data_issues" - Potential quality problems (unit errors, outliers)
+• "data_issues" - Rule-based anomaly checks (unit errors, negative values, category sum ≠ Scope 3 total, LB/MB swapped or identical, ×10 year-over-year jumps, values copied across years, emissions under "not relevant", round placeholders); filter by 'rule', sector and 'year'
+• "outliers" - Emissions implausible relative to the same SICS industry and year: robust z-scores (median/MAD) on log values (requires 'scope')
 • "year_comparison" - Compare emissions between two years for a company (requires 'company_id', 'year1', 'year2')
-• "peer_trends" - Time-series trend analysis for peer groups (requires 'scope', optional filters and year range)`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        analysis: {
-          type: 'string',
-          enum: ['overview', 'top_emitters', 'disclosure', 'data_issues', 'year_comparison', 'peer_trends'],
-          description: 'Type of analysis to perform'
-        },
-        scope: {
-          type: 'string',
-          enum: ['scope1', 'scope2_lb', 'scope2_mb', 'scope3', 'scope3_cat_1', 'scope3_cat_2', 'scope3_cat_3', 'scope3_cat_4', 'scope3_cat_5', 'scope3_cat_6', 'scope3_cat_7', 'scope3_cat_8', 'scope3_cat_9', 'scope3_cat_10', 'scope3_cat_11', 'scope3_cat_12', 'scope3_cat_13', 'scope3_cat_14', 'scope3_cat_15'],
-          description: 'For top_emitters: which scope to rank by'
-        },
-        year: { type: 'number', description: 'Filter to specific year (optional)' },
-        jurisdiction: { type: 'string', description: 'For top_emitters: filter by jurisdiction (optional)' },
-        sics_sector: { type: 'string', description: 'For top_emitters: filter by SICS sector (optional)' },
-        sics_sub_sector: { type: 'string', description: 'For top_emitters: filter by SICS sub-sector (optional)' },
-        sics_industry: { type: 'string', description: 'For top_emitters: filter by SICS industry (optional)' },
-        min_disclosures: { type: 'number', description: 'For disclosure: minimum years of history' },
-        limit: { type: 'number', description: 'Max results (default: 20)', default: 20 },
-        company_id: { type: 'number', description: 'For year_comparison: company nz_id to compare' },
-        year1: { type: 'number', description: 'For year_comparison: first year to compare' },
-        year2: { type: 'number', description: 'For year_comparison: second year to compare' },
-        start_year: { type: 'number', description: 'For peer_trends: start year of analysis (optional, defaults to earliest)' },
-        end_year: { type: 'number', description: 'For peer_trends: end year of analysis (optional, defaults to latest)' },
-      },
-      required: ['analysis'],
-    },
+• "change_decomposition" - Why a company's emissions changed between two years: Scope 3 categories newly reported or dropped, category method changes (with PRIMARY/MODELED tier), boundary changes, and the like-for-like change on categories reported the same way in both years (requires 'company_id', 'year1', 'year2')
+• "peer_trends" - Time-series trend analysis for peer groups (requires 'scope', including scope3_cat_1 to scope3_cat_15; optional filters and year range; cohort: "constant" for a balanced panel)
+• "company_trend" - Fitted trend of a company's Scope 1, 2 and 3 series: least-squares and Theil–Sen slopes on log emissions (annual % with 95% CI) and a Mann-Kendall significance test (requires 'company_id'; optional start_year/end_year)
+• "time_series" - Every reported year of a company for Scope 1, Scope 2 (LB/MB), Scope 3 total and each category, with year-over-year deltas, CAGR and methodology/boundary/verification change markers (requires 'company_id'; optional start_year/end_year)
+• "target_progress" - Reported emissions vs. the linear pathway to each declared base-year target (requires 'company_id')`,
+    inputSchema: toInputSchema('nzdpu_analyze'),
   },
 
   // ============ 5. BENCHMARK ============
@@ -216,11 +192,23 @@ WHEN TO USE:
 • Single company benchmark: "How does Shell compare to its peers?"
 • Multi-company comparison: "Compare these 5 oil companies"
 • Peer group statistics: "What's the average Scope 1 for UK financials?"
+• Pathway alignment: "Is this company on a 1.5°C pathway?"
 
 MODE OPTIONS:
 • "single" - Benchmark one company vs jurisdiction/sector/combined peers
 • "compare" - Side-by-side comparison of multiple companies with quality scores
 • "peer_stats" - Aggregate statistics for a filtered peer group
+• "pathway" - Implied temperature rise (°C) from the historical trajectory, the declared target and current intensity against bundled sector decarbonisation pathways (requires 'company_id' or 'company_ids'; a list is also aggregated; optional coverage: "scope1_2" or "scope1_2_3")
+
+INTENSITY METRICS (single, peer_stats):
+• metric: "per_revenue" - tCO₂e per USD million revenue (revenues converted with a bundled offline FX table)
+• metric: "per_employee" - tCO₂e per employee
+• Absolute values mostly rank companies by size - use intensity to compare efficiency
+
+SCOPE 3 CATEGORIES (single, peer_stats):
+• scope: "scope3_cat_1" … "scope3_cat_15" - benchmark one category (e.g. Cat 15 for banks, Cat 11 for oil & gas)
+• metric: "category_share" - the category as % of each company's Scope 3 total
+• single with a Scope 3 scope adds the sector's material categories, with the company's shares against sector peers
 
 CRITICAL COMPARISON RULES:
 • For Scope 2: ALWAYS specify scope2_lb OR scope2_mb - NEVER mix them
@@ -234,34 +222,7 @@ WHAT'S INCLUDED IN OUTPUT:
 • Data quality scores (boundary type, verification level)
 • Comparability warnings when data shouldn't be directly compared
 • Next steps guidance for deeper analysis`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        mode: { 
-          type: 'string', 
-          enum: ['single', 'compare', 'peer_stats'],
-          description: 'Benchmarking mode'
-        },
-        company_id: { type: 'number', description: 'For single mode: the company nz_id to benchmark' },
-        company_ids: { 
-          type: 'array', 
-          items: { type: 'number' },
-          description: 'For compare mode: list of nz_ids to compare' 
-        },
-        jurisdiction: { type: 'string', description: 'Filter by jurisdiction' },
-        sector: { type: 'string', description: 'Filter by SICS sector' },
-        sub_sector: { type: 'string', description: 'Filter by SICS sub-sector' },
-        scope: { 
-          type: 'string', 
-          enum: ['scope1', 'scope2_lb', 'scope2_mb', 'scope3'],
-          description: 'Which scope to benchmark (default: scope1)',
-          default: 'scope1'
-        },
-        year: { type: 'number', description: 'Specific reporting year (optional)' },
-        limit: { type: 'number', description: 'For compare: max companies (default: 20)', default: 20 },
-      },
-      required: ['mode'],
-    },
+    inputSchema: toInputSchema('nzdpu_benchmark'),
   },
 
   // ============ 6. QUALITY ============
@@ -292,14 +253,7 @@ BOUNDARY TYPES (affect comparability):
 • Company-defined: Custom scope (may not be comparable)
 
 RETURNS: Overall score, component scores, Scope 3 per-category methodology, methodology changes over time, warnings.`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        company_id: { type: 'number', description: 'The company nz_id' },
-        year: { type: 'number', description: 'Specific year (omit for latest)' },
-      },
-      required: ['company_id'],
-    },
+    inputSchema: toInputSchema('nzdpu_quality'),
   },
 
   // ============ 7. LEARN ============
@@ -334,57 +288,247 @@ ADVANCED TOPICS:
 • "emission_factor:<tier|db>" - Specific tier (1-4) or database (DEFRA, EPA, ecoinvent, IPCC)
 • "base_year" - Base year selection and recalculation policies
 • "materiality:<category>" - Which sectors find a Scope 3 category material (e.g., "materiality:15")`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        topic: {
-          type: 'string',
-          description: 'Topic to learn about (see description for options)'
-        },
-        summary: {
-          type: 'boolean',
-          description: 'Return brief summary (1-2 sentences) instead of full explanation. Good for quick reference.'
-        },
-      },
-      required: ['topic'],
-    },
+    inputSchema: toInputSchema('nzdpu_learn'),
   },
-];
 
-// Create server instance
-const server = new Server(
+  // ============ 8. TARGETS ============
   {
-    name: 'nzdpu-mcp-server',
-    version: '2.0.0',
+    name: 'nzdpu_targets',
+    description: `Emissions reduction targets declared in NZDPU disclosures (target year, base year, scope, % reduction, SBTi/ambition status).
+
+WHEN TO USE:
+• A company's targets: "What are Shell's climate targets?" (use company_id)
+• Screening by status: "Which UK banks have SBTi-validated targets?"
+• Screening by target year: "Which companies target 2030?"
+
+MODES (chosen by arguments):
+• company_id given - Lists the company's targets next to its reported emissions, with base years highlighted
+• company_id omitted - Lists companies whose latest disclosure contains matching targets (filter by sbti_status, target_year, target_type, jurisdiction, sector, sub_sector)
+
+IMPORTANT:
+• Targets are self-declared; SBTi/ambition status is as reported by the company
+• Base-year emissions may be missing if the base year predates NZDPU coverage
+• Intensity targets cannot be compared with absolute emissions figures directly
+
+RETURNS: Target table (type, scope, base year, target year, reduction %, SBTi status) and, for a single company, emissions by year.`,
+    inputSchema: toInputSchema('nzdpu_targets'),
   },
+
+  // ============ 9. PORTFOLIO ============
   {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+    name: 'nzdpu_portfolio',
+    description: `Financed emissions for a portfolio of holdings (PCAF-style attribution), in one call.
 
-// Handle tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+WHEN TO USE:
+• Portfolio footprint: "What are the financed emissions of this portfolio?"
+• Climate metrics: "What is the WACI / carbon footprint of these holdings?"
+• Coverage check: "Which of my holdings have no NZDPU data?"
+
+INPUT:
+• holdings - list of { nz_id | lei | isin | name, position_value, evic | outstanding_amount }
+• Identify each holding by nz_id (preferred), LEI, ISIN, or exact company name
+• position_value and evic/outstanding_amount must be in the same currency
+
+METHOD:
+• Attribution factor = position_value / EVIC (or outstanding amount)
+• Financed emissions = attribution factor × company emissions (Scope 1, Scope 2, Scope 3 separately)
+• Carbon footprint = financed Scope 1+2 per million invested
+• WACI = Σ weight × (Scope 1+2 / USD million revenue)
+• Data quality score 1 (best) to 5, PCAF-style, weighted by position value
+
+RETURNS: Portfolio totals, WACI, carbon footprint, coverage, weighted data quality, and per-holding attribution with match status.`,
+    inputSchema: toInputSchema('nzdpu_portfolio'),
+  },
+  // ============ 10. EXPORT ============
+  {
+    name: 'nzdpu_export',
+    description: `Export the full result set of an analysis to a CSV or XLSX file on disk, for use in Excel.
 
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+WHEN TO USE:
+• "Export the top Scope 1 emitters in Oil & Gas to Excel"
+• "Save a comparison of these companies as CSV"
+• "Give me the peer trend data behind this chart as a spreadsheet"
+
+SOURCES:
+• top_emitters - ranked emitters for a scope (same filters as nzdpu_analyze top_emitters)
+• compare - company comparison (company_ids, or every company matching the filters)
+• peer_trends - yearly peer statistics plus every company-year behind them
+
+OUTPUT:
+• Not capped by 'limit' - every matching row is written
+• Every row carries Scope 1, Scope 2 (LB & MB), Scope 3 total and all 15 categories with methods and relevancy
+• A Metadata sheet (or *_metadata.csv) with the database build date, parameters and disclaimers
+• Format follows the file extension (.xlsx or .csv); CSV writes one file per sheet
+• Paths resolve against NZDPU_EXPORT_DIR (default ~/nzdpu-exports) and must stay inside it; existing files are not overwritten unless overwrite is true
+
+RETURNS: The files written and the row count per sheet.`,
+    inputSchema: toInputSchema('nzdpu_export'),
+  },
+];
+
+// Every tool publishes the schema of its structured output
+for (const tool of tools) {
+  tool.outputSchema = getOutputSchema(tool.name);
+}
+
+// Create a server instance (one for stdio, one per session over HTTP)
+/**
+ * Create an MCP server instance
+ * disabledTools maps tool names withheld from this instance to the reason given to callers
+ */
+function createServer(disabledTools: Record<string, string> = {}): Server {
+  const server = new Server(
+    {
+      name: 'nzdpu-mcp-server',
+      version: '2.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        completions: {},
+      },
+    }
+  );
+
+  // Handle tool listing
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: tools.filter(tool => !(tool.name in disabledTools)) };
+  });
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, request => handleToolCall(request, disabledTools));
+
+  // Resources: nzdpu:// company, emissions, sector, concept and framework URIs
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources() };
+  });
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri);
+  });
+
+  // Prompts: canned analysis workflows with the standard disclaimers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  // Argument completion for prompts and resource templates
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return complete(request.params);
+  });
+
+  return server;
+}
+
+// Tool execution
+async function handleToolCall(request: CallToolRequest, disabledTools: Record<string, string> = {}) {
+  const { name } = request.params;
+  // Errors follow the requested format even when the arguments themselves are invalid
+  const errorFormat = request.params.arguments?.output_format === 'json' ? 'json' : 'markdown';
 
   try {
+    if (name in disabledTools) {
+      throw new ToolError('UNKNOWN_TOOL', `${name} is not available on this server: ${disabledTools[name]}`, { tool: name });
+    }
+    const args = parseToolArgs(name, request.params.arguments);
+    const outputFormat = parseOutputFormat(args.output_format);
+    const resultMode = (args?.analysis ?? args?.mode ?? args?.type ?? args?.topic ?? args?.source ?? null) as string | null;
+    // Markdown for reading, or the typed data as structured content; disclaimers always travel separately
+    const respond = (markdown: string, data: unknown, disclaimers: string[] = []) =>
+      formatToolResult({ tool: name, mode: resultMode, format: outputFormat, markdown, data, disclaimers });
+
     switch (name) {
       // ============ 1. SEARCH ============
       case 'nzdpu_search': {
-        const searchName = args?.name as string | undefined;
+        // A cursor replays the filters of the listing it was issued for
+        const cursor = args?.cursor as string | undefined;
+        const listing = cursor ? db.decodeCursor(cursor, 'search') : undefined;
+        const filterArgs = listing ? parseCursorFilters(name, args, listing.filters) : args;
+        const searchName = filterArgs.name as string | undefined;
         const lei = args?.lei as string | undefined;
-        const jurisdiction = args?.jurisdiction as string | undefined;
-        const sector = args?.sector as string | undefined;
-        const subSector = args?.sub_sector as string | undefined;
-        const industry = args?.industry as string | undefined;
+        const jurisdiction = filterArgs.jurisdiction as string | undefined;
+        const sector = filterArgs.sector as string | undefined;
+        const subSector = filterArgs.sub_sector as string | undefined;
+        const industry = filterArgs.industry as string | undefined;
+        const isin = args?.isin as string | undefined;
+        const ticker = args?.ticker as string | undefined;
+        const identifiers = args?.identifiers as string[] | undefined;
         const limit = (args?.limit as number) || 20;
 
+        // Batch of mixed identifiers: one row per input with match status
+        if (identifiers && identifiers.length > 0) {
+
+          const matches = db.resolveIdentifiers(identifiers);
+          const counts = { matched: 0, ambiguous: 0, not_found: 0, invalid: 0 };
+          matches.forEach(m => counts[m.status]++);
+
+          let output = `# Identifier Resolution\n\n`;
+          output += `**Identifiers:** ${matches.length} | ✅ Matched: ${counts.matched} | ❓ Ambiguous: ${counts.ambiguous} | ❌ Not found: ${counts.not_found} | ⚠️ Invalid: ${counts.invalid}\n\n`;
+          output += `| Identifier | Type | Status | Company | nz_id | Jurisdiction |\n`;
+          output += `|------------|------|--------|---------|-------|--------------|\n`;
+
+          const statusLabels = { matched: '✅ Matched', ambiguous: '❓ Ambiguous', not_found: '❌ Not found', invalid: '⚠️ Invalid' };
+          for (const m of matches) {
+            const type = m.type === 'nz_id' ? 'nz_id' : m.type.toUpperCase();
+            if (m.companies.length === 0) {
+              output += `| ${m.identifier} | ${type} | ${statusLabels[m.status]}${m.note ? ` (${m.note})` : ''} | — | — | — |\n`;
+            }
+            for (const c of m.companies) {
+              output += `| ${m.identifier} | ${type} | ${statusLabels[m.status]}${m.note ? ` (${m.note})` : ''} | ${c.company_name} | ${c.nz_id} | ${c.jurisdiction || '—'} |\n`;
+            }
+          }
+
+          if (!db.hasIdentifierData()) {
+            output += '\n⚠️ This database has no ISIN/ticker crosswalk; only nz_ids and reported LEIs can be resolved. ';
+            output += 'Load one with `npm run load-identifiers` (see README).\n';
+          }
+          output += `\n*Use the nz_ids with nzdpu_portfolio, nzdpu_emissions, or nzdpu_benchmark.*`;
+
+          return respond(output, { total: matches.filter(m => m.status === 'matched').length, companies: [], matches });
+        }
+
+        // ISIN or ticker lookup via the identifier crosswalk
+        if (isin || ticker) {
+          const match = isin ? db.resolveIdentifier(isin, 'isin') : db.resolveIdentifier(ticker!, 'ticker');
+          const label = isin ? 'ISIN' : 'ticker';
+
+          if (match.companies.length === 0) {
+            let errorMsg = `No company found with ${label}: ${match.identifier}\n\n`;
+            if (match.status === 'invalid') {
+              errorMsg += `**Invalid ${label}:** ${match.note}\n`;
+              errorMsg += `**ISIN Format:** 2-letter country code + 9 alphanumeric characters + check digit (e.g., US0378331005)\n\n`;
+            }
+            errorMsg += `**Suggestions:**\n`;
+            if (match.note && match.status !== 'invalid') errorMsg += `- ${match.note}; run \`npm run load-identifiers\` with an ISIN mapping file\n`;
+            errorMsg += `- Try the company's LEI or name instead\n`;
+            return respond(errorMsg, { total: 0, companies: [], matches: [match] });
+          }
+
+          let output = `# Company Found by ${isin ? 'ISIN' : 'Ticker'}\n\n`;
+          if (match.status === 'ambiguous') {
+            output += `❓ **${match.identifier}** maps to ${match.companies.length} companies - confirm which one you mean:\n\n`;
+          }
+          for (const company of match.companies) {
+            output += `**${company.company_name}** (nz_id: ${company.nz_id})\n`;
+            output += `- ${isin ? 'ISIN' : 'Ticker'}: ${match.identifier.toUpperCase()}\n`;
+            if (company.lei) output += `- LEI: ${company.lei}\n`;
+            output += `- Jurisdiction: ${company.jurisdiction || 'N/A'}\n`;
+            output += `- Sector: ${company.sics_sector || 'N/A'}\n`;
+            if (company.sics_sub_sector) output += `- Sub-Sector: ${company.sics_sub_sector}\n`;
+            output += '\n';
+          }
+          output += `*Use the nz_id with other tools.*`;
+
+          return respond(output, { total: match.companies.length, companies: match.companies, matches: [match] });
+        }
+
         // If LEI provided, search by LEI
         if (lei) {
           const company = db.getCompanyByLei(lei);
@@ -396,22 +540,23 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             errorMsg += `- Verify the LEI is correct at https://www.gleif.org/\n`;
             errorMsg += `- Try searching by company name instead\n`;
             errorMsg += `- Check if the company is in the database with name search\n`;
-            return { content: [{ type: 'text', text: errorMsg }] };
+            return respond(errorMsg, { total: 0, companies: [] });
           }
           
           let output = `# Company Found by LEI\n\n`;
           output += `**${company.company_name}** (nz_id: ${company.nz_id})\n`;
-          output += `- LEI: ${company.lei}\n`;
+          output += `- LEI: ${company.lei || lei.toUpperCase()}\n`;
           output += `- Jurisdiction: ${company.jurisdiction || 'N/A'}\n`;
           output += `- Sector: ${company.sics_sector || 'N/A'}\n`;
           if (company.sics_sub_sector) output += `- Sub-Sector: ${company.sics_sub_sector}\n`;
           if (company.sics_industry) output += `- Industry: ${company.sics_industry}\n`;
           output += `\n*Use nz_id ${company.nz_id} with other tools.*`;
           
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { total: 1, companies: [company] });
         }
 
         // Otherwise, search with filters
+        const offset = listing?.offset ?? 0;
         const result = db.listCompanies({
           search: searchName,
           jurisdiction,
@@ -419,13 +564,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           sics_sub_sector: subSector,
           sics_industry: industry,
           limit,
+          offset,
         });
+        const page = db.toPage('search', db.pageFilters({
+          name: searchName, jurisdiction, sector, sub_sector: subSector, industry,
+        }), result.data.length, result.total, offset);
         
         let output = `# Search Results\n\n`;
-        output += `**Found:** ${result.total} companies`;
-        if (result.total > limit) output += ` (showing first ${limit})`;
-        output += '\n\n';
+        output += `**Found:** ${result.total} companies\n`;
+        output += db.formatPageSummary(page) || '\n';
         
+        let suggestions: db.NameSuggestion[] = [];
         if (result.data.length === 0) {
           output += '*No companies found matching:*\n';
           
@@ -465,12 +614,32 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             output += '\n';
           }
           
-          output += '**Suggestions:**\n';
-          if (subSector) {
-            output += '- Try a different jurisdiction from the list above\n';
+          // Close name matches (ignoring the other filters) replace the generic suggestions
+          suggestions = searchName ? db.suggestCompanyNames(searchName, 5) : [];
+          if (suggestions.length > 0) {
+            output += '**Did you mean:**\n';
+            suggestions.forEach(s => {
+              output += `- ${s.company_name} (nz_id: ${s.nz_id}, ${s.jurisdiction || 'jurisdiction N/A'}) - ${Math.round(s.score * 100)}% match\n`;
+            });
+          } else {
+            output += '**Suggestions:**\n';
+            if (subSector) {
+              output += '- Try a different jurisdiction from the list above\n';
+            }
+            output += '- Use `nzdpu_list type=jurisdictions` to see all available jurisdictions\n';
+            output += '- Use `nzdpu_list type=subsectors` to see all sectors and sub-sectors\n';
           }
-          output += '- Use `nzdpu_list type=jurisdictions` to see all available jurisdictions\n';
-          output += '- Use `nzdpu_list type=subsectors` to see all sectors and sub-sectors\n';
+        } else if (searchName) {
+          // Ranked name search: best match first, with its match score
+          output += `| Company | nz_id | Match | Jurisdiction | Sector | Sub-Sector |\n`;
+          output += `|---------|-------|-------|--------------|--------|------------|\n`;
+          
+          result.data.forEach((c) => {
+            const name = c.alias ? `${c.company_name} (${c.alias})` : c.company_name;
+            output += `| ${name} | ${c.nz_id} | ${Math.round((c.match_score ?? 0) * 100)}% | ${c.jurisdiction || '—'} | ${c.sics_sector || '—'} | ${c.sics_sub_sector || '—'} |\n`;
+          });
+          
+          output += `\n*Ranked by name/alias match score. Use the nz_id with nzdpu_emissions, nzdpu_benchmark, or nzdpu_quality tools.*`;
         } else {
           output += `| Company | nz_id | Jurisdiction | Sector | Sub-Sector |\n`;
           output += `|---------|-------|--------------|--------|------------|\n`;
@@ -482,17 +651,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           output += `\n*Use the nz_id with nzdpu_emissions, nzdpu_benchmark, or nzdpu_quality tools.*`;
         }
         
-        return { content: [{ type: 'text', text: output }] };
+        return respond(output, { total: result.total, companies: result.data, suggestions, page });
       }
 
       // ============ 2. EMISSIONS ============
       case 'nzdpu_emissions': {
         const companyId = args?.company_id as number;
-        if (!companyId) throw new Error('company_id is required. Use nzdpu_search first to find the nz_id.');
         
         const company = db.getCompanyById(companyId);
         // FIX-L4: Enhanced error message with guidance
-        if (!company) throw new Error(`Company with nz_id ${companyId} not found. Use nzdpu_search to find companies and get their nz_id.`);
+        if (!company) throw companyNotFound(companyId);
         
         const emissions = db.getCompanyEmissions(companyId, args?.year as number | undefined);
         
@@ -567,15 +735,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
         
-        output += '\n---\n📚 **Note:** Location-based (LB) and market-based (MB) Scope 2 measure different things and cannot be compared.';
+        const scope2Note = 'Location-based (LB) and market-based (MB) Scope 2 measure different things and cannot be compared.';
+        output += `\n---\n📚 **Note:** ${scope2Note}`;
         
-        return { content: [{ type: 'text', text: output }] };
+        const scope3Coverage = emissions
+          .filter(e => e.scope3_total && e.scope3_total > 0)
+          .map(e => ({ year: e.year, ...db.getScope3CoverageSummary(e) }));
+        return respond(output, { company, emissions, scope3Coverage }, [scope2Note]);
       }
 
       // ============ 3. LIST ============
       case 'nzdpu_list': {
         const listType = args?.type as string;
-        if (!listType) throw new Error('type is required: sectors, jurisdictions, or subsectors');
 
         switch (listType) {
           case 'sectors': {
@@ -586,7 +757,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               output += `| ${s.sector} | ${s.count.toLocaleString()} |\n`;
             });
             output += `\n**Total:** ${sectors.reduce((sum, s) => sum + s.count, 0).toLocaleString()} companies`;
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { type: listType, items: sectors });
           }
           
           case 'jurisdictions': {
@@ -599,7 +770,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             if (jurisdictions.length > 50) {
               output += `\n*Showing top 50 of ${jurisdictions.length} jurisdictions.*`;
             }
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { type: listType, items: jurisdictions });
           }
           
           case 'subsectors': {
@@ -649,18 +820,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               }
             }
             
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { type: listType, items: subSectors });
           }
           
           default:
-            throw new Error(`Unknown list type: ${listType}. Use: sectors, jurisdictions, or subsectors`);
+            throw new ToolError('INVALID_ARGUMENTS', `Unknown list type: ${listType}. Use: sectors, jurisdictions, or subsectors`);
         }
       }
 
       // ============ 4. ANALYZE ============
       case 'nzdpu_analyze': {
         const analysis = args?.analysis as string;
-        if (!analysis) throw new Error('analysis is required: overview, top_emitters, disclosure, or data_issues');
+        // Fitted trends on log emissions: annual % change with 95% intervals and Mann-Kendall significance
+        const trendTableHeader = '| Series | Years | OLS (%/yr, 95% CI) | Theil–Sen (%/yr, 95% CI) | R² | Mann-Kendall τ (p) | Trend |\n' +
+          '|--------|-------|--------------------|--------------------------|----|--------------------|-------|\n';
+        const trendRow = (label: string, t: TrendEstimate | null) => {
+          if (!t) return `| ${label} | < ${MIN_TREND_POINTS} years | — | — | — | — | insufficient data |\n`;
+          const pct = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(1)}%`;
+          const ci = (i: { lower: number; upper: number } | null) => i ? ` (${pct(i.lower)} to ${pct(i.upper)})` : '';
+          const trend = t.direction === 'no_significant_trend' ? 'no significant trend' : `**${t.direction}**`;
+          return `| ${label} | ${t.startYear}-${t.endYear} (${t.points}) | ${pct(t.ols.annualChangePercent)}${ci(t.ols.ci)} | ` +
+            `${pct(t.theilSen.annualChangePercent)}${ci(t.theilSen.ci)} | ${t.ols.rSquared.toFixed(2)} | ` +
+            `${t.mannKendall.tau.toFixed(2)} (${t.mannKendall.pValue < 0.001 ? '<0.001' : t.mannKendall.pValue.toFixed(3)}) | ${trend} |\n`;
+        };
+        const trendNote = `*Slopes are fitted to ln(emissions), so they read as compound annual change. A trend is significant when the Mann-Kendall p-value is below ${TREND_ALPHA}; with 5 years only a strictly monotonic series qualifies.*\n`;
 
         switch (analysis) {
           case 'overview': {
@@ -695,19 +878,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 output += `| ${jurisdiction} | ${count.toLocaleString()} |\n`;
               });
             
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { stats });
           }
           
           case 'top_emitters': {
-            const scope = args?.scope as string;
-            const limit = (args?.limit as number) || 10;
-            const year = args?.year as number | undefined;
-            const jurisdiction = args?.jurisdiction as string | undefined;
-            const sics_sector = args?.sics_sector as string | undefined;
-            const sics_sub_sector = args?.sics_sub_sector as string | undefined;
-            const sics_industry = args?.sics_industry as string | undefined;
-
-            if (!scope) throw new Error('scope is required for top_emitters analysis');
+            const cursor = args?.cursor as string | undefined;
+            const listing = cursor ? db.decodeCursor(cursor, 'top_emitters') : undefined;
+            const query = listing ? parseCursorFilters(name, args, listing.filters) : args;
+            const scope = query.scope as db.PeerScope;
+            const limit = args.limit as number;
+            const year = query.year as number | undefined;
+            const jurisdiction = query.jurisdiction as string | undefined;
+            const sics_sector = query.sics_sector as string | undefined;
+            const sics_sub_sector = query.sics_sub_sector as string | undefined;
+            const sics_industry = query.sics_industry as string | undefined;
+            const metric = (query.metric as db.IntensityMetric) || 'absolute';
+            const offset = listing?.offset ?? 0;
 
             // Build filters object
             const filters: db.TopEmittersFilters | undefined =
@@ -715,7 +901,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 ? { jurisdiction, sics_sector, sics_sub_sector, sics_industry }
                 : undefined;
 
-            const emitters = db.getTopEmitters(scope as any, limit, year, filters);
+            const ranking = db.getTopEmittersPage(scope, limit, offset, year, filters, metric);
+            const emitters = ranking.data;
+            const page = db.toPage('top_emitters', db.pageFilters({
+              scope, year, jurisdiction, sics_sector, sics_sub_sector, sics_industry, metric,
+            }), emitters.length, ranking.total, offset);
 
             const scopeNames: Record<string, string> = {
               scope1: 'Scope 1',
@@ -728,7 +918,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               scopeDisplay = `Scope 3 Category ${scope.replace('scope3_cat_', '')}`;
             }
 
-            let output = `# Top ${limit} ${scopeDisplay} Emitters\n\n`;
+            const heading = offset > 0
+              ? `${scopeDisplay} Emitters, Ranks ${offset + 1}-${offset + emitters.length}`
+              : `Top ${limit} ${scopeDisplay} Emitters`;
+            let output = metric === 'absolute'
+              ? `# ${heading}\n\n`
+              : `# ${heading} by Intensity (${db.METRIC_UNITS[metric]})\n\n`;
 
             // Show active filters
             const activeFilters = [];
@@ -741,6 +936,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             if (activeFilters.length > 0) {
               output += `**Filters:** ${activeFilters.join(' | ')}\n\n`;
             }
+            output += db.formatPageSummary(page);
 
             if (emitters.length === 0) {
               output += '❌ No companies found matching the specified filters.\n\n';
@@ -748,18 +944,31 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               output += '- Check filter spelling and capitalization\n';
               output += '- Use `nzdpu_list` to see available jurisdictions, sectors, and sub-sectors\n';
               output += '- Try broader filters (e.g., sector instead of sub-sector)\n';
-              return { content: [{ type: 'text', text: output }] };
+              return respond(output, { scope, metric, unit: db.METRIC_UNITS[metric], filters: filters || {}, emitters: [], page });
             }
 
-            output += `| Rank | Company | Value (tCO₂e) | Year | Jurisdiction | Sector |\n`;
-            output += `|------|---------|---------------|------|--------------|--------|\n`;
+            if (metric === 'absolute') {
+              output += `| Rank | Company | Value (tCO₂e) | Year | Jurisdiction | Sector |\n`;
+              output += `|------|---------|---------------|------|--------------|--------|\n`;
 
-            emitters.forEach((e, i) => {
-              const warning = e.value > 1000000000 ? ' ⚠️' : '';
-              output += `| ${i + 1} | ${e.company_name}${warning} | ${e.value.toLocaleString()} | ${e.year} | ${e.jurisdiction || '—'} | ${e.sics_sector || '—'} |\n`;
-            });
+              emitters.forEach((e, i) => {
+                const warning = e.value > 1000000000 ? ' ⚠️' : '';
+                output += `| ${offset + i + 1} | ${e.company_name}${warning} | ${e.value.toLocaleString()} | ${e.year} | ${e.jurisdiction || '—'} | ${e.sics_sector || '—'} |\n`;
+              });
+            } else {
+              output += `| Rank | Company | Intensity (${db.METRIC_UNITS[metric]}) | Absolute (tCO₂e) | Year | Jurisdiction | Sector |\n`;
+              output += `|------|---------|-----------|------------------|------|--------------|--------|\n`;
 
-            const suspicious = emitters.filter(e => e.value > 1000000000);
+              emitters.forEach((e, i) => {
+                const absolute = e.absolute_value ?? e.value;
+                const warning = absolute > 1000000000 ? ' ⚠️' : '';
+                output += `| ${offset + i + 1} | ${e.company_name}${warning} | ${e.value.toLocaleString(undefined, { maximumFractionDigits: 2 })} | ${absolute.toLocaleString()} | ${e.year} | ${e.jurisdiction || '—'} | ${e.sics_sector || '—'} |\n`;
+              });
+
+              output += `\n*Company-years without ${metric === 'per_revenue' ? 'revenue (or in a currency missing from the bundled FX table)' : 'employee count'} in the same disclosure are excluded. Revenues converted to USD at ${FX_RATES_AS_OF} rates.*\n`;
+            }
+
+            const suspicious = emitters.filter(e => (e.absolute_value ?? e.value) > 1000000000);
             if (suspicious.length > 0) {
               output += '\n## ⚠️ Data Quality Warnings\n\n';
               output += 'Values > 1 billion tCO₂e may indicate unit errors (kg reported as tonnes).\n';
@@ -770,12 +979,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             output += RANKING_DISCLAIMER;
             output += '\n\n📊 Use `nzdpu_emissions` and `nzdpu_quality` to understand each company\'s data before drawing conclusions.\n';
 
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { scope, metric, unit: db.METRIC_UNITS[metric], filters: filters || {}, emitters, page }, [RANKING_DISCLAIMER]);
           }
           
           case 'disclosure': {
-            const minDisclosures = args?.min_disclosures as number | undefined;
+            const cursor = args?.cursor as string | undefined;
+            const listing = cursor ? db.decodeCursor(cursor, 'disclosure') : undefined;
+            const query = listing ? parseCursorFilters(name, args, listing.filters) : args;
+            const minDisclosures = query.min_disclosures as number | undefined;
             const limit = (args?.limit as number) || 50;
+            const offset = listing?.offset ?? 0;
             
             const stats = db.getDatasetStats();
             
@@ -793,47 +1006,127 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 output += `| ${years} | ${count.toLocaleString()} | ${pct}% |\n`;
               });
             
-            if (minDisclosures) {
-              const companies = db.getCompaniesWithMinDisclosures(minDisclosures, limit);
+            const result = minDisclosures
+              ? db.getCompaniesWithMinDisclosures(minDisclosures, limit, offset)
+              : { data: [], total: 0 };
+            const companies = result.data;
+            const page = minDisclosures
+              ? db.toPage('disclosure', db.pageFilters({ min_disclosures: minDisclosures }), companies.length, result.total, offset)
+              : undefined;
+            if (page) {
               output += `\n## Companies with ${minDisclosures}+ Years of Data\n\n`;
-              output += `**Count:** ${companies.length} companies\n\n`;
+              output += `**Count:** ${result.total} companies\n`;
+              output += db.formatPageSummary(page) || '\n';
               
               if (companies.length > 0) {
                 output += `| Company | nz_id | Years | Disclosure Years |\n`;
                 output += `|---------|-------|-------|------------------|\n`;
-                companies.slice(0, limit).forEach(c => {
+                companies.forEach(c => {
                   output += `| ${c.company_name} | ${c.nz_id} | ${c.disclosure_count} | ${c.years} |\n`;
                 });
               }
             }
             
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { stats, companies, ...(page ? { page } : {}) });
           }
           
           case 'data_issues': {
             const limit = (args?.limit as number) || 50;
-            const issues = db.findDataQualityIssues(limit);
+            const rule = args?.rule as string | undefined;
+            const year = args?.year as number | undefined;
+            const jurisdiction = args?.jurisdiction as string | undefined;
+            const sics_sector = args?.sics_sector as string | undefined;
+            const sics_sub_sector = args?.sics_sub_sector as string | undefined;
+            const report = db.findDataQualityIssues({ rule, year, jurisdiction, sics_sector, sics_sub_sector }, limit);
             
             let output = '# Data Quality Report\n\n';
+            
+            const activeFilters = [];
+            if (rule) activeFilters.push(`Rule: ${rule}`);
+            if (year) activeFilters.push(`Year: ${year}`);
+            if (jurisdiction) activeFilters.push(`Jurisdiction: ${jurisdiction}`);
+            if (sics_sector) activeFilters.push(`Sector: ${sics_sector}`);
+            if (sics_sub_sector) activeFilters.push(`Sub-Sector: ${sics_sub_sector}`);
+            if (activeFilters.length > 0) {
+              output += `**Filters:** ${activeFilters.join(' | ')}\n`;
+            }
+            output += `**Records Checked:** ${report.recordsChecked.toLocaleString()} company-years\n\n`;
+            
             output += '## Validation Rules Applied\n\n';
-            output += '| Rule | Description |\n';
-            output += '|------|-------------|\n';
-            output += '| Unit Error | Values > 1 billion tCO₂e may be kg reported as tonnes |\n';
-            output += '| Round Number | Suspiciously round numbers may be estimates |\n\n';
+            output += '| Rule | Severity | Description | Issues |\n';
+            output += '|------|----------|-------------|--------|\n';
+            report.rules.forEach(r => {
+              output += `| ${r.title} (\`${r.id}\`) | ${r.severity} | ${r.description} | ${r.count} |\n`;
+            });
             
-            output += `## Issues Found: ${issues.length}\n\n`;
+            output += `\n## Issues Found: ${report.total}`;
+            if (report.total > report.issues.length) output += ` (showing ${report.issues.length}, errors first)`;
+            output += '\n\n';
             
-            if (issues.length > 0) {
-              output += `| Company | nz_id | Year | Scope | Value | Issue |\n`;
-              output += `|---------|-------|------|-------|-------|-------|\n`;
-              issues.forEach(issue => {
-                output += `| ${issue.company_name} | ${issue.nz_id} | ${issue.year} | ${issue.scope} | ${issue.value.toLocaleString()} | ${issue.issue} |\n`;
+            if (report.issues.length > 0) {
+              const severityIcons = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+              output += `| Severity | Rule | Company | nz_id | Year | Scope | Value | Issue |\n`;
+              output += `|----------|------|---------|-------|------|-------|-------|-------|\n`;
+              report.issues.forEach(issue => {
+                output += `| ${severityIcons[issue.severity]} | ${issue.rule} | ${issue.company_name} | ${issue.nz_id} | ${issue.year} | ${issue.scope} | ${issue.value.toLocaleString()} | ${issue.issue} |\n`;
               });
+              output += `\n*Flags are prompts to check the disclosure, not proof of an error. Use \`rule\` to list one check, and \`nzdpu_quality\` on a company for context.*\n`;
             } else {
               output += '*No significant data quality issues found.*\n';
             }
             
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, report);
+          }
+
+          case 'outliers': {
+            const scope = args?.scope as db.OutlierScope;
+            const limit = (args?.limit as number) || 50;
+            const filters: db.OutlierFilters = {
+              year: args?.year as number | undefined,
+              jurisdiction: args?.jurisdiction as string | undefined,
+              sics_sector: args?.sics_sector as string | undefined,
+              sics_sub_sector: args?.sics_sub_sector as string | undefined,
+              sics_industry: args?.sics_industry as string | undefined,
+            };
+            const report = db.findPeerOutliers(scope, filters, limit);
+            
+            const scopeDisplay = scope.startsWith('scope3_cat_')
+              ? `Scope 3 Category ${scope.replace('scope3_cat_', '')}`
+              : ({ scope1: 'Scope 1', scope2_lb: 'Scope 2 (Location-Based)', scope2_mb: 'Scope 2 (Market-Based)', scope3: 'Scope 3 Total' } as Record<string, string>)[scope];
+            
+            let output = `# ${scopeDisplay} Outliers Within Industry Peers\n\n`;
+            
+            const activeFilters = [];
+            if (filters.year) activeFilters.push(`Year: ${filters.year}`);
+            if (filters.jurisdiction) activeFilters.push(`Jurisdiction: ${filters.jurisdiction}`);
+            if (filters.sics_sector) activeFilters.push(`Sector: ${filters.sics_sector}`);
+            if (filters.sics_sub_sector) activeFilters.push(`Sub-Sector: ${filters.sics_sub_sector}`);
+            if (filters.sics_industry) activeFilters.push(`Industry: ${filters.sics_industry}`);
+            if (activeFilters.length > 0) {
+              output += `**Filters:** ${activeFilters.join(' | ')}\n`;
+            }
+            output += `**Method:** robust z-score = 0.6745 × (ln value − median ln value) / MAD, within each SICS industry and year; |z| > ${report.threshold} is flagged\n`;
+            output += `**Peer Groups Scored:** ${report.groupsChecked} industry-years`;
+            if (report.groupsTooSmall > 0) output += ` (${report.groupsTooSmall} skipped with fewer than ${db.MIN_OUTLIER_GROUP_SIZE} companies)`;
+            output += '\n\n';
+            
+            output += `## Outliers Found: ${report.total}`;
+            if (report.total > report.outliers.length) output += ` (showing ${report.outliers.length}, most extreme first)`;
+            output += '\n\n';
+            
+            if (report.outliers.length > 0) {
+              output += `| Company | nz_id | Industry | Year | Value (tCO₂e) | Peer Median | Peers | Robust z |\n`;
+              output += `|---------|-------|----------|------|---------------|-------------|-------|----------|\n`;
+              report.outliers.forEach(o => {
+                const arrow = o.direction === 'high' ? '⬆️' : '⬇️';
+                output += `| ${o.company_name} | ${o.nz_id} | ${o.sics_industry} | ${o.year} | ${o.value.toLocaleString()} | ${Math.round(o.peerMedian).toLocaleString()} | ${o.peerCount} | ${arrow} ${o.zScore} |\n`;
+              });
+              output += `\n*An outlier is not an error: it can be a genuinely larger or smaller business, a different boundary or a unit mistake. Check each with \`nzdpu_emissions\` and \`nzdpu_quality\`.*\n`;
+            } else {
+              output += '*No outliers found in the peer groups checked.*\n';
+            }
+            
+            return respond(output, { filters, ...report });
           }
 
           case 'year_comparison': {
@@ -841,14 +1134,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             const year1 = args?.year1 as number;
             const year2 = args?.year2 as number;
 
-            if (!companyId) throw new Error('company_id is required for year_comparison analysis');
-            if (!year1 || !year2) throw new Error('year1 and year2 are required for year_comparison analysis');
-            if (year1 === year2) throw new Error('year1 and year2 must be different');
-
             const comparison = db.compareYears(companyId, year1, year2);
 
             if (!comparison) {
-              throw new Error(`Could not compare years - company ${companyId} may not have data for ${year1} or ${year2}`);
+              throw new ToolError('EMISSIONS_NOT_FOUND', `Could not compare years - company ${companyId} may not have data for ${year1} or ${year2}`, { nz_id: companyId, years: [year1, year2] });
             }
 
             let output = `# Year-to-Year Emissions Comparison\n\n`;
@@ -941,20 +1230,106 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             if (comparison.yearsApart > 1) {
               output += '- **CAGR:** Compound Annual Growth Rate (annualized rate of change)\n';
             }
-            output += '\n💡 **Next Steps:** Use `nzdpu_quality` to understand methodology and `nzdpu_emissions` to see Scope 3 category breakdowns.\n';
+            output += `\n💡 **Next Steps:** Use \`nzdpu_analyze analysis=change_decomposition company_id=${companyId} year1=${year1} year2=${year2}\` to separate real change from reporting changes, \`nzdpu_quality\` to understand methodology and \`nzdpu_emissions\` to see Scope 3 category breakdowns.\n`;
 
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { comparison });
+          }
+
+          case 'change_decomposition': {
+            const companyId = args?.company_id as number;
+            const year1 = args?.year1 as number;
+            const year2 = args?.year2 as number;
+
+            const result = db.decomposeYearChange(companyId, year1, year2);
+            if (!result) {
+              throw new ToolError('EMISSIONS_NOT_FOUND', `Could not decompose change - company ${companyId} may not have data for ${year1} or ${year2}`, { nz_id: companyId, years: [year1, year2] });
+            }
+
+            const fmt = (v: number | null) => v !== null ? Math.round(v).toLocaleString() : 'N/A';
+            const signed = (v: number) => `${v >= 0 ? '+' : ''}${Math.round(v).toLocaleString()}`;
+            const pct = (v: number | null) => v !== null ? `${v >= 0 ? '+' : ''}${v.toFixed(1)}%` : 'N/A';
+            const s3 = result.scope3;
+            const countOf = (filter: (c: db.CategoryChange) => boolean) => s3.categories.filter(filter).length;
+            const ofBase = (v: number) => s3.total1 ? pct((v / s3.total1) * 100) : 'N/A';
+            const statusLabels: Record<db.CategoryChangeStatus, string> = { new: '🆕 New', dropped: '➖ Dropped', continuing: 'Continuing' };
+            const tierLabels: Record<string, string> = { upgraded: '⬆️ Upgraded', downgraded: '⬇️ Downgraded', same_tier: '↔️ Same tier' };
+
+            let output = `# Emissions Change Decomposition\n\n`;
+            output += `**Company:** ${result.company_name} (nz_id: ${result.nz_id})\n`;
+            output += `**Comparing:** ${year1} → ${year2}\n\n`;
+
+            if (result.boundaryChanged) {
+              output += `⚠️ **Organizational boundary changed:** ${result.boundary1 || 'Unknown'} → ${result.boundary2 || 'Unknown'}. Every component below, including like-for-like, mixes real change with the boundary restatement.\n\n`;
+            }
+
+            output += '## Scope 3 Change\n\n';
+            output += `**Reported Total:** ${fmt(s3.total1)} → ${fmt(s3.total2)} tCO₂e`;
+            if (s3.delta !== null) output += ` (${signed(s3.delta)}, ${pct(s3.percentChange)})`;
+            output += '\n\n';
+
+            output += `| Component | Categories | Change (tCO₂e) | % of ${year1} Scope 3 |\n`;
+            output += '|-----------|------------|----------------|--------------------|\n';
+            output += `| Newly reported categories | ${countOf(c => c.status === 'new')} | ${signed(s3.components.newCategories)} | ${ofBase(s3.components.newCategories)} |\n`;
+            output += `| Dropped categories | ${countOf(c => c.status === 'dropped')} | ${signed(s3.components.droppedCategories)} | ${ofBase(s3.components.droppedCategories)} |\n`;
+            output += `| Method changes | ${countOf(c => c.methodChanged)} | ${signed(s3.components.methodChanges)} | ${ofBase(s3.components.methodChanges)} |\n`;
+            output += `| **Like-for-like** | ${countOf(c => c.status === 'continuing' && !c.methodChanged)} | **${signed(s3.components.likeForLike)}** | ${ofBase(s3.components.likeForLike)} |\n`;
+            if (s3.delta !== null && Math.round(s3.components.unallocated) !== 0) {
+              output += `| Not in category breakdown | — | ${signed(s3.components.unallocated)} | ${ofBase(s3.components.unallocated)} |\n`;
+            }
+            output += '\n';
+            if (s3.likeForLikePercent !== null) {
+              output += `**Like-for-like change:** ${pct(s3.likeForLikePercent)} on categories reported with the same method in both years (${fmt(s3.likeForLikeBase)} tCO₂e in ${year1}).\n\n`;
+            } else {
+              output += '**Like-for-like change:** not available - no category was reported with the same method in both years.\n\n';
+            }
+
+            if (s3.categories.length > 0) {
+              output += '### Category Detail\n\n';
+              output += `| Category | Status | ${year1} | ${year2} | Change | Method ${year1} → ${year2} | Tier Change |\n`;
+              output += '|----------|--------|------|------|--------|----------------|-------------|\n';
+              for (const c of s3.categories) {
+                const method = c.methodChanged
+                  ? `${c.method1 || 'Not specified'} → ${c.method2 || 'Not specified'}`
+                  : (c.method2 || c.method1 || '—');
+                output += `| ${c.category}. ${c.name} | ${statusLabels[c.status]} | ${fmt(c.value1)} | ${fmt(c.value2)} | ${signed(c.delta)} | ${method} | ${c.tierChange ? `${tierLabels[c.tierChange]} (${c.tier1} → ${c.tier2})` : '—'} |\n`;
+              }
+              output += '\n';
+            }
+
+            output += '## Scope 1 and 2\n\n';
+            output += `| Scope | ${year1} | ${year2} | Change | Methodology |\n`;
+            output += '|-------|------|------|--------|-------------|\n';
+            const scopeLabels: Record<db.ScopeChange['scope'], string> = { scope1: 'Scope 1', scope2_lb: 'Scope 2 (LB)', scope2_mb: 'Scope 2 (MB)' };
+            for (const sc of result.scopes) {
+              const methodology = sc.methodChanged
+                ? `⚠️ ${sc.methodology1 || 'Not specified'} → ${sc.methodology2 || 'Not specified'}`
+                : (sc.methodology2 || '—');
+              output += `| ${scopeLabels[sc.scope]} | ${fmt(sc.value1)} | ${fmt(sc.value2)} | ${pct(sc.percentChange)} | ${methodology} |\n`;
+            }
+            output += '\n';
+
+            const reporting = s3.components.newCategories + s3.components.droppedCategories + s3.components.methodChanges + s3.components.unallocated;
+            output += '## 📊 Interpretation\n\n';
+            if (s3.delta !== null) {
+              output += `- Of the ${signed(s3.delta)} tCO₂e Scope 3 change, ${signed(reporting)} comes from reporting changes (categories added or dropped, method changes, totals outside the category breakdown) and ${signed(s3.components.likeForLike)} from like-for-like categories.\n`;
+            }
+            if (result.scopes.some(sc => sc.methodChanged)) {
+              output += '- A Scope 1 or 2 methodology changed between these years, so its change is not like-for-like.\n';
+            }
+            output += '- Treat only the like-for-like change as evidence of real reduction or growth, and only when the boundary is unchanged.\n';
+            output += '\n💡 **Next Steps:** Use `nzdpu_analyze analysis=time_series` to see the full history, or `nzdpu_quality` for the method quality of each year.\n';
+
+            return respond(output, { decomposition: result });
           }
 
           case 'peer_trends': {
-            const scope = args?.scope as 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3';
+            const scope = args?.scope as db.PeerTrendScope;
             const jurisdiction = args?.jurisdiction as string | undefined;
             const sics_sector = args?.sics_sector as string | undefined;
             const sics_sub_sector = args?.sics_sub_sector as string | undefined;
             const start_year = args?.start_year as number | undefined;
             const end_year = args?.end_year as number | undefined;
-
-            if (!scope) throw new Error('scope is required for peer_trends analysis');
+            const cohort = (args?.cohort as db.PeerTrendCohort) || 'all';
 
             // Build filters
             const filters = {
@@ -964,7 +1339,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             };
 
             // Get peer trends
-            const trends = db.getPeerTrend(scope, filters, start_year, end_year);
+            const trends = db.getPeerTrend(scope, filters, start_year, end_year, cohort);
 
             if (trends.dataPoints.length === 0) {
               let output = '# Peer Group Time-Series Trend\n\n';
@@ -974,11 +1349,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               if (jurisdiction) output += `- Jurisdiction: ${jurisdiction}\n`;
               if (sics_sector) output += `- Sector: ${sics_sector}\n`;
               if (sics_sub_sector) output += `- Sub-sector: ${sics_sub_sector}\n`;
+              if (cohort === 'constant') output += '- Cohort: constant (companies reporting in every year)\n';
               output += '\n**Suggestions:**\n';
+              if (cohort === 'constant') output += '- Narrow the year range with `start_year`/`end_year`, or use `cohort: "all"` - no company reported in every year\n';
               output += '- Try broader filters (e.g., sector instead of sub-sector)\n';
               output += '- Check if companies in this group have emissions data\n';
               output += '- Use `nzdpu_search` to find companies matching your criteria\n';
-              return { content: [{ type: 'text', text: output }] };
+              return respond(output, { trend: trends });
             }
 
             // Build output
@@ -988,8 +1365,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               scope2_mb: 'Scope 2 (Market-Based)',
               scope3: 'Scope 3 Total',
             };
+            const category = scope.startsWith('scope3_cat_') ? Number(scope.replace('scope3_cat_', '')) : null;
+            const scopeDisplay = category !== null
+              ? `Scope 3 Category ${category} (${MATERIALITY_CATEGORY_NAMES[category]})`
+              : scopeNames[scope];
 
-            let output = `# Peer Group Time-Series Trend: ${scopeNames[scope]}\n\n`;
+            let output = `# Peer Group Time-Series Trend: ${scopeDisplay}\n\n`;
 
             // Show filters
             const activeFilters = [];
@@ -1004,7 +1385,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             }
 
             output += `**Time Range:** ${trends.yearRange.start} - ${trends.yearRange.end} (${trends.yearRange.totalYears} years)\n`;
-            output += `**Data Points:** ${trends.dataPoints.length} years\n\n`;
+            output += `**Data Points:** ${trends.dataPoints.length} years\n`;
+            if (trends.cohort === 'constant') {
+              output += `**Cohort:** Constant - ${trends.cohortSize} ${trends.cohortSize === 1 ? 'company' : 'companies'} reporting in every year with data (balanced panel)\n`;
+            }
+            output += '\n';
 
             // Overall trend summary
             output += '## 📈 Overall Trend\n\n';
@@ -1026,13 +1411,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             if (trends.averageAnnualGrowthRate !== null) {
               output += `- **CAGR:** ${trends.averageAnnualGrowthRate > 0 ? '+' : ''}${trends.averageAnnualGrowthRate.toFixed(2)}%\n`;
             }
+            if (trends.regression) {
+              output += `\n## 📐 Fitted Trend of the Mean\n\n`;
+              output += trendTableHeader + trendRow(trends.cohort === 'constant' ? 'Mean (constant cohort)' : 'Mean', trends.regression);
+              output += `\n${trendNote}`;
+            }
+
+            // How much of the all-company change is companies entering or leaving the dataset
+            if (trends.composition) {
+              const c = trends.composition;
+              const fmtChange = (v: number) => `${v > 0 ? '+' : ''}${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+              output += `\n## 🔀 Composition vs Like-for-Like Change (${c.startYear}-${c.endYear})\n\n`;
+              output += '| Change | All Companies | Constant Cohort | Composition |\n';
+              output += '|--------|---------------|-----------------|-------------|\n';
+              output += `| Mean (tCO₂e) | ${fmtChange(c.unbalancedMeanChange)} | ${fmtChange(c.cohortMeanChange)} | ${fmtChange(c.compositionMeanChange)} |\n`;
+              output += `| Sum (tCO₂e) | ${fmtChange(c.unbalancedSumChange)} | ${fmtChange(c.cohortSumChange)} | ${fmtChange(c.compositionSumChange)} |\n\n`;
+              if (c.compositionShare !== null && c.compositionShare >= 0 && c.compositionShare <= 100) {
+                output += `- **${c.compositionShare.toFixed(0)}%** of the change in the all-company mean comes from composition rather than like-for-like change\n`;
+              } else if (c.compositionShare !== null) {
+                output += '- Composition and like-for-like change pull in opposite directions; use the constant-cohort figures for real change\n';
+              }
+              output += `- Outside the cohort: ${c.leavers} companies in ${c.startYear}, ${c.entrants} in ${c.endYear}\n`;
+            }
 
             output += '\n## 📊 Year-by-Year Statistics\n\n';
-            output += '| Year | Companies | Mean (tCO₂e) | Median (tCO₂e) | Min | Max |\n';
-            output += '|------|-----------|--------------|----------------|-----|-----|\n';
+            output += '| Year | Companies | Sum (tCO₂e) | Mean (tCO₂e) | Median (tCO₂e) | Min | Max |\n';
+            output += '|------|-----------|-------------|--------------|----------------|-----|-----|\n';
 
             for (const point of trends.dataPoints) {
-              output += `| ${point.year} | ${point.count} | ${point.mean.toLocaleString(undefined, { maximumFractionDigits: 0 })} | ${point.median.toLocaleString(undefined, { maximumFractionDigits: 0 })} | ${point.min.toLocaleString(undefined, { maximumFractionDigits: 0 })} | ${point.max.toLocaleString(undefined, { maximumFractionDigits: 0 })} |\n`;
+              output += `| ${point.year} | ${point.count} | ${point.sum.toLocaleString(undefined, { maximumFractionDigits: 0 })} | ${point.mean.toLocaleString(undefined, { maximumFractionDigits: 0 })} | ${point.median.toLocaleString(undefined, { maximumFractionDigits: 0 })} | ${point.min.toLocaleString(undefined, { maximumFractionDigits: 0 })} | ${point.max.toLocaleString(undefined, { maximumFractionDigits: 0 })} |\n`;
             }
 
             output += '\n## 📉 Interpretation\n\n';
@@ -1047,6 +1454,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               output += '- Successful decarbonization initiatives\n';
               output += '- Improved energy efficiency\n';
               output += '- Business model changes or reduced operations\n';
+            } else if (trends.overallTrendDirection === 'stable' && trends.regression) {
+              output += `➡️ **No statistically significant trend** across this peer group (Mann-Kendall p = ${trends.regression.mannKendall.pValue.toFixed(2)}). Year-to-year movements are within what noise could produce; more years or a narrower peer group may resolve a direction.\n`;
             } else if (trends.overallTrendDirection === 'stable') {
               output += '➡️ **Emissions are stable** across this peer group over time. This could indicate:\n';
               output += '- Balance between growth and efficiency improvements\n';
@@ -1059,65 +1468,340 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             output += '- Check specific companies with `nzdpu_emissions` for detailed breakdowns\n';
             output += '- Review methodologies with `nzdpu_quality` to ensure data comparability\n';
 
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { trend: trends });
+          }
+
+          case 'company_trend': {
+            const companyId = args?.company_id as number;
+            const start_year = args?.start_year as number | undefined;
+            const end_year = args?.end_year as number | undefined;
+
+            const result = db.getCompanyTrend(companyId, start_year, end_year);
+            if (!result) throw companyNotFound(companyId);
+            if (result.series.length === 0) throw emissionsNotFound(companyId);
+
+            let output = `# Emissions Trend: ${result.company_name}\n\n`;
+            output += `**nz_id:** ${companyId}\n`;
+            output += `**Years Reported:** ${result.series.map(p => p.year).join(', ')}\n\n`;
+
+            output += '## 📐 Fitted Trends\n\n';
+            output += trendTableHeader;
+            output += trendRow('Scope 1', result.trends.scope1);
+            output += trendRow('Scope 2 (LB)', result.trends.scope2_lb);
+            output += trendRow('Scope 2 (MB)', result.trends.scope2_mb);
+            output += trendRow('Scope 3', result.trends.scope3);
+            output += `\n${trendNote}`;
+
+            output += '\n## 📊 Reported Emissions (tCO₂e)\n\n';
+            output += '| Year | Scope 1 | Scope 2 (LB) | Scope 2 (MB) | Scope 3 | Boundary |\n';
+            output += '|------|---------|--------------|--------------|---------|----------|\n';
+            const fmt = (v: number | null) => v !== null ? Math.round(v).toLocaleString() : '—';
+            for (const p of result.series) {
+              output += `| ${p.year} | ${fmt(p.scope1)} | ${fmt(p.scope2_lb)} | ${fmt(p.scope2_mb)} | ${fmt(p.scope3)} | ${p.boundary || '—'} |\n`;
+            }
+
+            if (result.boundaryChanges.length > 0) {
+              output += `\n⚠️ **Organizational boundary changed in ${result.boundaryChanges.join(', ')}.** Slopes across a boundary change mix real change with restatement; check \`nzdpu_quality\` before quoting them.\n`;
+            }
+
+            output += '\n💡 **Next Steps:** Use `nzdpu_analyze analysis=year_comparison` for two specific years, or `analysis=peer_trends` to compare with the sector trend.\n';
+
+            return respond(output, { companyTrend: result });
+          }
+
+          case 'time_series': {
+            const companyId = args?.company_id as number;
+            const start_year = args?.start_year as number | undefined;
+            const end_year = args?.end_year as number | undefined;
+
+            const result = db.getCompanyTimeSeries(companyId, start_year, end_year);
+            if (!result) throw companyNotFound(companyId);
+            if (result.years.length === 0) throw emissionsNotFound(companyId);
+
+            const markerIcons: Record<db.TimeSeriesMarker['kind'], string> = { methodology: '📐', boundary: '🏢', verification: '✅' };
+            const markersIn = (year: number) => result.markers.filter(m => m.year === year);
+            const fmt = (v: number | null) => v !== null ? Math.round(v).toLocaleString() : '—';
+            const pct = (v: number | null) => v !== null ? `${v >= 0 ? '+' : ''}${v.toFixed(1)}%` : '—';
+            const cagrCell = (r: db.TimeSeriesRow) => r.cagr !== null ? `${pct(r.cagr)}/yr (${r.cagrStartYear}–${r.cagrEndYear})` : '—';
+            const yearHeader = result.years.map(y => markersIn(y).length > 0 ? `${y} ⚑` : `${y}`);
+            const divider = `|-------|${result.years.map(() => '------').join('|')}|------|\n`;
+
+            let output = `# Emissions Time Series: ${result.company_name}\n\n`;
+            output += `**nz_id:** ${companyId}\n`;
+            output += `**Years Reported:** ${result.years.join(', ')}\n`;
+            output += `**Scope 3 Categories Reported:** ${result.rows.filter(r => r.key.startsWith('scope3_cat_')).length} of 15\n\n`;
+
+            output += '## 📊 Reported Emissions (tCO₂e)\n\n';
+            output += `| Scope | ${yearHeader.join(' | ')} | CAGR |\n`;
+            output += divider;
+            for (const r of result.rows) {
+              output += `| ${r.label} | ${r.values.map(v => fmt(v.value)).join(' | ')} | ${cagrCell(r)} |\n`;
+            }
+            output += `| *Changes* | ${result.years.map(y => {
+              const icons = [...new Set(markersIn(y).map(m => markerIcons[m.kind]))];
+              return icons.join(' ') || '';
+            }).join(' | ')} | |\n`;
+            output += '\n*CAGR runs from the first to the last reported value of each row; "—" when they are fewer than two years apart. ⚑ marks a year with a methodology (📐), boundary (🏢) or verification (✅) change.*\n\n';
+
+            if (result.years.length > 1) {
+              output += '## 📈 Year-over-Year Change\n\n';
+              output += `| Scope | ${result.years.slice(1).map((y, i) => `${result.years[i]}→${y}`).join(' | ')} |\n`;
+              output += `|-------|${result.years.slice(1).map(() => '------').join('|')}|\n`;
+              for (const r of result.rows) {
+                const cells = r.values.slice(1).map(v => v.delta !== null
+                  ? `${v.delta >= 0 ? '+' : ''}${Math.round(v.delta).toLocaleString()} (${pct(v.percentChange)})`
+                  : '—');
+                output += `| ${r.label} | ${cells.join(' | ')} |\n`;
+              }
+              output += '\n';
+            }
+
+            if (result.markers.length > 0) {
+              output += '## ⚑ Change Markers\n\n';
+              for (const year of [...new Set(result.markers.map(m => m.year))]) {
+                output += `**${year}:**\n`;
+                for (const m of markersIn(year)) {
+                  output += `- ${markerIcons[m.kind]} ${m.scope}: ${m.previous || 'Not specified'} → ${m.current || 'Not specified'}\n`;
+                }
+              }
+              output += '\n⚠️ Changes across a marked year may reflect restatement or reporting differences rather than real emissions change.\n';
+            }
+
+            output += '\n💡 **Next Steps:** Use `nzdpu_analyze analysis=company_trend` for fitted slopes, or `nzdpu_quality` to review the methodology behind marked years.\n';
+
+            return respond(output, { timeSeries: result });
+          }
+
+          case 'target_progress': {
+            const companyId = args?.company_id as number;
+
+            const company = db.getCompanyById(companyId);
+            if (!company) throw companyNotFound(companyId);
+
+            let output = `# Target Progress: ${company.company_name}\n\n`;
+            output += `**nz_id:** ${companyId}\n\n`;
+
+            if (!db.hasTargetsData()) {
+              output += '⚠️ This database was built before targets were stored. Rebuild with `npm run build-db` to enable target progress tracking.\n';
+              return respond(output, { company, progress: [] });
+            }
+
+            const progress = db.getTargetProgress(companyId);
+            if (progress.length === 0) {
+              output += '*No reduction targets found in this company\'s disclosures.*\n\n';
+              output += '💡 Use `nzdpu_targets` to find companies with declared targets.\n';
+              return respond(output, { company, progress: [] });
+            }
+
+            const statusLabels: Record<string, string> = {
+              ahead: '✅ Ahead of pathway',
+              on_track: '✅ On track',
+              behind: '❌ Behind pathway',
+              achieved: '🎯 Target level reached',
+              no_base_year: '❓ Base year not reported',
+              no_progress_data: '❓ No data after base year',
+              not_trackable: '➖ Not trackable',
+            };
+            const fmt = (v: number | null) => v !== null ? v.toLocaleString(undefined, { maximumFractionDigits: 0 }) : 'N/A';
+
+            output += '## Summary\n\n';
+            output += '| Target | Scope | Status | Latest Year | Reduction So Far | Pathway Requires | Needed From Now |\n';
+            output += '|--------|-------|--------|-------------|------------------|------------------|-----------------|\n';
+            for (const p of progress) {
+              const actual = p.actualReductionPercent !== null ? `${p.actualReductionPercent.toFixed(1)}%` : 'N/A';
+              const required = p.requiredReductionPercent !== null ? `${p.requiredReductionPercent.toFixed(1)}%` : 'N/A';
+              const rate = p.requiredAnnualRate !== null ? `${p.requiredAnnualRate.toFixed(1)}%/yr` : 'N/A';
+              output += `| ${db.formatTargetLabel(p.target)} | ${p.scopeLabel || p.target.target_scope || '—'} | ${statusLabels[p.status]} | ${p.latestYear || '—'} | ${actual} | ${required} | ${rate} |\n`;
+            }
+
+            for (const p of progress) {
+              output += `\n## ${db.formatTargetLabel(p.target)} (${p.target.target_type}, ${p.target.target_scope || 'scope not stated'})\n\n`;
+              output += `**Status:** ${statusLabels[p.status]}\n`;
+              if (p.statusReason) output += `**Note:** ${p.statusReason}\n`;
+
+              if (p.baseValue !== null && p.latestValue !== null) {
+                output += '\n| Measure | tCO₂e |\n';
+                output += '|---------|-------|\n';
+                output += `| Base year (${p.target.base_year}) | ${fmt(p.baseValue)} |\n`;
+                output += `| Latest reported (${p.latestYear}) | ${fmt(p.latestValue)} |\n`;
+                output += `| Linear pathway allows in ${p.latestYear} | ${fmt(p.pathwayValue)} |\n`;
+                output += `| Target level (${p.target.target_year}) | ${fmt(p.targetValue)} |\n`;
+                if (p.requiredAnnualRate !== null && p.status !== 'achieved') {
+                  output += p.targetValue === 0
+                    ? `\n📉 Reaching zero by ${p.target.target_year} now requires cutting **${p.requiredAnnualRate.toFixed(1)}% of ${p.latestYear} emissions each year** (linear).\n`
+                    : `\n📉 Reaching the target now requires a **${p.requiredAnnualRate.toFixed(1)}% reduction per year** (compound) from ${p.latestYear} to ${p.target.target_year}.\n`;
+                }
+              }
+
+              if (p.changesSinceBaseYear.length > 0) {
+                output += `\n⚠️ **Changes since base year:** the following boundary or methodology changes were reported after ${p.target.base_year}. NZDPU does not show whether the ${p.target.base_year} figures were recalculated for them, so progress may partly reflect methodology rather than real reductions.\n\n`;
+                for (const c of p.changesSinceBaseYear) {
+                  output += `- ${c.year}: ${c.scope}: ${c.previousMethod || 'Not specified'} → ${c.currentMethod || 'Not specified'}\n`;
+                }
+              }
+            }
+
+            output += '\n## 📊 Method\n\n';
+            output += '- **Pathway:** straight line from base-year emissions to the target level in the target year\n';
+            output += `- **On track:** reduction so far within ±${db.ON_TRACK_TOLERANCE_PP} percentage points of what the pathway requires by the latest year (more is ahead, less is behind)\n`;
+            output += '- **Needed from now:** compound annual reduction from the latest reported year to the target level (for a 100% target, an equal share of latest-year emissions each year)\n';
+            output += '- Only absolute targets are tracked; intensity targets need activity data not held in NZDPU\n';
+
+            output += '\n---\n';
+            output += TARGETS_DISCLAIMER;
+            output += `\n\n💡 **Next Steps:** Use \`nzdpu_quality company_id=${companyId}\` to review methodology changes and \`nzdpu_analyze analysis=year_comparison\` for scope-level changes.\n`;
+
+            return respond(output, { company, progress }, [TARGETS_DISCLAIMER]);
           }
 
           default:
-            throw new Error(`Unknown analysis: ${analysis}. Use: overview, top_emitters, disclosure, data_issues, year_comparison, or peer_trends`);
+            throw new ToolError('INVALID_ARGUMENTS', `Unknown analysis: ${analysis}. Use: overview, top_emitters, disclosure, data_issues, outliers, year_comparison, change_decomposition, peer_trends, company_trend, time_series, or target_progress`);
         }
       }
 
       // ============ 5. BENCHMARK ============
       case 'nzdpu_benchmark': {
         const mode = args?.mode as string;
-        if (!mode) throw new Error('mode is required: single, compare, or peer_stats');
+        // Explicit peer definition shared by single and peer_stats
+        const peerDefinition: db.PeerDefinition = {
+          sics_level: args?.sics_level as db.SicsLevel | undefined,
+          sics_sector: args?.sector as string | undefined,
+          sics_sub_sector: args?.sub_sector as string | undefined,
+          sics_industry: args?.industry as string | undefined,
+          jurisdiction: args?.jurisdiction as string | undefined,
+          region: args?.region as db.PeerDefinition['region'],
+          size_band: args?.size_band as db.SizeBand | undefined,
+          verification: args?.verification as string | undefined,
+          boundary: args?.boundary as string | undefined,
+          peer_ids: args?.peer_ids as number[] | undefined,
+        };
+        const comparableOnly = args?.comparable_only === true;
+        // Scope 3 categories are named, e.g. "Scope 3 Category 15 (Investments)"
+        const scopeLabel = (scope: string) => {
+          if (!scope.startsWith('scope3_cat_')) {
+            return ({ scope1: 'Scope 1', scope2_lb: 'Scope 2 (Location-Based)', scope2_mb: 'Scope 2 (Market-Based)', scope3: 'Scope 3 Total' } as Record<string, string>)[scope];
+          }
+          const category = Number(scope.replace('scope3_cat_', ''));
+          return `Scope 3 Category ${category} (${MATERIALITY_CATEGORY_NAMES[category]})`;
+        };
+        // Footnote on which peers drop out of a ratio metric
+        const metricNote = (metric: db.IntensityMetric) => metric === 'category_share'
+          ? 'Peers without a Scope 3 total for the year are excluded; each share uses that company\'s own Scope 3 total, so differences in category coverage affect it.'
+          : `Peers without the denominator are excluded. Revenues converted to USD at ${FX_RATES_AS_OF} rates; denominators come from the same disclosure as the emissions.`;
+        // What comparable_only compared against and how many peers it removed
+        const formatComparability = (filter: db.ComparabilityFilter) => {
+          const ref = filter.reference;
+          let profile = `year ${ref.year}, boundary ${ref.boundary ? `"${ref.boundary}"` : 'not reported'}`;
+          if (ref.scope3Categories) profile += `, Scope 3 categories ${ref.scope3Categories.length > 0 ? ref.scope3Categories.join(', ') : 'none'}`;
+          const reasons = Object.entries(filter.excluded).filter(([, n]) => n > 0)
+            .map(([reason, n]) => `${reason === 'scope3_coverage' ? 'Scope 3 coverage' : reason}: ${n}`);
+          return `matching ${ref.source === 'company' ? 'the company' : 'most peers'} (${profile}); ` +
+            `${filter.excludedPeers.length} excluded${reasons.length > 0 ? ` (${reasons.join(', ')})` : ''}`;
+        };
+        // Membership table, largest first; the benchmarked company is shown in bold
+        const formatPeerMembers = (group: db.PeerGroup, fmt: (v: number) => string, limit: number, companyId?: number) => {
+          if (group.members.length === 0) return '';
+          let table = `\n### Peer Members (${Math.min(limit, group.members.length)} of ${group.members.length})\n\n`;
+          table += `| Company | nz_id | Jurisdiction | Industry | Year | Value |\n`;
+          table += `|---------|-------|--------------|----------|------|-------|\n`;
+          for (const m of group.members.slice(0, limit)) {
+            const name = m.nz_id === companyId ? `**${m.company_name}**` : m.company_name;
+            table += `| ${name} | ${m.nz_id} | ${m.jurisdiction || '—'} | ${m.sics_industry || '—'} | ${m.year} | ${fmt(m.value)} |\n`;
+          }
+          if (group.missingPeerIds.length > 0) {
+            table += `\n⚠️ No qualifying data for peer_ids: ${group.missingPeerIds.join(', ')}\n`;
+          }
+          return table;
+        };
 
         switch (mode) {
           case 'single': {
             const companyId = args?.company_id as number;
-            const scope = (args?.scope as 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3') || 'scope1';
+            const scope = (args?.scope as db.PeerScope) || 'scope1';
             const year = args?.year as number | undefined;
+            const metric = (args?.metric as db.IntensityMetric) || 'absolute';
             
-            if (!companyId) throw new Error('company_id is required for single mode');
-            
-            const result = db.benchmarkCompany(companyId, scope, year);
+            const result = db.benchmarkCompany(companyId, scope, year, metric, comparableOnly);
             // FIX-L4: Enhanced error message
-            if (!result) throw new Error(`Company with nz_id ${companyId} not found or has no emissions data. Use nzdpu_search to find companies.`);
+            if (!result) {
+              if (!db.getCompanyById(companyId)) throw companyNotFound(companyId);
+              throw emissionsNotFound(companyId, year);
+            }
+            const outlier = db.getCompanyOutlierCheck(companyId, scope, result.companyYear);
+            const peerGroup = db.hasPeerDefinition(peerDefinition)
+              ? db.buildPeerGroup(scope, peerDefinition, {
+                year: result.companyYear,
+                metric,
+                anchor: { company: result.company, value: result.companyValue, absoluteValue: result.companyAbsoluteValue },
+                comparableOnly,
+              })
+              : null;
+            const materialCategories = scope.startsWith('scope3') ? db.benchmarkMaterialCategories(result.company, result.companyYear) : null;
             
-            const scopeNames: Record<string, string> = {
-              scope1: 'Scope 1',
-              scope2_lb: 'Scope 2 (Location-Based)',
-              scope2_mb: 'Scope 2 (Market-Based)',
-              scope3: 'Scope 3 Total',
+            const unit = db.METRIC_UNITS[metric];
+            const fmtStat = (v: number) => metric === 'absolute'
+              ? Math.round(v).toLocaleString()
+              : v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+            // Skew-resistant figures and the small-sample caveat for one peer group
+            const robustLines = (stats: PeerGroupStats, comparability?: db.ComparabilityFilter | null) => {
+              let lines = '';
+              if (comparability) lines += `- Comparable peers only: ${formatComparability(comparability)}\n`;
+              if (stats.geometricMean != null) lines += `- Geometric Mean: ${fmtStat(stats.geometricMean)} ${unit}\n`;
+              if (stats.medianCI) {
+                lines += `- Median ${Math.round(stats.medianCI.level * 100)}% CI (bootstrap): ${fmtStat(stats.medianCI.lower)} - ${fmtStat(stats.medianCI.upper)} ${unit}\n`;
+              }
+              if (stats.sampleWarning) lines += `- ⚠️ ${stats.sampleWarning}\n`;
+              return lines;
             };
             
             // FIX-L2: Add scope to title for clarity
-            let output = `# Benchmark: ${result.company.company_name} (${scopeNames[scope]})\n\n`;
-            output += `**Benchmarking Scope:** ${scopeNames[scope]}\n`;
+            let output = `# Benchmark: ${result.company.company_name} (${scopeLabel(scope)})\n\n`;
+            output += `**Benchmarking Scope:** ${scopeLabel(scope)}\n`;
+            if (materialCategories && scope.startsWith('scope3_cat_')) {
+              const category = Number(scope.replace('scope3_cat_', ''));
+              const material = materialCategories.categories.some(c => c.category === category);
+              output += `**Materiality:** ${material ? '⭐ Material' : 'Not among the material categories'} for ${materialCategories.materialityKey ?? 'this sector (default set)'}\n`;
+            }
             output += `**Year:** ${result.companyYear}\n`;
-            output += `**Company Value:** ${result.companyValue?.toLocaleString() || 'N/A'} tCO₂e\n\n`;
+            if (metric === 'absolute') {
+              output += `**Company Value:** ${result.companyValue?.toLocaleString() || 'N/A'} tCO₂e\n\n`;
+            } else {
+              output += `**Metric:** ${unit}\n`;
+              output += `**Company Value:** ${result.companyValue !== null ? fmtStat(result.companyValue) : 'N/A'} ${unit}`;
+              output += ` (${result.companyAbsoluteValue?.toLocaleString() || 'N/A'} tCO₂e absolute)\n`;
+              if (result.companyValue === null) {
+                const missing = metric === 'per_revenue' ? 'revenue (in a supported currency)'
+                  : metric === 'per_employee' ? 'employee count'
+                  : 'Scope 3 total or value for this category';
+                output += `\n⚠️ No ${missing} reported in this company's ${result.companyYear} disclosure, so its ${metric === 'category_share' ? 'share' : 'intensity'} cannot be ranked.\n`;
+              }
+              output += `*${metricNote(metric)}*\n\n`;
+            }
             
             if (result.jurisdictionStats) {
               output += `## ${result.company.jurisdiction} Peers\n`;
               output += `- Peer Count: ${result.jurisdictionStats.count}\n`;
-              output += `- Mean: ${Math.round(result.jurisdictionStats.mean).toLocaleString()} tCO₂e\n`;
-              output += `- Median: ${Math.round(result.jurisdictionStats.median).toLocaleString()} tCO₂e\n`;
+              output += `- Mean: ${fmtStat(result.jurisdictionStats.mean)} ${unit}\n`;
+              output += `- Median: ${fmtStat(result.jurisdictionStats.median)} ${unit}\n`;
+              output += robustLines(result.jurisdictionStats, result.comparability?.jurisdiction);
               output += `- **Company Percentile: ${result.percentileInJurisdiction}%**\n\n`;
             }
             
             if (result.sectorStats) {
               output += `## ${result.company.sics_sector} Peers\n`;
               output += `- Peer Count: ${result.sectorStats.count}\n`;
-              output += `- Mean: ${Math.round(result.sectorStats.mean).toLocaleString()} tCO₂e\n`;
-              output += `- Median: ${Math.round(result.sectorStats.median).toLocaleString()} tCO₂e\n`;
+              output += `- Mean: ${fmtStat(result.sectorStats.mean)} ${unit}\n`;
+              output += `- Median: ${fmtStat(result.sectorStats.median)} ${unit}\n`;
+              output += robustLines(result.sectorStats, result.comparability?.sector);
               output += `- **Company Percentile: ${result.percentileInSector}%**\n\n`;
             }
             
             if (result.combinedStats && result.combinedStats.count >= 3) {
               output += `## ${result.company.jurisdiction} + ${result.company.sics_sector} Peers\n`;
               output += `- Peer Count: ${result.combinedStats.count}\n`;
-              output += `- Mean: ${Math.round(result.combinedStats.mean).toLocaleString()} tCO₂e\n`;
-              output += `- Median: ${Math.round(result.combinedStats.median).toLocaleString()} tCO₂e\n`;
+              output += `- Mean: ${fmtStat(result.combinedStats.mean)} ${unit}\n`;
+              output += `- Median: ${fmtStat(result.combinedStats.median)} ${unit}\n`;
+              output += robustLines(result.combinedStats, result.comparability?.combined);
               output += `- **Company Percentile: ${result.percentileInCombined}%**\n`;
             } else if (result.combinedStats && result.combinedStats.count < 3) {
               // FIX-L1: Add warning when intersection benchmark not shown
@@ -1126,6 +1810,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               output += `Minimum 3 peers required for statistical significance.\n`;
             }
 
+            // Explicit peer definition (SICS level, region, size band, verification, boundary, peer_ids)
+            if (peerGroup) {
+              output += `\n## Custom Peer Group\n`;
+              output += `**Definition:** ${[...peerGroup.criteria, `Year: ${result.companyYear}`].join(' | ')}\n`;
+              if (peerGroup.stats) {
+                output += `- Peer Count: ${peerGroup.stats.count}\n`;
+                output += `- Mean: ${fmtStat(peerGroup.stats.mean)} ${unit}\n`;
+                output += `- Median: ${fmtStat(peerGroup.stats.median)} ${unit}\n`;
+                output += robustLines(peerGroup.stats, peerGroup.comparability);
+                if (peerGroup.percentile !== null) output += `- **Company Percentile: ${peerGroup.percentile}%**\n`;
+              } else {
+                output += `- No peers match this definition.\n`;
+              }
+              output += formatPeerMembers(peerGroup, fmtStat, (args?.limit as number) || 20, companyId);
+            }
+
+            // Material Scope 3 categories for the sector, as shares of Scope 3 against sector peers
+            if (materialCategories) {
+              const fmtShare = (v: number | null) => v !== null ? `${v.toFixed(1)}%` : '—';
+              output += `\n## Material Scope 3 Categories (${materialCategories.sector} Peers, ${materialCategories.year})\n`;
+              output += `*${materialCategories.materialityKey ? `Material for ${materialCategories.materialityKey}` : 'Sector not in the materiality knowledge base; default set'}: ${materialCategories.reasoning}*\n\n`;
+              output += `| Category | Company Share | Peer Median Share | Peers | Percentile |\n`;
+              output += `|----------|---------------|-------------------|-------|------------|\n`;
+              for (const c of materialCategories.categories) {
+                const name = `scope3_cat_${c.category}` === scope ? `**${c.category}. ${c.name}**` : `${c.category}. ${c.name}`;
+                output += `| ${name} | ${fmtShare(c.companyShare)} | ${fmtShare(c.peerMedianShare)} | ${c.peerCount} | ${c.percentile !== null ? `${c.percentile}%` : '—'} |\n`;
+              }
+              output += `\n*Share = category as % of each company's own Scope 3 total. Peers that do not report a category are not counted for it.*\n`;
+            }
+
+            // Robust z-score against the same SICS industry and year (absolute tCO₂e)
+            if (outlier) {
+              output += `\n## Industry Outlier Check\n`;
+              output += `- ${outlier.sics_industry}, ${outlier.year}: ${outlier.peerCount} companies, median ${Math.round(outlier.peerMedian).toLocaleString()} tCO₂e\n`;
+              output += `- Robust z-score (log scale): ${outlier.zScore}\n`;
+              output += outlier.isOutlier
+                ? `- ⚠️ **Outlier (${outlier.direction})** - implausible relative to industry peers; check units and boundary with \`nzdpu_quality\` before relying on this benchmark\n`
+                : `- Within the normal range for the industry\n`;
+            }
+
             // Add gating disclaimer for benchmarks
             output += '\n---\n';
             output += BENCHMARK_DISCLAIMER;
@@ -1133,7 +1857,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             output += `- Use \`nzdpu_emissions company_id=${companyId}\` to see Scope 3 category coverage\n`;
             output += `- Use \`nzdpu_quality company_id=${companyId}\` to assess data quality\n`;
 
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { scope, metric, unit, ...result, outlier, peerGroup, materialCategories }, [BENCHMARK_DISCLAIMER]);
           }
           
           case 'compare': {
@@ -1159,7 +1883,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             }
             
             if (nzIds.length === 0) {
-              return { content: [{ type: 'text', text: 'No companies found matching the criteria.' }] };
+              return respond('No companies found matching the criteria.', { companies: [] });
             }
             
             // Use enhanced comparison with Scope 3 coverage
@@ -1271,58 +1995,177 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             output += '- Use `nzdpu_emissions company_id=X` to see full Scope 3 category breakdown\n';
             output += '- Use `nzdpu_quality company_id=X` to assess methodology and verification\n';
             output += '- Use `nzdpu_learn topic=scope3` to understand what each category measures\n';
-            output += '\n📚 **Note:** S2-LB (location-based) and S2-MB (market-based) cannot be compared against each other.';
+            const scope2Note = 'S2-LB (location-based) and S2-MB (market-based) cannot be compared against each other.';
+            output += `\n📚 **Note:** ${scope2Note}`;
             
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, {
+              companies: results.companies,
+              quality: qualityComparison.companies,
+              scope3VarianceWarning: results.scope3VarianceWarning,
+              comparabilityWarnings: [...new Set(allWarnings)],
+            }, [BENCHMARK_DISCLAIMER, scope2Note]);
           }
           
           case 'peer_stats': {
-            const jurisdiction = args?.jurisdiction as string | undefined;
-            const sector = args?.sector as string | undefined;
-            const scope = (args?.scope as 'scope1' | 'scope2_lb' | 'scope2_mb' | 'scope3') || 'scope1';
+            const scope = (args?.scope as db.PeerScope) || 'scope1';
             const year = args?.year as number | undefined;
+            const metric = (args?.metric as db.IntensityMetric) || 'absolute';
+            const filters = { ...peerDefinition, year };
             
-            if (!jurisdiction && !sector) {
-              throw new Error('At least one of jurisdiction or sector must be provided');
-            }
-            
-            const stats = db.getPeerStatistics(scope, { jurisdiction, sics_sector: sector, year });
+            const peerGroup = db.buildPeerGroup(scope, peerDefinition, { year, metric, comparableOnly });
+            const stats = peerGroup.stats;
             
             if (!stats) {
-              return { content: [{ type: 'text', text: 'No data found for the specified filters.' }] };
+              let output = 'No data found for the specified filters.';
+              if (peerGroup.missingPeerIds.length > 0) output += ` No qualifying data for peer_ids: ${peerGroup.missingPeerIds.join(', ')}.`;
+              return respond(output, { scope, metric, unit: db.METRIC_UNITS[metric], filters, stats: null, peerGroup });
             }
             
-            const scopeNames: Record<string, string> = {
-              scope1: 'Scope 1',
-              scope2_lb: 'Scope 2 (Location-Based)',
-              scope2_mb: 'Scope 2 (Market-Based)',
-              scope3: 'Scope 3 Total',
-            };
-            
             let output = `# Peer Group Statistics\n\n`;
-            const filters = [];
-            if (jurisdiction) filters.push(`Jurisdiction: ${jurisdiction}`);
-            if (sector) filters.push(`Sector: ${sector}`);
-            if (year) filters.push(`Year: ${year}`);
-            output += `**Filters:** ${filters.join(', ')}\n`;
-            output += `**Scope:** ${scopeNames[scope]}\n`;
+            output += `**Filters:** ${[...peerGroup.criteria, ...(year ? [`Year: ${year}`] : [])].join(', ')}\n`;
+            output += `**Scope:** ${scopeLabel(scope)}\n`;
+            if (peerGroup.comparability) {
+              output += `**Comparable peers only:** ${formatComparability(peerGroup.comparability)}\n`;
+            }
             output += `**Companies with Data:** ${stats.count}\n\n`;
             
-            output += `## Statistics (tCO₂e)\n\n`;
+            const fmtStat = (v: number) => metric === 'absolute'
+              ? Math.round(v).toLocaleString()
+              : v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+            
+            output += `## Statistics (${db.METRIC_UNITS[metric]})\n\n`;
             output += `| Metric | Value |\n|--------|-------|\n`;
-            output += `| Mean | ${Math.round(stats.mean).toLocaleString()} |\n`;
-            output += `| Median | ${Math.round(stats.median).toLocaleString()} |\n`;
-            output += `| Std Dev | ${Math.round(stats.stdDev).toLocaleString()} |\n`;
-            output += `| Min | ${Math.round(stats.min).toLocaleString()} |\n`;
-            output += `| Max | ${Math.round(stats.max).toLocaleString()} |\n`;
-            output += `| 25th Percentile | ${Math.round(stats.percentile25).toLocaleString()} |\n`;
-            output += `| 75th Percentile | ${Math.round(stats.percentile75).toLocaleString()} |\n`;
+            output += `| Mean | ${fmtStat(stats.mean)} |\n`;
+            output += `| Median | ${fmtStat(stats.median)} |\n`;
+            output += `| Std Dev | ${fmtStat(stats.stdDev)} |\n`;
+            output += `| Min | ${fmtStat(stats.min)} |\n`;
+            output += `| Max | ${fmtStat(stats.max)} |\n`;
+            output += `| 25th Percentile | ${fmtStat(stats.percentile25)} |\n`;
+            output += `| 75th Percentile | ${fmtStat(stats.percentile75)} |\n`;
             
-            return { content: [{ type: 'text', text: output }] };
+            // Emissions are heavily right-skewed: a few giants dominate the mean and std dev
+            output += `\n## Robust Statistics\n\n`;
+            output += `| Metric | Value |\n|--------|-------|\n`;
+            if (stats.geometricMean != null) output += `| Geometric Mean | ${fmtStat(stats.geometricMean)} |\n`;
+            if (stats.logStdDev != null) output += `| Log-scale Std Dev (ln) | ${stats.logStdDev.toFixed(2)} |\n`;
+            if (stats.trimmedMean !== undefined) output += `| Trimmed Mean (10%) | ${fmtStat(stats.trimmedMean)} |\n`;
+            if (stats.winsorizedMean !== undefined) output += `| Winsorized Mean (10%) | ${fmtStat(stats.winsorizedMean)} |\n`;
+            if (stats.iqr !== undefined) output += `| Interquartile Range | ${fmtStat(stats.iqr)} |\n`;
+            if (stats.medianCI) {
+              output += `| Median ${Math.round(stats.medianCI.level * 100)}% CI (bootstrap, ${stats.medianCI.resamples} resamples) | ${fmtStat(stats.medianCI.lower)} - ${fmtStat(stats.medianCI.upper)} |\n`;
+            }
+            if (stats.deciles) {
+              output += `\n**Deciles (10th-90th):** ${stats.deciles.map(fmtStat).join(' | ')}\n`;
+            }
+            if (stats.sampleWarning) {
+              output += `\n⚠️ **Small sample:** ${stats.sampleWarning}\n`;
+            }
+            
+            output += formatPeerMembers(peerGroup, fmtStat, (args?.limit as number) || 20);
+            
+            if (metric !== 'absolute') {
+              output += `\n*${metricNote(metric)}*\n`;
+            }
+            
+            return respond(output, { scope, metric, unit: db.METRIC_UNITS[metric], filters, stats, peerGroup });
+          }
+          
+          case 'pathway': {
+            const coverage = (args?.coverage as db.PathwayCoverage) || 'scope1_2';
+            const nzIds = [...new Set([
+              ...(args?.company_id ? [args.company_id as number] : []),
+              ...((args?.company_ids as number[] | undefined) || []),
+            ])];
+
+            const result = db.getPortfolioPathwayAlignment(nzIds, coverage);
+            if (nzIds.length === 1 && result.companies.length === 0) throw companyNotFound(nzIds[0]);
+
+            const deg = (t: number | null) => t !== null ? `${t.toFixed(1)}°C` : 'N/A';
+            const rate = (v: number | null) => v !== null ? `${v.toFixed(1)}%/yr` : '—';
+            const coverageLabel = (c: db.CompanyPathwayAlignment) =>
+              `Scope 1 + Scope 2 (${c.scope2Method === 'scope2_mb' ? 'MB' : 'LB'})${coverage === 'scope1_2_3' ? ' + Scope 3' : ''}`;
+            const trajectoryBasis = (t: db.TrajectoryScore) =>
+              `${t.startYear}–${t.endYear}, ${t.method === 'theil_sen' ? `Theil–Sen fit (${t.points} years)` : 'first to last year'}`;
+            const targetBasis = (t: db.TargetScore) => t.target
+              ? `${db.formatTargetLabel(t.target)} (${t.scopeLabel}, −${t.target.target_percentage}% ${t.target.base_year}→${t.target.target_year})`
+              : `None - default score (${t.reason})`;
+            const num = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 1 });
+            const intensityBasis = (i: db.IntensityScore) =>
+              `${i.year}: ${num(i.intensity)} vs 1.5°C ${num(i.pathwayIntensities['1.5C'])} / 2°C ${num(i.pathwayIntensities['2C'])} / current policies ${num(i.pathwayIntensities.current_policies)} (${i.pathwayKey === 'default' ? 'cross-sector default' : i.pathwayKey} curve)`;
+
+            let output: string;
+            if (nzIds.length === 1) {
+              const c = result.companies[0];
+              output = `# Sector Pathway Alignment: ${c.company_name}\n\n`;
+              output += `**nz_id:** ${c.nz_id} | **Sector:** ${c.sics_sub_sector || c.sics_sector || 'Unclassified'}\n`;
+              output += `**Coverage:** ${coverageLabel(c)}\n`;
+              output += `**Benchmarks:** v${result.version} (${result.asOf})\n\n`;
+              output += `## 🌡️ Implied Temperature Rise: ${deg(c.temperature)}\n\n`;
+              if (c.temperature === null) {
+                output += '*Not scored: fewer than two years of covered emissions and no usable target.*\n\n';
+              }
+
+              output += '| Component | Basis | Annual Reduction | Temperature |\n';
+              output += '|-----------|-------|------------------|-------------|\n';
+              output += c.trajectory
+                ? `| Historical trajectory | ${trajectoryBasis(c.trajectory)} | ${rate(c.trajectory.annualReductionPercent)} | ${deg(c.trajectory.temperature)} |\n`
+                : '| Historical trajectory | Fewer than two years reported | — | — |\n';
+              output += `| Declared target | ${targetBasis(c.target)} | ${rate(c.target.annualReductionPercent)} | ${deg(c.target.temperature)} |\n`;
+              if (c.intensity) {
+                output += `| Sector intensity | ${intensityBasis(c.intensity)} | — | ${deg(c.intensity.temperature)} |\n`;
+              } else {
+                output += `| Sector intensity | ${coverage === 'scope1_2' ? 'Revenue or a post-2020 reporting year not available' : 'Sector curves cover Scope 1+2 only'} | — | — |\n`;
+              }
+              output += '\n';
+              if (c.intensity) output += `*Intensity in ${c.intensity.unit}; revenue converted to USD at ${FX_RATES_AS_OF} rates.*\n\n`;
+
+              if (c.boundaryChanges.length > 0) {
+                output += `⚠️ **Organizational boundary changed in ${c.boundaryChanges.join(', ')}.** The trajectory mixes real change with restatement.\n\n`;
+              }
+            } else {
+              const agg = result.aggregate;
+              output = `# Sector Pathway Alignment: ${agg.companies} Companies\n\n`;
+              output += `**Coverage:** Scope 1 + Scope 2${coverage === 'scope1_2_3' ? ' + Scope 3' : ''}\n`;
+              output += `**Benchmarks:** v${result.version} (${result.asOf})\n\n`;
+
+              output += '## 🌡️ Aggregate Implied Temperature Rise\n\n';
+              output += `- **Mean:** ${deg(agg.meanTemperature)} (${agg.scored} of ${agg.companies} companies scored)\n`;
+              output += `- **Emissions-weighted:** ${deg(agg.emissionsWeightedTemperature)} (weighted by latest covered emissions)\n\n`;
+              output += '| Band | Companies |\n';
+              output += '|------|-----------|\n';
+              for (const d of agg.distribution) output += `| ${d.band} | ${d.count} |\n`;
+              output += '\n';
+
+              output += '## Companies\n\n';
+              output += '| Company | nz_id | Sector Curve | Trajectory | Target | Intensity | ITR |\n';
+              output += '|---------|-------|--------------|------------|--------|-----------|-----|\n';
+              for (const c of [...result.companies].sort((a, b) => (b.temperature ?? -1) - (a.temperature ?? -1))) {
+                const target = c.target.isDefault ? `${deg(c.target.temperature)} (default)` : deg(c.target.temperature);
+                output += `| ${c.company_name} | ${c.nz_id} | ${c.intensity?.pathwayKey || '—'} | ${deg(c.trajectory?.temperature ?? null)} | ${target} | ${deg(c.intensity?.temperature ?? null)} | **${deg(c.temperature)}** |\n`;
+              }
+              output += '\n';
+              if (result.notFound.length > 0) {
+                output += `⚠️ **Not found:** ${result.notFound.join(', ')}\n\n`;
+              }
+              const withBoundaryChanges = result.companies.filter(c => c.boundaryChanges.length > 0);
+              if (withBoundaryChanges.length > 0) {
+                output += `⚠️ **Boundary changes:** ${withBoundaryChanges.map(c => c.company_name).join(', ')} changed organizational boundary during the scored years.\n\n`;
+              }
+            }
+
+            output += '## 📐 Method\n\n';
+            output += `- **Trajectory and target:** annual reduction in % of start-year (or base-year) emissions, mapped to temperature through the absolute contraction benchmark (4.2%/yr ≈ 1.5°C, 2.5%/yr ≈ well-below 2°C, no reduction ≈ 2.7°C)\n`;
+            output += `- **Target:** the nearest-term absolute target covering the scored scopes; without one the default ${deg(DEFAULT_TARGET_SCORE)} applies\n`;
+            output += '- **Intensity:** latest Scope 1+2 emissions per USD million revenue against the sector\'s 1.5°C, 2°C and current-policies curves (SICS sub-sector, then sector, then a cross-sector default)\n';
+            output += '- **ITR:** the mean of the available component scores\n\n';
+            output += BENCHMARK_DISCLAIMER;
+            output += '\n\n💡 **Next Steps:** Use `nzdpu_analyze analysis=target_progress` to check progress against the declared target, or `analysis=company_trend` for the fitted trajectory with its confidence interval.\n';
+
+            return respond(output, { pathway: result }, [BENCHMARK_DISCLAIMER]);
           }
           
           default:
-            throw new Error(`Unknown benchmark mode: ${mode}. Use: single, compare, or peer_stats`);
+            throw new ToolError('INVALID_ARGUMENTS', `Unknown benchmark mode: ${mode}. Use: single, compare, peer_stats, or pathway`);
         }
       }
 
@@ -1331,13 +2174,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const companyId = args?.company_id as number;
         const year = args?.year as number | undefined;
         
-        if (!companyId) throw new Error('company_id is required');
-        
         const result = db.getCompanyQualityAssessment(companyId, year);
         
         // FIX-L4: Enhanced error message
         if (!result.companyInfo) {
-          throw new Error(`Company with nz_id ${companyId} not found. Use nzdpu_search to find companies and get their nz_id.`);
+          throw companyNotFound(companyId);
         }
         
         let output = `# Data Quality Assessment: ${result.companyInfo.company_name}\n\n`;
@@ -1347,7 +2188,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         
         if (!result.assessment) {
           output += '⚠️ No emissions data available for quality assessment.\n';
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { company: result.companyInfo, assessment: null, methodologyChanges: result.methodologyChanges });
         }
         
         const a = result.assessment;
@@ -1403,14 +2244,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
         
-        return { content: [{ type: 'text', text: output }] };
+        return respond(output, { company: result.companyInfo, assessment: a, methodologyChanges: result.methodologyChanges });
       }
 
       // ============ 7. LEARN ============
       case 'nzdpu_learn': {
         const topic = args?.topic as string;
         const useSummary = args?.summary as boolean | undefined;
-        if (!topic) throw new Error('topic is required');
 
         // Handle different topic formats
         if (topic === 'concepts') {
@@ -1423,7 +2263,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           });
           output += '\n## Scope 3 Categories\n';
           output += 'Use `nzdpu_learn topic=scope3` to see all categories, or `topic=scope3:<number>` for specific category.\n';
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
 
         if (topic.startsWith('concept:')) {
@@ -1432,7 +2272,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           const explanation = useSummary
             ? getConceptSummary(conceptName)
             : explainConceptWithRelated(conceptName);
-          return { content: [{ type: 'text', text: explanation }] };
+          return respond(explanation, { topic, content: explanation });
         }
         
         if (topic === 'scope2') {
@@ -1494,7 +2334,7 @@ Comparing A's LB (4,000) to B's MB (0) would wrongly suggest B has lower grid im
 
 Always report BOTH methods and clearly label which you're using. Never mix them in comparisons.`;
           
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         if (topic === 'scope3') {
@@ -1510,14 +2350,15 @@ Always report BOTH methods and clearly label which you're using. Never mix them
             output += `**${i}. ${scope3Categories[i].name.replace(`Category ${i}: `, '')}**\n`;
             output += `${scope3Categories[i].definition}\n\n`;
           }
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         if (topic.startsWith('scope3:')) {
           const catNum = parseInt(topic.substring(7));
           const category = scope3Categories[catNum];
           if (!category) {
-            return { content: [{ type: 'text', text: `Invalid category: ${catNum}. Valid: 1-15.` }] };
+            const message = `Invalid category: ${catNum}. Valid: 1-15.`;
+            return respond(message, { topic, content: message });
           }
           
           let output = `# ${category.name}\n\n`;
@@ -1526,7 +2367,7 @@ Always report BOTH methods and clearly label which you're using. Never mix them
           if (category.examples?.length) {
             output += `**Examples:**\n${category.examples.map(e => `• ${e}`).join('\n')}\n`;
           }
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         if (topic === 'mistakes') {
@@ -1536,7 +2377,7 @@ Always report BOTH methods and clearly label which you're using. Never mix them
             output += `**Why it's wrong:** ${m.explanation}\n\n`;
             output += `**How to fix:** ${m.correction}\n\n---\n\n`;
           });
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         if (topic.startsWith('comparability:')) {
@@ -1622,9 +2463,10 @@ Each category has multiple calculation approaches with varying accuracy.
           
           const explanation = explanations[compType];
           if (!explanation) {
-            return { content: [{ type: 'text', text: `Unknown comparability type: ${compType}. Options: scope2_lb_vs_mb, different_boundaries, different_years, scope3_categories` }] };
+            const message = `Unknown comparability type: ${compType}. Options: scope2_lb_vs_mb, different_boundaries, different_years, scope3_categories`;
+            return respond(message, { topic, content: message });
           }
-          return { content: [{ type: 'text', text: explanation }] };
+          return respond(explanation, { topic, content: explanation });
         }
         
         // ============ ADVANCED TOPICS ============
@@ -1639,13 +2481,13 @@ Each category has multiple calculation approaches with varying accuracy.
           output += explainDoubleCounting('value_chain');
           output += '\n---\n\n';
           output += explainDoubleCounting('totals');
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         if (topic.startsWith('double_counting:')) {
           const context = topic.substring(16) as 'scope2' | 'scope3' | 'value_chain' | 'totals';
           const output = explainDoubleCounting(context);
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         // Reporting frameworks
@@ -1653,7 +2495,7 @@ Each category has multiple calculation approaches with varying accuracy.
           // Summary mode: just a one-liner
           if (useSummary) {
             const summary = getFrameworksSummary();
-            return { content: [{ type: 'text', text: summary }] };
+            return respond(summary, { topic, content: summary });
           }
 
           const frameworks = listFrameworks();
@@ -1677,13 +2519,13 @@ Each category has multiple calculation approaches with varying accuracy.
             output += `| ${f.name} | ${f.jurisdiction} |\n`;
           }
           output += '\nUse `nzdpu_learn topic=framework:<name>` for details on a specific framework.';
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         if (topic.startsWith('framework:')) {
           const frameworkName = topic.substring(10);
           const output = getFrameworkInfo(frameworkName);
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         // Emission factors
@@ -1696,7 +2538,7 @@ Each category has multiple calculation approaches with varying accuracy.
             dbOutput += `| ${key} | ${db.publisher.substring(0, 30)}${db.publisher.length > 30 ? '...' : ''} | ${db.jurisdiction} | ${db.updateFrequency} |\n`;
           }
           dbOutput += '\nUse `nzdpu_learn topic=emission_factor:<name>` for details on a specific database or tier.';
-          return { content: [{ type: 'text', text: output + dbOutput }] };
+          return respond(output + dbOutput, { topic, content: output + dbOutput });
         }
         
         if (topic.startsWith('emission_factor:')) {
@@ -1704,24 +2546,25 @@ Each category has multiple calculation approaches with varying accuracy.
           const tierNum = parseInt(tierOrDb);
           if (!isNaN(tierNum)) {
             const output = getEmissionFactorGuidance(tierNum);
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { topic, content: output });
           } else {
             const output = getEmissionFactorGuidance(tierOrDb);
-            return { content: [{ type: 'text', text: output }] };
+            return respond(output, { topic, content: output });
           }
         }
         
         // Base year and recalculation
         if (topic === 'base_year' || topic === 'recalculation') {
           const output = explainBaseYearRecalculation();
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
 
         // Materiality by category
         if (topic.startsWith('materiality:')) {
           const catNum = parseInt(topic.substring(12));
           if (isNaN(catNum) || catNum < 1 || catNum > 15) {
-            return { content: [{ type: 'text', text: `Invalid category: ${topic.substring(12)}. Valid: 1-15.` }] };
+            const message = `Invalid category: ${topic.substring(12)}. Valid: 1-15.`;
+            return respond(message, { topic, content: message });
           }
 
           const sectors = getSectorsWithMaterialCategory(catNum);
@@ -1741,7 +2584,7 @@ Each category has multiple calculation approaches with varying accuracy.
           output += `Use \`nzdpu_learn topic=scope3:${catNum}\` for category definition.\n`;
           output += `Use \`nzdpu_search sector=<name>\` to find companies in a sector.`;
 
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
 
         // List all advanced topics
@@ -1750,31 +2593,299 @@ Each category has multiple calculation approaches with varying accuracy.
           let output = '# Advanced Topics\n\n';
           output += 'Use `nzdpu_learn topic=<topic>` with any of the following:\n\n';
           topics.forEach(t => output += `• ${t}\n`);
-          return { content: [{ type: 'text', text: output }] };
+          return respond(output, { topic, content: output });
         }
         
         // Try as a direct concept name
         const explanation = explainConcept(topic);
-        return { content: [{ type: 'text', text: explanation }] };
+        return respond(explanation, { topic, content: explanation });
+      }
+
+      // ============ 8. TARGETS ============
+      case 'nzdpu_targets': {
+        const companyId = args?.company_id as number | undefined;
+        const sbtiStatus = args?.sbti_status as string | undefined;
+        const targetYear = args?.target_year as number | undefined;
+        const targetType = args?.target_type as 'absolute' | 'intensity' | undefined;
+        const jurisdiction = args?.jurisdiction as string | undefined;
+        const sector = args?.sector as string | undefined;
+        const subSector = args?.sub_sector as string | undefined;
+        const limit = (args?.limit as number) || 20;
+
+        if (!db.hasTargetsData()) {
+          let output = '# Emissions Reduction Targets\n\n';
+          output += '⚠️ This database was built before targets were stored, so no target data is available.\n\n';
+          output += '**To enable targets:** rebuild the database with `npm run build-db` (maintainers only, requires an NZDPU API key).\n';
+          return respond(output, { targets: [] });
+        }
+
+        // Single company: targets alongside reported emissions
+        if (companyId) {
+          const company = db.getCompanyById(companyId);
+          if (!company) throw companyNotFound(companyId);
+
+          const targets = db.getCompanyTargets(companyId);
+          const emissions = db.getCompanyEmissions(companyId);
+
+          let output = `# Emissions Reduction Targets: ${company.company_name}\n\n`;
+          output += `**nz_id:** ${companyId}\n`;
+          output += `**Sector:** ${company.sics_sector || 'N/A'}`;
+          if (company.sics_sub_sector) output += ` > ${company.sics_sub_sector}`;
+          output += `\n**Jurisdiction:** ${company.jurisdiction || 'N/A'}\n\n`;
+
+          if (targets.length === 0) {
+            output += '*No reduction targets found in this company\'s disclosures.*\n';
+          } else {
+            output += `## Declared Targets (${targets[0].reported_year} disclosure)\n\n`;
+            output += `| Type | Scope | Base Year | Target Year | Reduction | SBTi / Ambition |\n`;
+            output += `|------|-------|-----------|-------------|-----------|-----------------|\n`;
+            for (const t of targets) {
+              const reduction = t.target_percentage !== null ? `${t.target_percentage}%` : '—';
+              output += `| ${t.target_type} | ${t.target_scope || '—'} | ${t.base_year || '—'} | ${t.target_year || '—'} | ${reduction} | ${t.sbti_status || '—'} |\n`;
+            }
+          }
+
+          if (emissions.length > 0) {
+            const baseYears = new Set(targets.map(t => t.base_year).filter((y): y is number => y !== null));
+            const latestYear = emissions[0].year;
+
+            output += `\n## Reported Emissions (tCO₂e)\n\n`;
+            output += `| Year | Scope 1 | Scope 2 LB | Scope 2 MB | Scope 3 Total | Note |\n`;
+            output += `|------|---------|------------|------------|---------------|------|\n`;
+            for (const e of emissions) {
+              const notes = [];
+              if (baseYears.has(e.year)) notes.push('Base year');
+              if (e.year === latestYear) notes.push('Latest');
+              output += `| ${e.year} | ${e.scope1?.toLocaleString() || '—'} | ${e.scope2_lb?.toLocaleString() || '—'} | ${e.scope2_mb?.toLocaleString() || '—'} | ${e.scope3_total?.toLocaleString() || '—'} | ${notes.join(', ') || '—'} |\n`;
+            }
+
+            const reportedYears = new Set(emissions.map(e => e.year));
+            const missingBaseYears = Array.from(baseYears).filter(y => !reportedYears.has(y)).sort();
+            if (missingBaseYears.length > 0) {
+              output += `\n⚠️ **Base year(s) not in database:** ${missingBaseYears.join(', ')}. `;
+              output += `Progress cannot be measured from NZDPU data alone for these targets.\n`;
+            }
+          } else {
+            output += '\n*No emissions data available for this company.*\n';
+          }
+
+          output += '\n---\n';
+          output += TARGETS_DISCLAIMER;
+          output += `\n\n📊 Use \`nzdpu_emissions company_id=${companyId}\` for the Scope 3 breakdown and \`nzdpu_quality company_id=${companyId}\` for methodology changes since the base year.\n`;
+
+          return respond(output, { company, targets, emissions }, [TARGETS_DISCLAIMER]);
+        }
+
+        // Screening: companies with matching targets
+        const result = db.findTargets({
+          sbti_status: sbtiStatus,
+          target_year: targetYear,
+          target_type: targetType,
+          jurisdiction,
+          sics_sector: sector,
+          sics_sub_sector: subSector,
+          limit,
+        });
+
+        let output = `# Emissions Reduction Targets\n\n`;
+
+        const activeFilters = [];
+        if (sbtiStatus) activeFilters.push(`SBTi / Ambition: ${sbtiStatus}`);
+        if (targetYear) activeFilters.push(`Target Year: ${targetYear}`);
+        if (targetType) activeFilters.push(`Type: ${targetType}`);
+        if (jurisdiction) activeFilters.push(`Jurisdiction: ${jurisdiction}`);
+        if (sector) activeFilters.push(`Sector: ${sector}`);
+        if (subSector) activeFilters.push(`Sub-Sector: ${subSector}`);
+        if (activeFilters.length > 0) {
+          output += `**Filters:** ${activeFilters.join(' | ')}\n`;
+        }
+
+        output += `**Found:** ${result.total} target rows (one per declared target; a company can have several)`;
+        if (result.total > limit) output += ` (showing first ${limit})`;
+        output += '\n\n';
+
+        if (result.data.length === 0) {
+          output += '*No targets found matching the specified filters.*\n\n';
+          const statuses = db.listTargetStatuses();
+          if (sbtiStatus && statuses.length > 0) {
+            output += '**SBTi / ambition values in the database:**\n';
+            statuses.slice(0, 10).forEach(st => output += `- ${st.sbti_status} (${st.count} companies)\n`);
+            output += '\n';
+          }
+          output += '**Suggestions:**\n';
+          output += '- Try a partial status value (e.g., "1.5") or remove the target_year filter\n';
+          output += '- Use `nzdpu_list` to check jurisdiction and sector spelling\n';
+          return respond(output, { total: result.total, targets: [], statuses: db.listTargetStatuses() });
+        }
+
+        output += `| Company | nz_id | Jurisdiction | Type | Scope | Target | SBTi / Ambition |\n`;
+        output += `|---------|-------|--------------|------|-------|--------|-----------------|\n`;
+        for (const t of result.data) {
+          output += `| ${t.company_name} | ${t.nz_id} | ${t.jurisdiction || '—'} | ${t.target_type} | ${t.target_scope || '—'} | ${db.formatTargetLabel(t)} | ${t.sbti_status || '—'} |\n`;
+        }
+
+        output += '\n---\n';
+        output += TARGETS_DISCLAIMER;
+        output += '\n\n📊 Use `nzdpu_targets company_id=X` to see a company\'s targets next to its emissions.\n';
+
+        return respond(output, { total: result.total, targets: result.data }, [TARGETS_DISCLAIMER]);
+      }
+
+      // ============ 9. PORTFOLIO ============
+      case 'nzdpu_portfolio': {
+        const holdings = args?.holdings as db.PortfolioHolding[];
+        const year = args?.year as number | undefined;
+        const scope2 = (args?.scope2 as 'scope2_lb' | 'scope2_mb') || 'scope2_mb';
+        const includeScope3 = args?.include_scope3 !== false;
+        const currency = (args?.currency as string) || 'USD';
+
+        const result = db.calculatePortfolioEmissions(holdings, { year, scope2, includeScope3 });
+        const fmt = (v: number | null, digits = 0) => v !== null ? v.toLocaleString(undefined, { maximumFractionDigits: digits }) : 'N/A';
+        const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+        const scope2Label = scope2 === 'scope2_mb' ? 'Scope 2 (MB)' : 'Scope 2 (LB)';
+
+        const matched = result.holdings.filter(h => h.status === 'matched');
+        const covered = result.holdings.filter(h => h.covered);
+
+        let output = `# Portfolio Financed Emissions\n\n`;
+        output += `**Holdings:** ${result.holdings.length} (${matched.length} with emissions data)\n`;
+        output += `**Portfolio Value:** ${fmt(result.totalValue)} ${currency}\n`;
+        output += `**Emissions Year:** ${year || 'Latest available per company'}\n`;
+        output += `**Scope 2 Method:** ${scope2Label}\n\n`;
+
+        output += '## Portfolio Metrics\n\n';
+        output += '| Metric | Value |\n|--------|-------|\n';
+        output += `| Financed Scope 1 | ${fmt(result.financedScope1)} tCO₂e |\n`;
+        output += `| Financed ${scope2Label} | ${fmt(result.financedScope2)} tCO₂e |\n`;
+        if (includeScope3) {
+          output += `| Financed Scope 3 (reported separately) | ${fmt(result.financedScope3)} tCO₂e |\n`;
+        }
+        output += `| Carbon Footprint (S1+2) | ${fmt(result.carbonFootprint, 2)} tCO₂e / ${currency} million invested |\n`;
+        output += `| WACI (S1+2) | ${fmt(result.waci, 2)} tCO₂e / USD million revenue |\n`;
+        output += `| Weighted Data Quality (covered holdings) | ${fmt(result.weightedDataQuality, 1)} (1 = best, 5 = worst) |\n`;
+        output += `| Weighted Data Quality (all holdings, no data = 5) | ${fmt(result.weightedDataQualityAllHoldings, 1)} |\n\n`;
+
+        output += '## Coverage\n\n';
+        output += `- **Covered (Scope 1 and ${scope2Label} attributed):** ${covered.length} holdings, ${result.totalValue > 0 ? pct(result.coveredValue / result.totalValue) : 'N/A'} of portfolio value\n`;
+        output += `- **WACI coverage:** ${pct(result.waciCoverage)} of portfolio value has revenue data\n`;
+        const uncovered = result.holdings.filter(h => !h.covered);
+        if (uncovered.length > 0) {
+          const unmatched = uncovered.filter(h => h.status !== 'matched').length;
+          const noAttribution = uncovered.filter(h => h.status === 'matched' && h.attributionFactor === null).length;
+          const missingScopes = uncovered.length - unmatched - noAttribution;
+          const reasons = [
+            unmatched > 0 ? `${unmatched} without emissions data` : null,
+            noAttribution > 0 ? `${noAttribution} without EVIC or outstanding amount` : null,
+            missingScopes > 0 ? `${missingScopes} missing Scope 1 or ${scope2Label}` : null,
+          ].filter(Boolean).join(', ');
+          output += `- **Uncovered:** ${uncovered.length} holdings, ${result.totalValue > 0 ? pct(result.uncoveredValue / result.totalValue) : 'N/A'} of portfolio value (${reasons})\n`;
+        }
+
+        output += '\n## Holdings\n\n';
+        output += `| Holding | Company | nz_id | Year | Weight | Attribution | Financed S1 | Financed ${scope2Label} |${includeScope3 ? ' Financed S3 | S3 Cats |' : ''} DQ Score | Status |\n`;
+        output += `|---------|---------|-------|------|--------|-------------|-------------|-------------|${includeScope3 ? '-------------|---------|' : ''}----------|--------|\n`;
+        for (const h of result.holdings) {
+          const statusLabel = h.status === 'matched' ? (h.notes.length > 0 ? '⚠️ Partial' : '✅') : h.status === 'ambiguous' ? '❓ Ambiguous' : h.status === 'no_emissions' ? '❌ No emissions' : '❌ Not found';
+          const attribution = h.attributionFactor !== null ? `${(h.attributionFactor * 100).toFixed(4)}%` : '—';
+          output += `| ${h.label} | ${h.company?.company_name || '—'} | ${h.company?.nz_id || '—'} | ${h.year || '—'} | ${pct(h.weight)} | ${attribution} | ${fmt(h.financedScope1, 2)} | ${fmt(h.financedScope2, 2)} |`;
+          if (includeScope3) {
+            output += ` ${fmt(h.financedScope3, 2)} | ${h.scope3CategoriesReported !== null ? `${h.scope3CategoriesReported}/15` : '—'} |`;
+          }
+          output += ` ${fmt(h.dataQualityScore, 1)} | ${statusLabel} |\n`;
+        }
+
+        const withNotes = result.holdings.filter(h => h.notes.length > 0 || h.candidates.length > 0);
+        if (withNotes.length > 0) {
+          output += '\n## ⚠️ Holding Notes\n\n';
+          for (const h of withNotes) {
+            if (h.notes.length > 0) output += `- **${h.label}:** ${h.notes.join('; ')}\n`;
+            if (h.candidates.length > 0) {
+              output += `- **${h.label}:** ${h.candidates.length > 1 ? 'Multiple matches' : 'No exact name match'} - specify nz_id: ${h.candidates.map(c => `${c.company_name} (${c.nz_id})`).join(', ')}\n`;
+            }
+          }
+        }
+
+        const years = new Set(matched.map(h => h.year));
+        if (years.size > 1) {
+          output += `\n⚠️ **Mixed reporting years:** holdings use emissions from ${Array.from(years).sort().join(', ')}. Pass \`year\` to align them.\n`;
+        }
+
+        output += '\n---\n';
+        output += PORTFOLIO_DISCLAIMER;
+        output += '\n\n📊 Use `nzdpu_quality company_id=X` to review the data behind low-scoring holdings.\n';
+
+        return respond(output, { ...result, currency, year: year ?? null, scope2, includeScope3 }, [PORTFOLIO_DISCLAIMER]);
+      }
+
+      // ============ 10. EXPORT ============
+      case 'nzdpu_export': {
+        const source = args?.source as ExportSource;
+        const filePath = args?.path as string;
+        const format = args?.format as ExportFormat | undefined;
+        const overwrite = args?.overwrite === true;
+
+        const result = exportResults(source, filePath, {
+          scope: args?.scope as string | undefined,
+          year: args?.year as number | undefined,
+          metric: args?.metric as db.IntensityMetric | undefined,
+          jurisdiction: args?.jurisdiction as string | undefined,
+          sics_sector: args?.sics_sector as string | undefined,
+          sics_sub_sector: args?.sics_sub_sector as string | undefined,
+          sics_industry: args?.sics_industry as string | undefined,
+          company_ids: args?.company_ids as number[] | undefined,
+          start_year: args?.start_year as number | undefined,
+          end_year: args?.end_year as number | undefined,
+        }, { format, overwrite });
+
+        let output = `# Export Complete\n\n`;
+        output += `**Source:** ${source}\n`;
+        output += `**Format:** ${result.format.toUpperCase()}\n`;
+        output += `**Database Build Date:** ${result.databaseBuildDate || 'Unknown'}\n\n`;
+
+        output += '## Files\n\n';
+        for (const file of result.files) {
+          output += `- \`${file}\`\n`;
+        }
+
+        output += '\n## Contents\n\n';
+        output += '| Sheet | Rows |\n|-------|------|\n';
+        for (const sheet of result.sheets) {
+          output += `| ${sheet.name} | ${sheet.rows.toLocaleString()} |\n`;
+        }
+
+        if (result.rowCount === 0) {
+          output += '\n⚠️ No rows matched the filters - the export only contains headers and metadata.\n';
+        }
+        output += '\n*All 15 Scope 3 categories, methods and relevancy are included per row. Disclaimers are in the Metadata sheet.*\n';
+
+        return respond(output, result, result.disclaimers);
       }
 
       default:
-        throw new Error(`Unknown tool: ${name}. Available tools: nzdpu_search, nzdpu_emissions, nzdpu_list, nzdpu_analyze, nzdpu_benchmark, nzdpu_quality, nzdpu_learn`);
+        throw new ToolError('UNKNOWN_TOOL', `Unknown tool: ${name}. Available tools: nzdpu_search, nzdpu_emissions, nzdpu_list, nzdpu_analyze, nzdpu_benchmark, nzdpu_quality, nzdpu_learn, nzdpu_targets, nzdpu_portfolio, nzdpu_export`);
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return {
-      content: [{ type: 'text', text: `Error: ${errorMessage}` }],
-      isError: true,
-    };
+    return toolErrorResult(name, error, errorFormat);
   }
-});
+}
 
-// Start the server
+// Start the server (stdio by default, HTTP with --http or NZDPU_TRANSPORT=http)
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('NZDPU MCP Server v2.0 running (7 consolidated tools, SQLite-backed)');
+  const options = parseTransportOptions(process.argv.slice(2));
+
+  if (options.mode === 'http') {
+    // Remote clients may only write files into a directory the operator chose
+    const disabledTools: Record<string, string> = {};
+    if (!process.env.NZDPU_EXPORT_DIR) {
+      disabledTools.nzdpu_export = 'set NZDPU_EXPORT_DIR to enable exports over HTTP';
+      console.error(`nzdpu_export disabled: ${disabledTools.nzdpu_export}`);
+    }
+    await startHttpServer(() => createServer(disabledTools), options.http);
+  } else {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+  }
+  console.error('NZDPU MCP Server v2.0 running (10 consolidated tools, SQLite-backed)');
 }
 
 main().catch((error) => {
@@ -7,7 +7,7 @@
 
 /**
  * Disclaimer for benchmark and comparison operations
- * Used by: nzdpu_benchmark (single and compare modes)
+ * Used by: nzdpu_benchmark (single, compare and pathway modes)
  */
 export const BENCHMARK_DISCLAIMER = `
 ## Important Comparison Limitations
@@ -73,6 +73,37 @@ Year-over-year comparisons may be affected by:
 Check for disclosed restatements before drawing conclusions.
 `.trim();
 
+/**
+ * Disclaimer for emissions reduction targets
+ * Used by: nzdpu_targets
+ */
+export const TARGETS_DISCLAIMER = `
+## Target Data Note
+
+Targets are self-declared in the company's latest NZDPU disclosure:
+- SBTi / ambition status is as reported, not independently validated here
+- Intensity targets cannot be measured against absolute emissions
+- Base-year emissions may have been recalculated after boundary changes
+
+Check the company's own disclosures before relying on target status.
+`.trim();
+
+/**
+ * Disclaimer for portfolio financed emissions
+ * Used by: nzdpu_portfolio
+ */
+export const PORTFOLIO_DISCLAIMER = `
+## Financed Emissions Note
+
+Financed emissions follow the PCAF attribution approach but are not a PCAF-certified calculation:
+- Attribution uses the EVIC or outstanding amount you supply
+- Company emissions come from the latest (or requested) NZDPU disclosure, which may differ by year across holdings
+- Data quality scores are PCAF-style estimates derived from verification and Scope 3 methodology
+- Scope 3 financed emissions double count across holdings and are reported separately
+
+Review holdings flagged as unmatched or partial before reporting these figures.
+`.trim();
+
 /**
  * Helper function to format disclaimer with optional prefix
  */
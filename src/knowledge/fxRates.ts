@@ -0,0 +1,59 @@
+/**
+ * Offline FX Rates for Revenue Normalisation
+ *
+ * Bundled so intensity metrics work without network access.
+ * Rates are approximate annual averages and are only intended to put
+ * revenues reported in different currencies on a common USD basis.
+ */
+
+/**
+ * Version of the bundled table (reported alongside intensity results)
+ */
+export const FX_RATES_AS_OF = '2023 annual average';
+
+/**
+ * USD value of one unit of each currency (ISO 4217 codes)
+ */
+export const USD_PER_UNIT: Record<string, number> = {
+  USD: 1,
+  EUR: 1.082,
+  GBP: 1.244,
+  JPY: 0.00713,
+  CNY: 0.1412,
+  CHF: 1.113,
+  CAD: 0.741,
+  AUD: 0.664,
+  NZD: 0.614,
+  HKD: 0.1277,
+  SGD: 0.744,
+  KRW: 0.000766,
+  TWD: 0.0321,
+  INR: 0.0121,
+  IDR: 0.0000656,
+  MYR: 0.2194,
+  THB: 0.0287,
+  PHP: 0.018,
+  BRL: 0.2003,
+  MXN: 0.0564,
+  CLP: 0.00119,
+  ZAR: 0.0543,
+  SEK: 0.0943,
+  NOK: 0.0949,
+  DKK: 0.1451,
+  PLN: 0.2381,
+  TRY: 0.0425,
+  ILS: 0.2712,
+  AED: 0.2723,
+  SAR: 0.2667,
+};
+
+/**
+ * Convert an amount to USD using the bundled table
+ * Returns null for unknown currencies rather than guessing
+ */
+export function convertToUsd(amount: number, currency: string | null | undefined): number | null {
+  if (!currency) return null;
+  const rate = USD_PER_UNIT[currency.trim().toUpperCase()];
+  if (rate === undefined) return null;
+  return amount * rate;
+}
@@ -0,0 +1,66 @@
+/**
+ * Jurisdiction Aliases
+ *
+ * NZDPU stores jurisdictions under their full UN names
+ * (e.g. "United Kingdom of Great Britain and Northern Ireland").
+ * Shared by the API client and every SQLite filter so "UK" or "usa" just work.
+ */
+
+const UNITED_STATES = 'United States of America';
+const UNITED_KINGDOM = 'United Kingdom of Great Britain and Northern Ireland';
+
+/**
+ * Common names and codes mapped to the NZDPU jurisdiction name (keys are lower case)
+ */
+export const JURISDICTION_ALIASES: Record<string, string> = {
+  'usa': UNITED_STATES,
+  'us': UNITED_STATES,
+  'u.s.': UNITED_STATES,
+  'u.s.a.': UNITED_STATES,
+  'united states': UNITED_STATES,
+  'united states of america': UNITED_STATES,
+  'america': UNITED_STATES,
+  'uk': UNITED_KINGDOM,
+  'u.k.': UNITED_KINGDOM,
+  'gb': UNITED_KINGDOM,
+  'united kingdom': UNITED_KINGDOM,
+  'great britain': UNITED_KINGDOM,
+  'britain': UNITED_KINGDOM,
+  'england': UNITED_KINGDOM,
+  'scotland': UNITED_KINGDOM,
+  'wales': UNITED_KINGDOM,
+  'uae': 'United Arab Emirates',
+  'korea': 'Republic of Korea',
+  'south korea': 'Republic of Korea',
+};
+
+/**
+ * Resolve a jurisdiction alias to the NZDPU name; other values are returned trimmed
+ */
+export function resolveJurisdictionAlias(jurisdiction: string): string {
+  const trimmed = jurisdiction.trim();
+  return JURISDICTION_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+}
+
+/**
+ * Region groups usable in place of a single jurisdiction (peer definitions)
+ * Members use NZDPU names; where the UN name changed, both spellings are listed.
+ */
+export const REGION_GROUPS = {
+  EU27: [
+    'Austria', 'Belgium', 'Bulgaria', 'Croatia', 'Cyprus', 'Czechia', 'Czech Republic', 'Denmark',
+    'Estonia', 'Finland', 'France', 'Germany', 'Greece', 'Hungary', 'Ireland', 'Italy', 'Latvia',
+    'Lithuania', 'Luxembourg', 'Malta', 'Netherlands', 'Netherlands (Kingdom of the)', 'Poland',
+    'Portugal', 'Romania', 'Slovakia', 'Slovenia', 'Spain', 'Sweden',
+  ],
+  G7: ['Canada', 'France', 'Germany', 'Italy', 'Japan', UNITED_KINGDOM, UNITED_STATES],
+  G20: [
+    'Argentina', 'Australia', 'Brazil', 'Canada', 'China', 'France', 'Germany', 'India', 'Indonesia',
+    'Italy', 'Japan', 'Mexico', 'Republic of Korea', 'Russian Federation', 'Saudi Arabia',
+    'South Africa', 'Türkiye', 'Turkey', UNITED_KINGDOM, UNITED_STATES,
+  ],
+} as const satisfies Record<string, readonly string[]>;
+
+export type RegionGroup = keyof typeof REGION_GROUPS;
+
+export const REGION_GROUP_NAMES = Object.keys(REGION_GROUPS) as [RegionGroup, ...RegionGroup[]];
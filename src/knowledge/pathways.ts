@@ -0,0 +1,122 @@
+/**
+ * Sector Decarbonisation Pathways
+ *
+ * Benchmark curves for implied temperature rise (ITR) scoring, bundled as a
+ * versioned JSON file so the data can be replaced without code changes.
+ * Two benchmarks are used: an absolute contraction rate per temperature outcome,
+ * and sector intensity curves (per USD million revenue) for each scenario.
+ */
+
+import PATHWAYS_DATA from './pathways.json';
+
+export type PathwayScenario = '1.5C' | '2C' | 'current_policies';
+
+export interface IntensityPathway {
+  key: string;                 // SICS sub-sector or sector the curves belong to, or 'default'
+  curves: Record<PathwayScenario, Record<string, number>>;  // Scenario → year → intensity
+}
+
+interface PathwayFile {
+  version: string;
+  asOf: string;
+  description: string;
+  sources: string[];
+  temperatureBounds: { min: number; max: number };
+  defaultTargetScore: number;
+  scenarios: Record<PathwayScenario, { label: string; temperature: number }>;
+  absoluteContraction: {
+    description: string;
+    anchors: { temperature: number; annualReductionPercent: number }[];
+  };
+  intensity: {
+    unit: string;
+    coverage: string;
+    sectors: Record<string, Record<PathwayScenario, Record<string, number>>>;
+    default: Record<PathwayScenario, Record<string, number>>;
+  };
+}
+
+const PATHWAYS = PATHWAYS_DATA as PathwayFile;
+
+/**
+ * Version of the bundled benchmark curves (reported alongside every score)
+ */
+export const PATHWAYS_VERSION = PATHWAYS.version;
+export const PATHWAYS_AS_OF = PATHWAYS.asOf;
+export const PATHWAY_SOURCES = PATHWAYS.sources;
+export const PATHWAY_INTENSITY_UNIT = PATHWAYS.intensity.unit;
+export const PATHWAY_INTENSITY_COVERAGE = PATHWAYS.intensity.coverage;
+
+/**
+ * Score for a company without a usable target (CDP-WWF default)
+ */
+export const DEFAULT_TARGET_SCORE = PATHWAYS.defaultTargetScore;
+
+export const PATHWAY_SCENARIOS = PATHWAYS.scenarios;
+
+const { min: MIN_TEMPERATURE, max: MAX_TEMPERATURE } = PATHWAYS.temperatureBounds;
+
+const clampTemperature = (t: number) => Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, t));
+
+/**
+ * Piecewise-linear interpolation through (x, y) points sorted by x,
+ * extending the first and last segments beyond the ends
+ */
+function interpolate(points: { x: number; y: number }[], x: number): number {
+  let i = 1;
+  while (i < points.length - 1 && x > points[i].x) i++;
+  const a = points[i - 1];
+  const b = points[i];
+  return a.y + ((x - a.x) / (b.x - a.x)) * (b.y - a.y);
+}
+
+/**
+ * Implied temperature of an annual absolute reduction rate (% of base-year emissions per year)
+ */
+export function temperatureForReductionRate(annualReductionPercent: number): number {
+  const points = PATHWAYS.absoluteContraction.anchors
+    .map(a => ({ x: a.annualReductionPercent, y: a.temperature }))
+    .sort((a, b) => a.x - b.x);
+  return clampTemperature(interpolate(points, annualReductionPercent));
+}
+
+/**
+ * Intensity curves for a company's SICS classification
+ * Tries sub-sector first, then sector, then the cross-sector default
+ */
+export function getIntensityPathway(sector: string | null, subSector?: string | null): IntensityPathway {
+  if (subSector && PATHWAYS.intensity.sectors[subSector]) {
+    return { key: subSector, curves: PATHWAYS.intensity.sectors[subSector] };
+  }
+  if (sector && PATHWAYS.intensity.sectors[sector]) {
+    return { key: sector, curves: PATHWAYS.intensity.sectors[sector] };
+  }
+  return { key: 'default', curves: PATHWAYS.intensity.default };
+}
+
+/**
+ * Intensity a scenario allows in a year, interpolated between curve years
+ * (held flat outside the curve's range)
+ */
+export function pathwayIntensity(pathway: IntensityPathway, scenario: PathwayScenario, year: number): number {
+  const points = Object.entries(pathway.curves[scenario])
+    .map(([y, v]) => ({ x: Number(y), y: v }))
+    .sort((a, b) => a.x - b.x);
+  if (year <= points[0].x) return points[0].y;
+  if (year >= points[points.length - 1].x) return points[points.length - 1].y;
+  return interpolate(points, year);
+}
+
+/**
+ * Implied temperature of an intensity in a given year
+ * Interpolates on log intensity between the scenario curves for that year; null in the
+ * curves' start year, where every scenario shares the same starting intensity
+ */
+export function temperatureForIntensity(pathway: IntensityPathway, year: number, intensity: number): number | null {
+  if (intensity <= 0) return null;
+  const points = (Object.keys(PATHWAYS.scenarios) as PathwayScenario[])
+    .map(s => ({ x: Math.log(pathwayIntensity(pathway, s, year)), y: PATHWAYS.scenarios[s].temperature }))
+    .sort((a, b) => a.x - b.x);
+  if (points.some((p, i) => i > 0 && p.x - points[i - 1].x < 1e-9)) return null;
+  return clampTemperature(interpolate(points, Math.log(intensity)));
+}
@@ -0,0 +1,347 @@
+/**
+ * File export of analysis results (CSV / XLSX)
+ * Exports carry the full result set rather than the markdown display limit, every
+ * emissions column (all 15 Scope 3 categories with methods), and a metadata sheet
+ * with the database build date and the applicable disclaimers
+ */
+
+import path from 'path';
+import os from 'os';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import * as db from '../db/queries.js';
+import type { CompanyRow, EmissionsRow } from '../db/queries.js';
+import {
+  RANKING_DISCLAIMER,
+  BENCHMARK_DISCLAIMER,
+  CROSS_YEAR_DISCLAIMER,
+  SCOPE3_DATA_QUALITY_DISCLAIMER
+} from '../knowledge/disclaimers.js';
+import { FX_RATES_AS_OF } from '../knowledge/fxRates.js';
+import { buildXlsx, type Sheet, type CellValue } from './xlsx.js';
+import { ToolError } from '../validation/errors.js';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportSource = 'top_emitters' | 'compare' | 'peer_trends';
+
+export const EXPORT_SOURCES: ExportSource[] = ['top_emitters', 'compare', 'peer_trends'];
+
+export interface ExportOptions {
+  scope?: string;
+  year?: number;
+  metric?: db.IntensityMetric;
+  jurisdiction?: string;
+  sics_sector?: string;
+  sics_sub_sector?: string;
+  sics_industry?: string;
+  company_ids?: number[];
+  start_year?: number;
+  end_year?: number;
+}
+
+export interface ExportResult {
+  source: ExportSource;
+  format: ExportFormat;
+  files: string[];
+  sheets: { name: string; rows: number }[];
+  rowCount: number;
+  databaseBuildDate: string | null;
+  disclaimers: string[];
+}
+
+// Exports are not capped by the markdown `limit`
+const UNLIMITED = Number.MAX_SAFE_INTEGER;
+
+const SCOPES = ['scope1', 'scope2_lb', 'scope2_mb', 'scope3'];
+const isScope = (scope: string): scope is db.PeerScope => SCOPES.includes(scope) || /^scope3_cat_([1-9]|1[0-5])$/.test(scope);
+
+const COMPANY_EXPORT_COLUMNS: (keyof CompanyRow)[] = [
+  'nz_id', 'company_name', 'jurisdiction', 'sics_sector', 'sics_sub_sector', 'sics_industry', 'lei',
+];
+
+const SCOPE3_CATEGORY_NUMBERS = Array.from({ length: 15 }, (_, i) => i + 1);
+
+/**
+ * Every reported field of an EmissionsRow, in spreadsheet order
+ */
+export const EMISSIONS_EXPORT_COLUMNS: (keyof EmissionsRow)[] = [
+  'year',
+  'scope1', 'scope1_methodology',
+  'scope2_lb', 'scope2_lb_methodology',
+  'scope2_mb', 'scope2_mb_methodology',
+  'scope3_total',
+  ...SCOPE3_CATEGORY_NUMBERS.map(n => `scope3_cat_${n}` as keyof EmissionsRow),
+  ...SCOPE3_CATEGORY_NUMBERS.flatMap(n => [
+    `scope3_cat_${n}_method` as keyof EmissionsRow,
+    `scope3_cat_${n}_relevancy` as keyof EmissionsRow,
+  ]),
+  'organizational_boundary',
+  'verification_status',
+];
+
+function companyEmissionsCells(company: CompanyRow, emissions: EmissionsRow | null): CellValue[] {
+  return [
+    ...COMPANY_EXPORT_COLUMNS.map(col => company[col] as CellValue),
+    ...EMISSIONS_EXPORT_COLUMNS.map(col => (emissions ? emissions[col] : null) as CellValue),
+  ];
+}
+
+// ==================== SOURCES ====================
+
+function topEmittersSheets(options: ExportOptions): Sheet[] {
+  const scope = options.scope;
+  if (!scope) throw new ToolError('INVALID_ARGUMENTS', 'scope is required for top_emitters export');
+  if (!isScope(scope)) {
+    throw new ToolError('INVALID_ARGUMENTS', `Invalid scope "${scope}" for top_emitters. Use scope1, scope2_lb, scope2_mb, scope3, or scope3_cat_1 through scope3_cat_15.`);
+  }
+  const metric = options.metric || 'absolute';
+
+  const emitters = db.getTopEmitters(scope, UNLIMITED, options.year, {
+    jurisdiction: options.jurisdiction,
+    sics_sector: options.sics_sector,
+    sics_sub_sector: options.sics_sub_sector,
+    sics_industry: options.sics_industry,
+  }, metric);
+  const emissions = db.getEmissionsForCompanyYears(emitters);
+  const companies = new Map(emitters.map(e => [e.nz_id, db.getCompanyById(e.nz_id)!]));
+
+  const valueColumns = metric === 'absolute'
+    ? [`${scope} (${db.METRIC_UNITS.absolute})`]
+    : [`${scope} (${db.METRIC_UNITS[metric]})`, `${scope} (${db.METRIC_UNITS.absolute})`];
+
+  return [{
+    name: 'Top Emitters',
+    columns: ['rank', ...valueColumns, ...COMPANY_EXPORT_COLUMNS, ...EMISSIONS_EXPORT_COLUMNS],
+    rows: emitters.map((e, i) => [
+      i + 1,
+      e.value,
+      ...(metric === 'absolute' ? [] : [e.absolute_value ?? null]),
+      ...companyEmissionsCells(companies.get(e.nz_id)!, emissions[i]),
+    ]),
+  }];
+}
+
+function compareSheets(options: ExportOptions): Sheet[] {
+  let nzIds = options.company_ids || [];
+  if (nzIds.length === 0) {
+    if (!options.jurisdiction && !options.sics_sector && !options.sics_sub_sector && !options.sics_industry) {
+      throw new ToolError('INVALID_ARGUMENTS', 'compare export needs company_ids or at least one filter (jurisdiction, sics_sector, sics_sub_sector, sics_industry)');
+    }
+    nzIds = db.listCompanies({
+      jurisdiction: options.jurisdiction,
+      sics_sector: options.sics_sector,
+      sics_sub_sector: options.sics_sub_sector,
+      sics_industry: options.sics_industry,
+      limit: UNLIMITED,
+    }).data.map(c => c.nz_id);
+  }
+
+  const { companies } = nzIds.length > 0
+    ? db.compareCompaniesWithScope3(nzIds, options.year)
+    : { companies: [] };
+
+  return [{
+    name: 'Comparison',
+    columns: [...COMPANY_EXPORT_COLUMNS, 'scope3_categories_reported', ...EMISSIONS_EXPORT_COLUMNS],
+    rows: companies.map(c => {
+      const cells = companyEmissionsCells(c.company, c.emissions);
+      cells.splice(COMPANY_EXPORT_COLUMNS.length, 0, c.scope3Coverage ? c.scope3Coverage.categoriesReported : null);
+      return cells;
+    }),
+  }];
+}
+
+function peerTrendsSheets(options: ExportOptions): { sheets: Sheet[]; trend: db.PeerTrendResult } {
+  const scope = options.scope as db.PeerTrendScope;
+  if (!scope) throw new ToolError('INVALID_ARGUMENTS', 'scope is required for peer_trends export');
+  if (!isScope(scope)) {
+    throw new ToolError('INVALID_ARGUMENTS', `Invalid scope "${scope}" for peer_trends. Use scope1, scope2_lb, scope2_mb, scope3, or scope3_cat_1 through scope3_cat_15.`);
+  }
+  const filters = {
+    jurisdiction: options.jurisdiction,
+    sics_sector: options.sics_sector,
+    sics_sub_sector: options.sics_sub_sector,
+  };
+
+  const trend = db.getPeerTrend(scope, filters, options.start_year, options.end_year);
+  const constituents = trend.dataPoints.length > 0
+    ? db.getPeerTrendConstituents(scope, filters, trend.yearRange.start, trend.yearRange.end)
+    : [];
+
+  return {
+    trend,
+    sheets: [
+      {
+        name: 'Peer Trend',
+        columns: ['year', 'companies', 'mean', 'median', 'min', 'max', 'percentile25', 'percentile75'],
+        rows: trend.dataPoints.map(p => [p.year, p.count, p.mean, p.median, p.min, p.max, p.percentile25, p.percentile75]),
+      },
+      {
+        name: 'Companies',
+        columns: [...COMPANY_EXPORT_COLUMNS, ...EMISSIONS_EXPORT_COLUMNS],
+        rows: constituents.map(c => companyEmissionsCells(c.company, c.emissions)),
+      },
+    ],
+  };
+}
+
+// ==================== METADATA ====================
+
+// Spreadsheet cells do not render markdown headings
+function plainDisclaimer(disclaimer: string): string {
+  return disclaimer.replace(/^## (.*)\n+/, '$1\n');
+}
+
+function metadataSheet(
+  source: ExportSource,
+  options: ExportOptions,
+  dataSheets: Sheet[],
+  buildDate: string | null,
+  disclaimers: string[],
+  extra: [string, CellValue][]
+): Sheet {
+  const rows: CellValue[][] = [
+    ['source', source],
+    ['exported_at', new Date().toISOString()],
+    ['database_build_date', buildDate || 'Unknown'],
+  ];
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) continue;
+    rows.push([key, Array.isArray(value) ? value.join(', ') : value]);
+  }
+  if (options.metric && options.metric !== 'absolute') {
+    rows.push(['unit', db.METRIC_UNITS[options.metric]]);
+    rows.push(['fx_rates_as_of', FX_RATES_AS_OF]);
+  }
+  for (const sheet of dataSheets) {
+    rows.push([`rows: ${sheet.name}`, sheet.rows.length]);
+  }
+  rows.push(...extra);
+  for (const disclaimer of disclaimers) {
+    rows.push(['disclaimer', plainDisclaimer(disclaimer)]);
+  }
+  return { name: 'Metadata', columns: ['field', 'value'], rows };
+}
+
+// ==================== FILE OUTPUT ====================
+
+/**
+ * Directory exports are confined to: NZDPU_EXPORT_DIR, or ~/nzdpu-exports when unset
+ */
+export function exportDirectory(): string {
+  return path.resolve(process.env.NZDPU_EXPORT_DIR || path.join(os.homedir(), 'nzdpu-exports'));
+}
+
+/**
+ * Resolve the output path and format
+ * Paths resolve against the export directory, and files may only be written inside it
+ */
+export function resolveExportPath(requested: string, format?: ExportFormat): { filePath: string; format: ExportFormat } {
+  if (!requested || !requested.trim()) throw new ToolError('INVALID_ARGUMENTS', 'path is required for export');
+
+  const exportDir = exportDirectory();
+  let filePath = path.resolve(exportDir, requested.trim());
+  if (!filePath.startsWith(exportDir + path.sep)) {
+    throw new ToolError('INVALID_ARGUMENTS', `Export path must be inside the export directory (${exportDir}). Set NZDPU_EXPORT_DIR to export elsewhere.`);
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.csv' || ext === '.xlsx') {
+    const fromExt = ext.slice(1) as ExportFormat;
+    if (format && format !== fromExt) {
+      throw new ToolError('INVALID_ARGUMENTS', `format "${format}" does not match the file extension "${ext}"`);
+    }
+    return { filePath, format: fromExt };
+  }
+  if (ext) throw new ToolError('INVALID_ARGUMENTS', `Unsupported export file extension "${ext}". Use .csv or .xlsx.`);
+
+  const resolvedFormat = format || 'xlsx';
+  filePath += `.${resolvedFormat}`;
+  return { filePath, format: resolvedFormat };
+}
+
+function csvCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise a sheet as RFC 4180 CSV (UTF-8 with BOM so Excel keeps tCO₂e intact)
+ */
+export function toCsv(sheet: Sheet): string {
+  const lines = [sheet.columns, ...sheet.rows].map(row => row.map(csvCell).join(','));
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Build the full result set for a source and write it to disk
+ * CSV writes one file per sheet: the data at `path`, other sheets alongside it
+ * (e.g. top_emitters_metadata.csv)
+ */
+export function exportResults(
+  source: ExportSource,
+  requestedPath: string,
+  options: ExportOptions,
+  settings: { format?: ExportFormat; overwrite?: boolean } = {}
+): ExportResult {
+  if (!EXPORT_SOURCES.includes(source)) {
+    throw new ToolError('INVALID_ARGUMENTS', `Invalid source "${source}". Use: ${EXPORT_SOURCES.join(', ')}`);
+  }
+  const { filePath, format } = resolveExportPath(requestedPath, settings.format);
+
+  let dataSheets: Sheet[];
+  let disclaimers: string[];
+  const extra: [string, CellValue][] = [];
+  if (source === 'top_emitters') {
+    dataSheets = topEmittersSheets(options);
+    disclaimers = [RANKING_DISCLAIMER];
+  } else if (source === 'compare') {
+    dataSheets = compareSheets(options);
+    disclaimers = [BENCHMARK_DISCLAIMER];
+  } else {
+    const result = peerTrendsSheets(options);
+    dataSheets = result.sheets;
+    disclaimers = [CROSS_YEAR_DISCLAIMER, BENCHMARK_DISCLAIMER];
+    extra.push(['trend_direction', result.trend.overallTrendDirection]);
+    extra.push(['mean_change_percent', result.trend.meanChangePercent]);
+    extra.push(['mean_cagr_percent', result.trend.averageAnnualGrowthRate]);
+  }
+  // Every export carries all Scope 3 categories
+  disclaimers.push(SCOPE3_DATA_QUALITY_DISCLAIMER);
+
+  const buildDate = db.getDatabaseMetadata().build_date || null;
+  const sheets = [...dataSheets, metadataSheet(source, options, dataSheets, buildDate, disclaimers, extra)];
+
+  let outputs: { file: string; content: string | Buffer }[];
+  if (format === 'xlsx') {
+    outputs = [{ file: filePath, content: buildXlsx(sheets) }];
+  } else {
+    const stem = filePath.slice(0, -'.csv'.length);
+    outputs = sheets.map((sheet, i) => ({
+      file: i === 0 ? filePath : `${stem}_${sheet.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}.csv`,
+      content: toCsv(sheet),
+    }));
+  }
+
+  if (!settings.overwrite) {
+    const existing = outputs.find(o => existsSync(o.file));
+    if (existing) {
+      throw new ToolError('FILE_EXISTS', `${existing.file} already exists. Pass overwrite: true to replace it.`, { file: existing.file });
+    }
+  }
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  for (const output of outputs) {
+    writeFileSync(output.file, output.content);
+  }
+
+  return {
+    source,
+    format,
+    files: outputs.map(o => o.file),
+    sheets: sheets.map(s => ({ name: s.name, rows: s.rows.length })),
+    rowCount: dataSheets[0].rows.length,
+    databaseBuildDate: buildDate,
+    disclaimers,
+  };
+}
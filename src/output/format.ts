@@ -0,0 +1,55 @@
+/**
+ * Tool result formatting (markdown or structured JSON)
+ */
+
+import { ToolError } from '../validation/errors.js';
+
+export type OutputFormat = 'markdown' | 'json';
+
+export interface StructuredResult {
+  tool: string;
+  mode: string | null;
+  format: OutputFormat;
+  data?: unknown;
+  disclaimers: string[];
+}
+
+/**
+ * Read and validate the output_format argument
+ */
+export function parseOutputFormat(value: unknown): OutputFormat {
+  if (value === undefined || value === null || value === 'markdown') return 'markdown';
+  if (value === 'json') return 'json';
+  throw new ToolError('INVALID_ARGUMENTS', `Invalid output_format: ${value}. Use "markdown" or "json".`);
+}
+
+/**
+ * Build a tool result in the requested format
+ * Structured content is always attached (tools publish an output schema); the typed data
+ * is only included in json mode so markdown responses stay small. In json mode the text
+ * content carries the same JSON for clients that ignore structured content.
+ */
+export function formatToolResult(options: {
+  tool: string;
+  mode: string | null;
+  format: OutputFormat;
+  markdown: string;
+  data: unknown;
+  disclaimers?: string[];
+}) {
+  const structuredContent: StructuredResult = {
+    tool: options.tool,
+    mode: options.mode,
+    format: options.format,
+    disclaimers: options.disclaimers || [],
+  };
+  if (options.format === 'json') {
+    structuredContent.data = options.data;
+  }
+
+  const text = options.format === 'json' ? JSON.stringify(structuredContent, null, 2) : options.markdown;
+  return {
+    content: [{ type: 'text' as const, text }],
+    structuredContent: structuredContent as unknown as Record<string, unknown>,
+  };
+}
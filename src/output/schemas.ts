@@ -0,0 +1,568 @@
+/**
+ * Published output schemas for structured (output_format: "json") tool results
+ *
+ * Every tool returns the same envelope - tool, mode, format, data, disclaimers -
+ * and the shape of `data` depends on the tool. Schemas describe the fields clients
+ * can rely on without forbidding additional ones, so new fields are not breaking.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+const NUMBER_OR_NULL: JsonSchema = { type: ['number', 'null'] };
+const STRING_OR_NULL: JsonSchema = { type: ['string', 'null'] };
+
+const objectOf = (description: string, properties: Record<string, JsonSchema>): JsonSchema =>
+  ({ type: 'object', description, properties });
+
+const arrayOf = (items: JsonSchema, description?: string): JsonSchema =>
+  description ? { type: 'array', description, items } : { type: 'array', items };
+
+const nullable = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'null' }] });
+
+// ==================== SHARED SHAPES ====================
+
+export const COMPANY_ROW_SCHEMA = objectOf('CompanyRow: company profile', {
+  nz_id: { type: 'integer' },
+  company_name: { type: 'string' },
+  jurisdiction: STRING_OR_NULL,
+  sics_sector: STRING_OR_NULL,
+  sics_sub_sector: STRING_OR_NULL,
+  sics_industry: STRING_OR_NULL,
+  lei: STRING_OR_NULL,
+  latest_reported_year: NUMBER_OR_NULL,
+  alias: STRING_OR_NULL,
+  match_score: { type: 'number', description: 'Name/alias match score (0-1), ranked name searches only' },
+  revenue: NUMBER_OR_NULL,
+  revenue_currency: STRING_OR_NULL,
+  employee_count: NUMBER_OR_NULL,
+});
+
+const emissionsRowProperties: Record<string, JsonSchema> = {
+  nz_id: { type: 'integer' },
+  year: { type: 'integer' },
+  scope1: NUMBER_OR_NULL,
+  scope1_methodology: STRING_OR_NULL,
+  scope2_lb: NUMBER_OR_NULL,
+  scope2_mb: NUMBER_OR_NULL,
+  scope2_lb_methodology: STRING_OR_NULL,
+  scope2_mb_methodology: STRING_OR_NULL,
+  scope3_total: NUMBER_OR_NULL,
+  organizational_boundary: STRING_OR_NULL,
+  verification_status: STRING_OR_NULL,
+  revenue: { ...NUMBER_OR_NULL, description: 'Revenue reported in this disclosure (intensity denominator)' },
+  revenue_currency: STRING_OR_NULL,
+  employee_count: { ...NUMBER_OR_NULL, description: 'Employees reported in this disclosure (intensity denominator)' },
+};
+for (let i = 1; i <= 15; i++) {
+  emissionsRowProperties[`scope3_cat_${i}`] = NUMBER_OR_NULL;
+  emissionsRowProperties[`scope3_cat_${i}_method`] = STRING_OR_NULL;
+  emissionsRowProperties[`scope3_cat_${i}_relevancy`] = STRING_OR_NULL;
+}
+
+export const EMISSIONS_ROW_SCHEMA = objectOf('EmissionsRow: one company-year disclosure (tCO₂e)', emissionsRowProperties);
+
+export const PEER_GROUP_STATS_SCHEMA = objectOf('PeerGroupStats: distribution of peer values', {
+  count: { type: 'integer' },
+  mean: { type: 'number' },
+  median: { type: 'number' },
+  stdDev: { type: 'number' },
+  min: { type: 'number' },
+  max: { type: 'number' },
+  percentile25: { type: 'number' },
+  percentile75: { type: 'number' },
+  geometricMean: { ...NUMBER_OR_NULL, description: 'exp(mean ln value); null if any value is <= 0' },
+  logStdDev: { ...NUMBER_OR_NULL, description: 'Standard deviation of ln value' },
+  trimmedMean: { type: 'number', description: 'Mean with 10% cut from each tail' },
+  winsorizedMean: { type: 'number', description: 'Mean with 10% of each tail clamped' },
+  iqr: { type: 'number', description: 'percentile75 - percentile25' },
+  deciles: arrayOf({ type: 'number' }, '10th to 90th percentiles'),
+  medianCI: nullable(objectOf('Bootstrap confidence interval for the median; null below 3 peers', {
+    lower: { type: 'number' },
+    upper: { type: 'number' },
+    level: { type: 'number' },
+    resamples: { type: 'integer' },
+  })),
+  sampleWarning: STRING_OR_NULL,
+});
+
+export const COMPARABILITY_FILTER_SCHEMA = objectOf('ComparabilityFilter: reference disclosure for comparable_only and the peers it excluded', {
+  reference: objectOf('Company disclosure (source: company) or most common peer profile (source: peers)', {
+    source: { type: 'string', enum: ['company', 'peers'] },
+    year: { type: 'integer' },
+    boundary: STRING_OR_NULL,
+    scope3Categories: { anyOf: [arrayOf({ type: 'integer' }), { type: 'null' }] },
+  }),
+  excluded: objectOf('Excluded peers by reason', {
+    year: { type: 'integer' },
+    boundary: { type: 'integer' },
+    scope3_coverage: { type: 'integer' },
+  }),
+  excludedPeers: arrayOf(objectOf('ExcludedPeer', {
+    nz_id: { type: 'integer' },
+    company_name: { type: 'string' },
+    year: { type: 'integer' },
+    reason: { type: 'string', enum: ['year', 'boundary', 'scope3_coverage'] },
+    detail: { type: 'string' },
+  })),
+});
+
+const yearComparisonProperties: Record<string, JsonSchema> = {
+  nz_id: { type: 'integer' },
+  company_name: { type: 'string' },
+  year1: { type: 'integer' },
+  year2: { type: 'integer' },
+  yearsApart: { type: 'integer' },
+  boundary_year1: STRING_OR_NULL,
+  boundary_year2: STRING_OR_NULL,
+  boundary_changed: { type: 'boolean' },
+  verification_year1: STRING_OR_NULL,
+  verification_year2: STRING_OR_NULL,
+  verification_changed: { type: 'boolean' },
+};
+for (const scope of ['scope1', 'scope2_lb', 'scope2_mb', 'scope3']) {
+  for (const field of ['year1', 'year2', 'delta', 'percent_change', 'cagr']) {
+    yearComparisonProperties[`${scope}_${field}`] = NUMBER_OR_NULL;
+  }
+}
+
+export const YEAR_COMPARISON_SCHEMA = objectOf('YearComparisonResult: change between two reporting years', yearComparisonProperties);
+
+const TREND_INTERVAL_SCHEMA = objectOf('Annual % change interval', {
+  lower: { type: 'number' },
+  upper: { type: 'number' },
+  level: { type: 'number' },
+});
+
+export const TREND_ESTIMATE_SCHEMA = objectOf('TrendEstimate: slopes of ln(emissions) on year; annual % = exp(slope) - 1', {
+  points: { type: 'integer' },
+  startYear: { type: 'integer' },
+  endYear: { type: 'integer' },
+  ols: objectOf('Least squares', {
+    slope: { type: 'number' },
+    annualChangePercent: { type: 'number' },
+    ci: TREND_INTERVAL_SCHEMA,
+    rSquared: { type: 'number' },
+  }),
+  theilSen: objectOf('Median of pairwise slopes', {
+    slope: { type: 'number' },
+    annualChangePercent: { type: 'number' },
+    ci: nullable(TREND_INTERVAL_SCHEMA),
+  }),
+  mannKendall: objectOf('Mann-Kendall monotonic trend test', {
+    s: { type: 'number' },
+    tau: { type: 'number' },
+    z: { type: 'number' },
+    pValue: { type: 'number' },
+    significant: { type: 'boolean' },
+  }),
+  direction: { type: 'string', enum: ['increasing', 'decreasing', 'no_significant_trend'] },
+});
+
+export const PEER_TREND_SCHEMA = objectOf('PeerTrendResult: peer group statistics by year', {
+  filters: { type: 'object' },
+  yearRange: objectOf('First and last year with data', {
+    start: { type: 'integer' },
+    end: { type: 'integer' },
+    totalYears: { type: 'integer' },
+  }),
+  dataPoints: arrayOf(objectOf('PeerTrendDataPoint', {
+    year: { type: 'integer' },
+    count: { type: 'integer' },
+    sum: { type: 'number' },
+    mean: { type: 'number' },
+    median: { type: 'number' },
+    min: { type: 'number' },
+    max: { type: 'number' },
+    percentile25: { type: 'number' },
+    percentile75: { type: 'number' },
+  })),
+  overallTrendDirection: { type: 'string', enum: ['increasing', 'decreasing', 'stable', 'insufficient_data'] },
+  meanChange: NUMBER_OR_NULL,
+  meanChangePercent: NUMBER_OR_NULL,
+  averageAnnualChange: NUMBER_OR_NULL,
+  averageAnnualGrowthRate: NUMBER_OR_NULL,
+  regression: nullable(TREND_ESTIMATE_SCHEMA),
+  cohort: { type: 'string', enum: ['all', 'constant'] },
+  cohortSize: { ...NUMBER_OR_NULL, description: 'Companies reporting in every year (constant cohort)' },
+  composition: nullable(objectOf('CompositionAttribution: first-to-last change split into constant-cohort change and composition', {
+    startYear: { type: 'integer' },
+    endYear: { type: 'integer' },
+    entrants: { type: 'integer' },
+    leavers: { type: 'integer' },
+    unbalancedMeanChange: { type: 'number' },
+    cohortMeanChange: { type: 'number' },
+    compositionMeanChange: { type: 'number' },
+    unbalancedSumChange: { type: 'number' },
+    cohortSumChange: { type: 'number' },
+    compositionSumChange: { type: 'number' },
+    compositionShare: { ...NUMBER_OR_NULL, description: 'Composition as % of the all-company mean change' },
+  })),
+});
+
+const QUALITY_SCORE: JsonSchema = { type: 'string', enum: ['HIGH', 'MEDIUM', 'LOW'] };
+
+export const QUALITY_ASSESSMENT_SCHEMA = objectOf('EnhancedDataQualityAssessment: boundary, verification and methodology scores', {
+  nz_id: { type: 'integer' },
+  year: { type: 'integer' },
+  boundaryScore: QUALITY_SCORE,
+  boundaryType: STRING_OR_NULL,
+  boundaryIsStandard: { type: 'boolean' },
+  verificationScore: QUALITY_SCORE,
+  verificationType: STRING_OR_NULL,
+  scope1MethodologyScore: QUALITY_SCORE,
+  scope2LBMethodologyScore: QUALITY_SCORE,
+  scope2MBMethodologyScore: QUALITY_SCORE,
+  scope3MethodQuality: { type: 'object', description: 'Per Scope 3 category (keyed 1-15): method, methodTier, relevancy, value' },
+  overallScore: QUALITY_SCORE,
+  warnings: arrayOf({ type: 'string' }),
+  methodologyConsistent: { type: 'boolean' },
+  methodologyChanges: arrayOf({ type: 'string' }),
+});
+
+const PAGE_SCHEMA = objectOf('PageInfo: position in the full result set; pass next_cursor as cursor for the following page', {
+  total: { type: 'integer' },
+  offset: { type: 'integer' },
+  returned: { type: 'integer' },
+  remaining: { type: 'integer' },
+  next_cursor: STRING_OR_NULL,
+});
+
+const GENERIC_OBJECT: JsonSchema = { type: 'object' };
+const GENERIC_ARRAY: JsonSchema = arrayOf(GENERIC_OBJECT);
+
+// ==================== PER-TOOL DATA ====================
+
+const TOOL_DATA_SCHEMAS: Record<string, JsonSchema> = {
+  nzdpu_search: objectOf('Matching companies; identifier lookups also return per-identifier matches', {
+    total: { type: 'integer' },
+    companies: arrayOf(COMPANY_ROW_SCHEMA),
+    matches: arrayOf(objectOf('IdentifierMatch', {
+      identifier: { type: 'string' },
+      type: { type: 'string', enum: ['nz_id', 'lei', 'isin', 'ticker'] },
+      status: { type: 'string', enum: ['matched', 'ambiguous', 'not_found', 'invalid'] },
+      companies: arrayOf(COMPANY_ROW_SCHEMA),
+      note: STRING_OR_NULL,
+    })),
+    suggestions: arrayOf(GENERIC_OBJECT, '"Did you mean" names when a name search matched nothing'),
+    page: PAGE_SCHEMA,
+  }),
+  nzdpu_emissions: objectOf('Company profile and every reported year', {
+    company: COMPANY_ROW_SCHEMA,
+    emissions: arrayOf(EMISSIONS_ROW_SCHEMA),
+    scope3Coverage: arrayOf(GENERIC_OBJECT, 'Scope3CoverageSummary per year with Scope 3 data'),
+  }),
+  nzdpu_list: objectOf('Classification values with company counts', {
+    type: { type: 'string', enum: ['sectors', 'jurisdictions', 'subsectors'] },
+    items: GENERIC_ARRAY,
+  }),
+  nzdpu_analyze: objectOf('Mode-specific analysis result', {
+    stats: { type: 'object', description: 'DatasetStats (overview, disclosure)' },
+    scope: { type: 'string' },
+    metric: { type: 'string', enum: ['absolute', 'per_revenue', 'per_employee'] },
+    unit: { type: 'string' },
+    filters: GENERIC_OBJECT,
+    emitters: arrayOf(GENERIC_OBJECT, 'TopEmitter rows, highest first (top_emitters)'),
+    companies: arrayOf(GENERIC_OBJECT, 'Companies meeting min_disclosures (disclosure)'),
+    issues: arrayOf(objectOf('DataQualityIssue: one flagged value (data_issues), errors first', {
+      rule: { type: 'string' },
+      severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+      nz_id: { type: 'integer' },
+      company_name: { type: 'string' },
+      sics_sector: STRING_OR_NULL,
+      year: { type: 'integer' },
+      scope: { type: 'string' },
+      value: { type: 'number' },
+      issue: { type: 'string' },
+    })),
+    rules: arrayOf(GENERIC_OBJECT, 'Rules applied with their issue counts (data_issues)'),
+    recordsChecked: { type: 'integer', description: 'Company-years checked (data_issues)' },
+    total: { type: 'integer', description: 'Issues found before the limit (data_issues)' },
+    outliers: arrayOf(objectOf('PeerOutlier: value with |robust z| above the threshold within its SICS industry and year (outliers)', {
+      nz_id: { type: 'integer' },
+      company_name: { type: 'string' },
+      jurisdiction: STRING_OR_NULL,
+      sics_industry: { type: 'string' },
+      year: { type: 'integer' },
+      value: { type: 'number' },
+      peerCount: { type: 'integer' },
+      peerMedian: { type: 'number' },
+      zScore: { type: 'number' },
+      direction: { type: 'string', enum: ['high', 'low'] },
+    })),
+    threshold: { type: 'number', description: 'Robust z-score cut-off (outliers)' },
+    groupsChecked: { type: 'integer', description: 'Industry-year groups scored (outliers)' },
+    comparison: YEAR_COMPARISON_SCHEMA,
+    decomposition: objectOf('ChangeDecomposition: reporting vs like-for-like change between two years (change_decomposition)', {
+      nz_id: { type: 'integer' },
+      company_name: { type: 'string' },
+      year1: { type: 'integer' },
+      year2: { type: 'integer' },
+      boundary1: STRING_OR_NULL,
+      boundary2: STRING_OR_NULL,
+      boundaryChanged: { type: 'boolean' },
+      scopes: arrayOf(objectOf('ScopeChange: Scope 1 or 2 change with its methodology', {
+        scope: { type: 'string', enum: ['scope1', 'scope2_lb', 'scope2_mb'] },
+        value1: NUMBER_OR_NULL,
+        value2: NUMBER_OR_NULL,
+        delta: NUMBER_OR_NULL,
+        percentChange: NUMBER_OR_NULL,
+        methodology1: STRING_OR_NULL,
+        methodology2: STRING_OR_NULL,
+        methodChanged: { type: 'boolean' },
+      })),
+      scope3: objectOf('Scope 3 change split into components that sum to the reported total change', {
+        total1: NUMBER_OR_NULL,
+        total2: NUMBER_OR_NULL,
+        delta: NUMBER_OR_NULL,
+        percentChange: NUMBER_OR_NULL,
+        components: objectOf('Change in tCO₂e by cause', {
+          newCategories: { type: 'number' },
+          droppedCategories: { type: 'number' },
+          methodChanges: { type: 'number' },
+          likeForLike: { type: 'number' },
+          unallocated: { type: 'number' },
+        }),
+        likeForLikeBase: { type: 'number' },
+        likeForLikePercent: NUMBER_OR_NULL,
+        categories: arrayOf(objectOf('CategoryChange: one Scope 3 category reported in either year', {
+          category: { type: 'integer' },
+          name: { type: 'string' },
+          status: { type: 'string', enum: ['new', 'dropped', 'continuing'] },
+          value1: NUMBER_OR_NULL,
+          value2: NUMBER_OR_NULL,
+          delta: { type: 'number' },
+          method1: STRING_OR_NULL,
+          method2: STRING_OR_NULL,
+          tier1: { type: 'string', enum: ['PRIMARY', 'MODELED', 'UNKNOWN'] },
+          tier2: { type: 'string', enum: ['PRIMARY', 'MODELED', 'UNKNOWN'] },
+          methodChanged: { type: 'boolean' },
+          tierChange: nullable({ type: 'string', enum: ['upgraded', 'downgraded', 'same_tier'] }),
+        })),
+      }),
+    }),
+    trend: PEER_TREND_SCHEMA,
+    companyTrend: objectOf('CompanyTrendResult: fitted trend per scope (company_trend)', {
+      nz_id: { type: 'integer' },
+      company_name: { type: 'string' },
+      series: arrayOf(GENERIC_OBJECT, 'TimeSeriesPoint per reported year'),
+      trends: objectOf('TrendEstimate per scope; null below 3 reported years', {
+        scope1: nullable(TREND_ESTIMATE_SCHEMA),
+        scope2_lb: nullable(TREND_ESTIMATE_SCHEMA),
+        scope2_mb: nullable(TREND_ESTIMATE_SCHEMA),
+        scope3: nullable(TREND_ESTIMATE_SCHEMA),
+      }),
+      boundaryChanges: arrayOf({ type: 'integer' }, 'Years whose organizational boundary differs from the previous year'),
+    }),
+    timeSeries: objectOf('CompanyTimeSeriesResult: every reported year across scopes and categories (time_series)', {
+      nz_id: { type: 'integer' },
+      company_name: { type: 'string' },
+      years: arrayOf({ type: 'integer' }),
+      rows: arrayOf(objectOf('TimeSeriesRow: one scope or Scope 3 category', {
+        key: { type: 'string' },
+        label: { type: 'string' },
+        values: arrayOf(objectOf('TimeSeriesValue: one year, with change from the previous reported year', {
+          year: { type: 'integer' },
+          value: NUMBER_OR_NULL,
+          delta: NUMBER_OR_NULL,
+          percentChange: NUMBER_OR_NULL,
+        })),
+        cagr: NUMBER_OR_NULL,
+        cagrStartYear: NUMBER_OR_NULL,
+        cagrEndYear: NUMBER_OR_NULL,
+      })),
+      markers: arrayOf(objectOf('TimeSeriesMarker: a change that took effect in a year', {
+        year: { type: 'integer' },
+        kind: { type: 'string', enum: ['methodology', 'boundary', 'verification'] },
+        scope: { type: 'string' },
+        previous: STRING_OR_NULL,
+        current: STRING_OR_NULL,
+      })),
+    }),
+    company: COMPANY_ROW_SCHEMA,
+    progress: arrayOf(GENERIC_OBJECT, 'TargetProgressResult per target (target_progress)'),
+    page: PAGE_SCHEMA,
+  }),
+  nzdpu_benchmark: objectOf('Mode-specific benchmark result', {
+    scope: { type: 'string' },
+    metric: { type: 'string', enum: ['absolute', 'per_revenue', 'per_employee', 'category_share'] },
+    unit: { type: 'string' },
+    company: COMPANY_ROW_SCHEMA,
+    companyValue: NUMBER_OR_NULL,
+    companyAbsoluteValue: NUMBER_OR_NULL,
+    companyYear: { type: 'integer' },
+    jurisdictionStats: nullable(PEER_GROUP_STATS_SCHEMA),
+    sectorStats: nullable(PEER_GROUP_STATS_SCHEMA),
+    combinedStats: nullable(PEER_GROUP_STATS_SCHEMA),
+    percentileInJurisdiction: NUMBER_OR_NULL,
+    percentileInSector: NUMBER_OR_NULL,
+    percentileInCombined: NUMBER_OR_NULL,
+    outlier: nullable(objectOf('CompanyOutlierCheck: robust z-score within the SICS industry and year (single); null when the group has too few companies', {
+      sics_industry: { type: 'string' },
+      year: { type: 'integer' },
+      value: { type: 'number' },
+      peerCount: { type: 'integer' },
+      peerMedian: { type: 'number' },
+      zScore: { type: 'number' },
+      isOutlier: { type: 'boolean' },
+      direction: { anyOf: [{ type: 'string', enum: ['high', 'low'] }, { type: 'null' }] },
+    })),
+    peerGroup: nullable(objectOf('PeerGroup: explicit peer definition and the membership used (single with peer arguments, peer_stats)', {
+      criteria: arrayOf({ type: 'string' }),
+      year: NUMBER_OR_NULL,
+      members: arrayOf(objectOf('PeerMember: one company-year in the group, largest first', {
+        nz_id: { type: 'integer' },
+        company_name: { type: 'string' },
+        jurisdiction: STRING_OR_NULL,
+        sics_industry: STRING_OR_NULL,
+        year: { type: 'integer' },
+        value: { type: 'number', description: 'In the requested metric' },
+        absoluteValue: { type: 'number', description: 'tCO₂e' },
+      })),
+      stats: nullable(PEER_GROUP_STATS_SCHEMA),
+      missingPeerIds: arrayOf({ type: 'integer' }, 'peer_ids with no qualifying value'),
+      percentile: NUMBER_OR_NULL,
+      comparability: nullable(COMPARABILITY_FILTER_SCHEMA),
+    })),
+    materialCategories: nullable(objectOf('MaterialCategoryBenchmark: material Scope 3 categories as % of Scope 3 against sector peers (single with a Scope 3 scope)', {
+      sector: { type: 'string' },
+      year: { type: 'integer' },
+      materialityKey: { ...STRING_OR_NULL, description: 'Sub-sector or sector the material set comes from; null for the default set' },
+      reasoning: { type: 'string' },
+      categories: arrayOf(objectOf('CategoryShareBenchmark', {
+        category: { type: 'integer' },
+        name: { type: 'string' },
+        companyShare: NUMBER_OR_NULL,
+        peerMedianShare: NUMBER_OR_NULL,
+        peerCount: { type: 'integer' },
+        percentile: NUMBER_OR_NULL,
+      })),
+    })),
+    comparability: nullable(objectOf('comparable_only exclusions per default peer group (single)', {
+      jurisdiction: nullable(COMPARABILITY_FILTER_SCHEMA),
+      sector: nullable(COMPARABILITY_FILTER_SCHEMA),
+      combined: nullable(COMPARABILITY_FILTER_SCHEMA),
+    })),
+    companies: arrayOf(objectOf('Compared company (compare)', {
+      company: COMPANY_ROW_SCHEMA,
+      emissions: nullable(EMISSIONS_ROW_SCHEMA),
+      scope3Coverage: nullable(GENERIC_OBJECT),
+    })),
+    quality: arrayOf(GENERIC_OBJECT, 'Data quality per compared company (compare)'),
+    scope3VarianceWarning: STRING_OR_NULL,
+    comparabilityWarnings: arrayOf({ type: 'string' }),
+    filters: GENERIC_OBJECT,
+    stats: nullable(PEER_GROUP_STATS_SCHEMA),
+    pathway: objectOf('PathwayAlignmentResult: implied temperature rise per company and aggregated (pathway)', {
+      version: { type: 'string', description: 'Version of the bundled pathway curves' },
+      asOf: { type: 'string' },
+      coverage: { type: 'string', enum: ['scope1_2', 'scope1_2_3'] },
+      companies: arrayOf(objectOf('CompanyPathwayAlignment: component scores and ITR for one company', {
+        nz_id: { type: 'integer' },
+        company_name: { type: 'string' },
+        sics_sector: STRING_OR_NULL,
+        sics_sub_sector: STRING_OR_NULL,
+        coverage: { type: 'string', enum: ['scope1_2', 'scope1_2_3'] },
+        scope2Method: { type: 'string', enum: ['scope2_mb', 'scope2_lb'] },
+        latestYear: NUMBER_OR_NULL,
+        latestEmissions: NUMBER_OR_NULL,
+        trajectory: nullable(objectOf('TrajectoryScore: historical annual reduction mapped to temperature', {
+          startYear: { type: 'integer' },
+          endYear: { type: 'integer' },
+          points: { type: 'integer' },
+          method: { type: 'string', enum: ['theil_sen', 'endpoints'] },
+          annualReductionPercent: { type: 'number', description: '% of start-year emissions per year; negative = growth' },
+          temperature: { type: 'number' },
+        })),
+        target: objectOf('TargetScore: declared target mapped to temperature, or the default score', {
+          target: nullable(GENERIC_OBJECT),
+          scopeLabel: STRING_OR_NULL,
+          annualReductionPercent: NUMBER_OR_NULL,
+          temperature: { type: 'number' },
+          isDefault: { type: 'boolean' },
+          reason: STRING_OR_NULL,
+        }),
+        intensity: nullable(objectOf('IntensityScore: latest intensity against the sector curves', {
+          pathwayKey: { type: 'string' },
+          year: { type: 'integer' },
+          intensity: { type: 'number' },
+          unit: { type: 'string' },
+          pathwayIntensities: GENERIC_OBJECT,
+          temperature: { type: 'number' },
+        })),
+        temperature: { ...NUMBER_OR_NULL, description: 'Implied temperature rise (°C); null without trajectory, intensity or target data' },
+        boundaryChanges: arrayOf({ type: 'integer' }),
+      })),
+      notFound: arrayOf({ type: 'integer' }, 'nz_ids with no company'),
+      aggregate: objectOf('PathwayAlignmentAggregate', {
+        companies: { type: 'integer' },
+        scored: { type: 'integer' },
+        meanTemperature: NUMBER_OR_NULL,
+        emissionsWeightedTemperature: NUMBER_OR_NULL,
+        distribution: arrayOf(objectOf('Companies per temperature band', {
+          band: { type: 'string' },
+          count: { type: 'integer' },
+        })),
+      }),
+    }),
+  }),
+  nzdpu_quality: objectOf('Data quality assessment for the latest (or requested) year', {
+    company: COMPANY_ROW_SCHEMA,
+    assessment: nullable(QUALITY_ASSESSMENT_SCHEMA),
+    methodologyChanges: arrayOf(GENERIC_OBJECT, 'Years where a methodology changed, with the changes'),
+  }),
+  nzdpu_learn: objectOf('Educational content', {
+    topic: { type: 'string' },
+    content: { type: 'string', description: 'Markdown explanation' },
+  }),
+  nzdpu_targets: objectOf('Reported emissions reduction targets', {
+    total: { type: 'integer' },
+    company: COMPANY_ROW_SCHEMA,
+    targets: GENERIC_ARRAY,
+    emissions: arrayOf(EMISSIONS_ROW_SCHEMA),
+    statuses: GENERIC_ARRAY,
+  }),
+  nzdpu_portfolio: objectOf('PortfolioResult: financed emissions and per-holding attribution', {
+    holdings: GENERIC_ARRAY,
+    totalValue: { type: 'number' },
+    coveredValue: { type: 'number', description: 'Value of holdings with Scope 1 and Scope 2 both attributed' },
+    uncoveredValue: { type: 'number', description: 'Value of holdings that are unmatched, lack EVIC, or lack Scope 1 or 2' },
+    financedScope1: { type: 'number' },
+    financedScope2: { type: 'number' },
+    financedScope3: { type: 'number' },
+    carbonFootprint: NUMBER_OR_NULL,
+    waci: NUMBER_OR_NULL,
+    waciCoverage: { type: 'number' },
+    weightedDataQuality: NUMBER_OR_NULL,
+    weightedDataQualityAllHoldings: NUMBER_OR_NULL,
+    currency: { type: 'string' },
+    year: NUMBER_OR_NULL,
+    scope2: { type: 'string', enum: ['scope2_lb', 'scope2_mb'] },
+    includeScope3: { type: 'boolean' },
+  }),
+  nzdpu_export: objectOf('ExportResult: files written to disk', {
+    source: { type: 'string', enum: ['top_emitters', 'compare', 'peer_trends'] },
+    format: { type: 'string', enum: ['csv', 'xlsx'] },
+    files: arrayOf({ type: 'string' }, 'Absolute paths of the files written'),
+    sheets: arrayOf(objectOf('Sheet and its data row count', { name: { type: 'string' }, rows: { type: 'integer' } })),
+    rowCount: { type: 'integer' },
+    databaseBuildDate: STRING_OR_NULL,
+    disclaimers: arrayOf({ type: 'string' }),
+  }),
+};
+
+/**
+ * Output schema for a tool: the shared envelope around its data schema
+ */
+export function getOutputSchema(toolName: string): { type: 'object'; properties: Record<string, JsonSchema>; required: string[] } {
+  return {
+    type: 'object',
+    properties: {
+      tool: { type: 'string' },
+      mode: { ...STRING_OR_NULL, description: 'Sub-mode (analysis, mode, type or topic) when the tool has one' },
+      format: { type: 'string', enum: ['markdown', 'json'] },
+      data: { ...(TOOL_DATA_SCHEMAS[toolName] || GENERIC_OBJECT), description: `${(TOOL_DATA_SCHEMAS[toolName]?.description as string) || 'Result'} (present when output_format is "json")` },
+      disclaimers: arrayOf({ type: 'string' }, 'Disclaimers that apply to this result; read them before drawing conclusions'),
+    },
+    required: ['tool', 'format', 'disclaimers'],
+  };
+}
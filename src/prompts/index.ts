@@ -0,0 +1,242 @@
+/**
+ * MCP prompts
+ * Canned analysis workflows that encode the tool sequence from rule-nzdpu.md and the
+ * standard disclaimers, so any client (including small local models) follows the same process
+ */
+
+import { McpError, ErrorCode, type Prompt, type PromptMessage, type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import * as db from '../db/queries.js';
+import { getMaterialCategories, SCOPE3_CATEGORY_NAMES } from '../knowledge/materiality.js';
+import {
+  BENCHMARK_DISCLAIMER,
+  RANKING_DISCLAIMER,
+  SCOPE3_DATA_QUALITY_DISCLAIMER,
+  CROSS_YEAR_DISCLAIMER,
+  TARGETS_DISCLAIMER,
+  PORTFOLIO_DISCLAIMER,
+  ERROR_MESSAGES,
+  NO_DATA_GUIDANCE,
+} from '../knowledge/disclaimers.js';
+import { SCOPE2_COMPARISON_SUMMARY } from '../knowledge/explanations.js';
+import { companyUri, readResource } from '../resources/index.js';
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'company_deep_dive',
+    title: 'Company deep dive',
+    description: 'Full review of one company: emissions history, data quality, peer benchmark and targets',
+    arguments: [
+      { name: 'nz_id', description: 'Company nz_id (from nzdpu_search)', required: true },
+      { name: 'year', description: 'Reporting year to focus on (default: latest)' },
+    ],
+  },
+  {
+    name: 'sector_peer_review',
+    title: 'Sector peer review',
+    description: 'Peer statistics, largest emitters and trends for a SICS sub-sector, optionally within one jurisdiction',
+    arguments: [
+      { name: 'sub_sector', description: 'SICS sub-sector (e.g. "Oil & Gas")', required: true },
+      { name: 'jurisdiction', description: 'Country/region to restrict the peer group to' },
+      { name: 'scope', description: 'Scope to review (default: scope1)' },
+    ],
+  },
+  {
+    name: 'portfolio_screen',
+    title: 'Portfolio screen',
+    description: 'Financed emissions, data quality and targets for a list of holdings',
+    arguments: [
+      { name: 'holdings', description: 'Holdings as JSON or one per line: identifier (nz_id, LEI, ISIN, ticker or name), position value and EVIC' },
+      { name: 'year', description: 'Emissions year for all holdings (default: latest per company)' },
+    ],
+  },
+  {
+    name: 'explain_comparability',
+    title: 'Explain comparability',
+    description: 'Explain whether and how the emissions of several companies can be compared',
+    arguments: [
+      { name: 'nz_ids', description: 'Comma-separated nz_ids (2 or more)', required: true },
+      { name: 'year', description: 'Reporting year to compare (default: latest per company)' },
+    ],
+  },
+];
+
+// ==================== HELPERS ====================
+
+function requireArg(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  return value;
+}
+
+function parseId(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) throw new McpError(ErrorCode.InvalidParams, `${name} must be a numeric nz_id, got "${value}"`);
+  return parseInt(value, 10);
+}
+
+function parseYear(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  if (!/^\d{4}$/.test(value.trim())) throw new McpError(ErrorCode.InvalidParams, `year must be a four-digit year, got "${value}"`);
+  return parseInt(value, 10);
+}
+
+const steps = (items: string[]) => items.map((item, i) => `${i + 1}. ${item}`).join('\n');
+
+/**
+ * The closing instructions shared by every prompt: disclaimers to carry into the answer
+ */
+function disclaimerBlock(disclaimers: string[]): string {
+  return '## Disclaimers (include the relevant points in your answer)\n\n' + disclaimers.join('\n\n');
+}
+
+const text = (value: string): PromptMessage => ({ role: 'user', content: { type: 'text', text: value } });
+
+// ==================== PROMPTS ====================
+
+function companyDeepDive(args: Record<string, string>): GetPromptResult {
+  const nzId = parseId(requireArg(args, 'nz_id'), 'nz_id');
+  const year = parseYear(args.year);
+  const company = db.getCompanyById(nzId);
+  if (!company) throw new McpError(ErrorCode.InvalidParams, ERROR_MESSAGES.companyNotFound(nzId));
+
+  const yearArg = year ? `, year: ${year}` : '';
+  const materiality = getMaterialCategories(company.sics_sector || '', company.sics_sub_sector || undefined);
+  const materialList = materiality.categories.map(c => `Cat ${c} (${SCOPE3_CATEGORY_NAMES[c]})`).join(', ');
+
+  const instructions = `# Company deep dive: ${company.company_name} (nz_id ${nzId})
+
+Sector: ${company.sics_sector || 'n/a'} > ${company.sics_sub_sector || 'n/a'} > ${company.sics_industry || 'n/a'} | Jurisdiction: ${company.jurisdiction || 'n/a'}
+
+Follow these steps in order. Use only values returned by the tools; never estimate missing data.
+
+${steps([
+  `Call \`nzdpu_emissions\` with { company_id: ${nzId} } for the full history. Note gaps in reporting years.`,
+  `Call \`nzdpu_quality\` with { company_id: ${nzId}${yearArg} }. Report the overall score, boundary, verification and any methodology changes before interpreting the numbers.`,
+  `Check the material Scope 3 categories for this sub-sector: ${materialList}. Say which are reported and with which method.`,
+  `Call \`nzdpu_benchmark\` with { mode: "single", company_id: ${nzId}, sub_sector: "${company.sics_sub_sector || ''}"${yearArg} } for Scope 1, then again with scope "scope2_mb" (or "scope2_lb" if market-based is not reported). Never compare location-based with market-based.`,
+  `Call \`nzdpu_targets\` with { company_id: ${nzId} } and, if targets exist, \`nzdpu_analyze\` with { analysis: "target_progress", company_id: ${nzId} }.`,
+  'Summarise: emissions profile and trend, data quality, position against peers, target status, and the main caveats.',
+])}
+
+${disclaimerBlock([SCOPE2_COMPARISON_SUMMARY, BENCHMARK_DISCLAIMER, CROSS_YEAR_DISCLAIMER, TARGETS_DISCLAIMER])}`;
+
+  const profile = readResource(companyUri(nzId)).contents[0];
+  return {
+    description: `Deep dive on ${company.company_name}`,
+    messages: [
+      text(instructions),
+      { role: 'user', content: { type: 'resource', resource: profile } },
+    ],
+  };
+}
+
+function sectorPeerReview(args: Record<string, string>): GetPromptResult {
+  const requested = requireArg(args, 'sub_sector');
+  const row = db.listSubSectors().find(r => r.sub_sector.toLowerCase() === requested.toLowerCase());
+  if (!row) throw new McpError(ErrorCode.InvalidParams, NO_DATA_GUIDANCE.noSubSector(requested));
+
+  const subSector = row.sub_sector;
+  const jurisdiction = args.jurisdiction?.trim();
+  const scope = args.scope?.trim() || 'scope1';
+  const jurisdictionArg = jurisdiction ? `, jurisdiction: "${jurisdiction}"` : '';
+  const materiality = getMaterialCategories(row.sector, subSector);
+
+  const instructions = `# Sector peer review: ${subSector}${jurisdiction ? ` in ${jurisdiction}` : ''}
+
+Follow these steps in order. Use only values returned by the tools.
+
+${steps([
+  `Call \`nzdpu_search\` with { sub_sector: "${subSector}"${jurisdictionArg} } to confirm the peer group and its size. If it has fewer than 5 companies, say so and treat the statistics as indicative only.`,
+  `Call \`nzdpu_benchmark\` with { mode: "peer_stats", sub_sector: "${subSector}"${jurisdictionArg}, scope: "${scope}" } for median, quartiles and the number of reporters.`,
+  `Call \`nzdpu_analyze\` with { analysis: "top_emitters", sics_sub_sector: "${subSector}"${jurisdictionArg}, scope: "${scope}" }. Also run it with metric "per_revenue" so size does not dominate the ranking.`,
+  `Call \`nzdpu_analyze\` with { analysis: "peer_trends", sics_sub_sector: "${subSector}", scope: "${scope}" } and describe the direction of the median over time, noting changes in the number of reporters.`,
+  `Material Scope 3 categories for this sub-sector: ${materiality.categories.map(c => `Cat ${c}`).join(', ')}. ${materiality.reasoning}`,
+  'Call `nzdpu_quality` for the three largest emitters before drawing conclusions about them.',
+  'Summarise: peer distribution, leaders and laggards (absolute and intensity), trend, and data quality caveats.',
+])}
+
+${disclaimerBlock([BENCHMARK_DISCLAIMER, RANKING_DISCLAIMER, SCOPE3_DATA_QUALITY_DISCLAIMER, SCOPE2_COMPARISON_SUMMARY])}`;
+
+  return {
+    description: `Peer review of ${subSector}${jurisdiction ? ` in ${jurisdiction}` : ''}`,
+    messages: [text(instructions)],
+  };
+}
+
+function portfolioScreen(args: Record<string, string>): GetPromptResult {
+  const holdings = args.holdings?.trim();
+  const year = parseYear(args.year);
+
+  const instructions = `# Portfolio screen
+
+${holdings ? `Holdings provided by the user:\n\n\`\`\`\n${holdings}\n\`\`\`` : 'Ask the user for the holdings (identifier, position value and EVIC or outstanding amount) before starting.'}
+
+Follow these steps in order. Use only values returned by the tools.
+
+${steps([
+  'Call `nzdpu_search` with { identifiers: [...] } using every holding identifier, and list any that are unmatched or ambiguous. Ask the user before guessing a match.',
+  `Call \`nzdpu_portfolio\` once with all matched holdings${year ? ` and year: ${year}` : ''}; each holding needs position_value and evic or outstanding_amount. Do not call \`nzdpu_emissions\` per holding.`,
+  'Report financed emissions by scope, carbon footprint, WACI, coverage and the weighted data quality score. Keep Scope 3 separate from Scope 1+2.',
+  'For holdings with data quality score 4 or 5, or the largest contributors to financed emissions, call `nzdpu_quality`.',
+  'For the five largest contributors, call `nzdpu_targets` with their company_id and note which have no declared target.',
+  'Summarise: totals, concentration, data gaps (unmatched holdings, mixed reporting years) and target coverage.',
+])}
+
+${disclaimerBlock([PORTFOLIO_DISCLAIMER, SCOPE3_DATA_QUALITY_DISCLAIMER, TARGETS_DISCLAIMER])}`;
+
+  return {
+    description: 'Financed emissions screen for a portfolio',
+    messages: [text(instructions)],
+  };
+}
+
+function explainComparability(args: Record<string, string>): GetPromptResult {
+  const ids = requireArg(args, 'nz_ids').split(/[\s,]+/).filter(Boolean).map(id => parseId(id, 'nz_ids'));
+  if (ids.length < 2) throw new McpError(ErrorCode.InvalidParams, 'nz_ids must list at least 2 companies');
+  const year = parseYear(args.year);
+  const yearArg = year ? `, year: ${year}` : '';
+
+  const companies = ids.map(id => {
+    const company = db.getCompanyById(id);
+    if (!company) throw new McpError(ErrorCode.InvalidParams, ERROR_MESSAGES.companyNotFound(id));
+    return company;
+  });
+  const sectors = new Set(companies.map(c => c.sics_sub_sector || 'Unclassified'));
+
+  const instructions = `# Comparability of ${companies.map(c => `${c.company_name} (${c.nz_id})`).join(', ')}
+
+${sectors.size > 1 ? `These companies are in different SICS sub-sectors (${Array.from(sectors).join(', ')}); absolute emissions reflect different business models and should not be ranked against each other.\n\n` : ''}Follow these steps in order. Use only values returned by the tools.
+
+${steps([
+  `Call \`nzdpu_benchmark\` with { mode: "compare", company_ids: [${ids.join(', ')}]${yearArg} } for the side-by-side view.`,
+  `Call \`nzdpu_quality\` for each company${year ? ` with year ${year}` : ''}. Compare organizational boundary (operational vs equity share vs financial control), verification and Scope 3 methods.`,
+  'Check reporting years: if the companies report different years, say so and do not present the figures as same-period values.',
+  'Check Scope 2: compare location-based only with location-based and market-based only with market-based. If one company reports only one method, say which comparison is not possible.',
+  'Call `nzdpu_learn` with the relevant topics, e.g. "comparability:different_boundaries", "comparability:scope2_lb_vs_mb", "comparability:scope3_categories" or "comparability:different_years".',
+  'Conclude with which scopes can be compared directionally, which cannot, and why.',
+])}
+
+${disclaimerBlock([SCOPE2_COMPARISON_SUMMARY, BENCHMARK_DISCLAIMER, CROSS_YEAR_DISCLAIMER, SCOPE3_DATA_QUALITY_DISCLAIMER])}`;
+
+  return {
+    description: `Comparability of ${ids.length} companies`,
+    messages: [text(instructions)],
+  };
+}
+
+const PROMPT_BUILDERS: Record<string, (args: Record<string, string>) => GetPromptResult> = {
+  company_deep_dive: companyDeepDive,
+  sector_peer_review: sectorPeerReview,
+  portfolio_screen: portfolioScreen,
+  explain_comparability: explainComparability,
+};
+
+/**
+ * Build the messages for a prompt
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const build = PROMPT_BUILDERS[name];
+  if (!build) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}. Available: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+  return build(args);
+}
@@ -0,0 +1,269 @@
+/**
+ * MCP resources
+ * Company profiles, emissions, the SICS hierarchy and knowledge-base entries as
+ * addressable nzdpu:// URIs, so clients can attach them as context without a tool call
+ */
+
+import { McpError, ErrorCode, type Resource, type ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import * as db from '../db/queries.js';
+import { ghgConcepts, scope3Categories, explainConcept } from '../knowledge/concepts.js';
+import { reportingFrameworks, getFrameworkInfo } from '../knowledge/advanced.js';
+import { SCOPE2_COMPARISON_SUMMARY } from '../knowledge/explanations.js';
+
+// JSON-RPC code for unknown resources (MCP specification)
+const RESOURCE_NOT_FOUND = -32002;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'nzdpu://company/{nz_id}',
+    name: 'company',
+    title: 'Company profile',
+    description: 'Company profile (jurisdiction, SICS classification, LEI) with the years it has reported and links to each year\'s emissions',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'nzdpu://company/{nz_id}/emissions/{year}',
+    name: 'company-emissions',
+    title: 'Company emissions for a year',
+    description: 'Scope 1, Scope 2 (LB & MB), Scope 3 total and all 15 categories with methods, boundary and verification for one reporting year',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'nzdpu://sector/{name}',
+    name: 'sector',
+    title: 'SICS sector, sub-sector or industry',
+    description: 'A level of the SICS hierarchy with company counts and its children; sub-sectors and industries also list their companies',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'nzdpu://concept/{key}',
+    name: 'concept',
+    title: 'GHG accounting concept',
+    description: 'Explanation of a GHG accounting concept (e.g. scope1, scope2_market_based) or Scope 3 category (scope3_category_1 to scope3_category_15)',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'nzdpu://framework/{name}',
+    name: 'framework',
+    title: 'Reporting framework',
+    description: 'Requirements of a climate reporting framework (e.g. IFRS S2, ESRS E1) for GHG disclosure',
+    mimeType: 'text/markdown',
+  },
+];
+
+// ==================== URIS ====================
+
+export const companyUri = (nzId: number) => `nzdpu://company/${nzId}`;
+export const emissionsUri = (nzId: number, year: number) => `nzdpu://company/${nzId}/emissions/${year}`;
+export const sectorUri = (name: string) => `nzdpu://sector/${encodeURIComponent(name)}`;
+export const conceptUri = (key: string) => `nzdpu://concept/${encodeURIComponent(key)}`;
+export const frameworkUri = (name: string) => `nzdpu://framework/${encodeURIComponent(name)}`;
+
+function notFound(uri: string, message: string): McpError {
+  return new McpError(RESOURCE_NOT_FOUND, message, { uri });
+}
+
+// ==================== LISTING ====================
+
+/**
+ * Browsable resources: the SICS hierarchy (sectors and sub-sectors), concepts and frameworks
+ * Companies are reached through the sector resources or the company URI template.
+ */
+export function listResources(): Resource[] {
+  const resources: Resource[] = [];
+
+  for (const { sector, count } of db.listSectors()) {
+    resources.push({
+      uri: sectorUri(sector),
+      name: sector,
+      title: `Sector: ${sector}`,
+      description: `SICS sector, ${count} companies`,
+      mimeType: 'application/json',
+    });
+  }
+
+  const subSectors = new Map<string, { sector: string; count: number }>();
+  for (const row of db.listSubSectors()) {
+    const entry = subSectors.get(row.sub_sector) || { sector: row.sector, count: 0 };
+    entry.count += row.count;
+    subSectors.set(row.sub_sector, entry);
+  }
+  for (const [subSector, { sector, count }] of subSectors) {
+    resources.push({
+      uri: sectorUri(subSector),
+      name: subSector,
+      title: `Sub-sector: ${sector} > ${subSector}`,
+      description: `SICS sub-sector, ${count} companies`,
+      mimeType: 'application/json',
+    });
+  }
+
+  for (const [key, concept] of Object.entries(ghgConcepts)) {
+    resources.push({ uri: conceptUri(key), name: key, title: concept.name, mimeType: 'text/markdown' });
+  }
+  for (const [num, category] of Object.entries(scope3Categories)) {
+    resources.push({ uri: conceptUri(`scope3_category_${num}`), name: `scope3_category_${num}`, title: category.name, mimeType: 'text/markdown' });
+  }
+
+  for (const [key, framework] of Object.entries(reportingFrameworks)) {
+    resources.push({
+      uri: frameworkUri(key),
+      name: key,
+      title: framework.fullName,
+      description: `${framework.type} framework - ${framework.jurisdiction}`,
+      mimeType: 'text/markdown',
+    });
+  }
+
+  return resources;
+}
+
+// ==================== READING ====================
+
+type ResourceContents = { uri: string; mimeType: string; text: string };
+
+const json = (uri: string, data: unknown): ResourceContents =>
+  ({ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) });
+
+const markdown = (uri: string, text: string): ResourceContents =>
+  ({ uri, mimeType: 'text/markdown', text });
+
+function readCompany(uri: string, nzId: number): ResourceContents {
+  const company = db.getCompanyById(nzId);
+  if (!company) throw notFound(uri, `Company with nz_id ${nzId} not found in database.`);
+
+  const years = db.getCompanyEmissions(nzId).map(e => e.year);
+  return json(uri, {
+    company,
+    reportedYears: years,
+    emissions: years.map(year => ({ year, uri: emissionsUri(nzId, year) })),
+    sector: company.sics_sub_sector ? sectorUri(company.sics_sub_sector) : company.sics_sector ? sectorUri(company.sics_sector) : null,
+  });
+}
+
+function readEmissions(uri: string, nzId: number, year: number): ResourceContents {
+  const company = db.getCompanyById(nzId);
+  if (!company) throw notFound(uri, `Company with nz_id ${nzId} not found in database.`);
+
+  const emissions = db.getCompanyEmissions(nzId, year)[0];
+  if (!emissions) throw notFound(uri, `No emissions data found for company ${nzId} in year ${year}.`);
+
+  return json(uri, {
+    company: { nz_id: company.nz_id, company_name: company.company_name, uri: companyUri(nzId) },
+    emissions,
+    scope3Coverage: db.getScope3CoverageSummary(emissions),
+    disclaimers: [SCOPE2_COMPARISON_SUMMARY],
+  });
+}
+
+function readSector(uri: string, name: string): ResourceContents {
+  const hierarchy = db.listSubSectors();
+  const match = (value: string | null) => value !== null && value.toLowerCase() === name.toLowerCase();
+  const companyLinks = (companies: db.CompanyRow[]) =>
+    companies.map(c => ({ nz_id: c.nz_id, company_name: c.company_name, jurisdiction: c.jurisdiction, uri: companyUri(c.nz_id) }));
+  const all = Number.MAX_SAFE_INTEGER;
+
+  const sector = db.listSectors().find(s => match(s.sector));
+  if (sector) {
+    const subSectors = new Map<string, number>();
+    for (const row of hierarchy.filter(r => r.sector === sector.sector)) {
+      subSectors.set(row.sub_sector, (subSectors.get(row.sub_sector) || 0) + row.count);
+    }
+    return json(uri, {
+      level: 'sector',
+      name: sector.sector,
+      companyCount: sector.count,
+      children: Array.from(subSectors, ([subSector, count]) => ({ level: 'sub_sector', name: subSector, companyCount: count, uri: sectorUri(subSector) })),
+    });
+  }
+
+  const subSectorRows = hierarchy.filter(r => match(r.sub_sector));
+  if (subSectorRows.length > 0) {
+    const { sector: parent, sub_sector: subSector } = subSectorRows[0];
+    const companies = db.listCompanies({ sics_sub_sector: subSector, limit: all }).data;
+    return json(uri, {
+      level: 'sub_sector',
+      name: subSector,
+      parent: { level: 'sector', name: parent, uri: sectorUri(parent) },
+      companyCount: companies.length,
+      children: subSectorRows
+        .filter(r => r.industry)
+        .map(r => ({ level: 'industry', name: r.industry, companyCount: r.count, uri: sectorUri(r.industry) })),
+      companies: companyLinks(companies),
+    });
+  }
+
+  const industryRow = hierarchy.find(r => match(r.industry));
+  if (industryRow) {
+    const companies = db.listCompanies({ sics_industry: industryRow.industry, limit: all }).data
+      .filter(c => c.sics_industry === industryRow.industry);
+    return json(uri, {
+      level: 'industry',
+      name: industryRow.industry,
+      parent: { level: 'sub_sector', name: industryRow.sub_sector, uri: sectorUri(industryRow.sub_sector) },
+      companyCount: companies.length,
+      companies: companyLinks(companies),
+    });
+  }
+
+  throw notFound(uri, `No SICS sector, sub-sector or industry named "${name}". Read a sector resource from resources/list to browse the hierarchy.`);
+}
+
+function readConcept(uri: string, key: string): ResourceContents {
+  const isCategory = /^scope3_category_?(\d+)$/i.exec(key);
+  if (!ghgConcepts[key] && !(isCategory && scope3Categories[parseInt(isCategory[1], 10)])) {
+    throw notFound(uri, `Concept "${key}" not found. Available concepts: ${Object.keys(ghgConcepts).join(', ')}, scope3_category_1 to scope3_category_15`);
+  }
+  return markdown(uri, explainConcept(key));
+}
+
+function readFramework(uri: string, name: string): ResourceContents {
+  const key = Object.keys(reportingFrameworks).find(k => k.toLowerCase() === name.toLowerCase());
+  if (!key) {
+    throw notFound(uri, `Framework "${name}" not found. Available: ${Object.keys(reportingFrameworks).join(', ')}`);
+  }
+  return markdown(uri, getFrameworkInfo(key));
+}
+
+/**
+ * Resolve an nzdpu:// URI to its contents
+ */
+export function readResource(uri: string): { contents: ResourceContents[] } {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+  }
+  if (url.protocol !== 'nzdpu:') {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI scheme "${url.protocol}". Use nzdpu://`);
+  }
+
+  // nzdpu://company/123 parses with host "company" and path "/123"
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const positiveInt = (value: string) => (/^\d+$/.test(value) ? parseInt(value, 10) : NaN);
+
+  switch (url.host) {
+    case 'company': {
+      const nzId = positiveInt(segments[0] || '');
+      if (isNaN(nzId)) break;
+      if (segments.length === 1) return { contents: [readCompany(uri, nzId)] };
+      const year = positiveInt(segments[2] || '');
+      if (segments.length === 3 && segments[1] === 'emissions' && !isNaN(year)) {
+        return { contents: [readEmissions(uri, nzId, year)] };
+      }
+      break;
+    }
+    case 'sector':
+      if (segments.length === 1) return { contents: [readSector(uri, segments[0])] };
+      break;
+    case 'concept':
+      if (segments.length === 1) return { contents: [readConcept(uri, segments[0])] };
+      break;
+    case 'framework':
+      if (segments.length === 1) return { contents: [readFramework(uri, segments[0])] };
+      break;
+  }
+
+  throw notFound(uri, `Unknown resource ${uri}. Templates: ${RESOURCE_TEMPLATES.map(t => t.uriTemplate).join(', ')}`);
+}
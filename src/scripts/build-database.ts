@@ -2,7 +2,7 @@
 /**
  * Build Database Script
  * 
- * Fetches all company and emissions data from the NZDPU API
+ * Fetches all company, emissions, target and intensity denominator data from the NZDPU API
  * and populates a local SQLite database for instant queries.
  * 
  * Usage: npm run build-db
@@ -15,6 +15,10 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import { mkdirSync, existsSync } from 'fs';
 import { initializeDatabase } from '../db/schema.js';
+import { buildSearchIndex } from '../db/companySearch.js';
+import { loadIdentifiers } from './load-identifiers.js';
+import { parseDisclosedTargets, parseReportedNumber } from '../api/disclosureTargets.js';
+import { resolveTargetScope, sumComponents } from '../db/targetProgress.js';
 
 // Database path - CWD/data/nzdpu.db
 const DB_PATH = path.join(process.cwd(), 'data', 'nzdpu.db');
@@ -105,13 +109,48 @@ function extractScope3Relevancy(values: any, category: number): string | null {
   return null;
 }
 
-// Fetch emissions for a single company
+// Extract absolute and intensity reduction targets declared in a disclosure
+function extractTargets(values: any, nzId: number, year: number): any[] {
+  return parseDisclosedTargets(values).map(target => ({
+    nz_id: nzId,
+    reported_year: year,
+    ...target,
+    target_absolute: null,
+  }));
+}
+
+// Target-year emissions (tCO₂e) implied by an absolute target's percentage and the company's
+// own base-year emissions for the covered scopes; null when the base year is not in NZDPU
+function impliedTargetLevel(target: any, emissions: any[]): number | null {
+  if (target.target_type !== 'absolute' || target.target_percentage === null) return null;
+  const scope = resolveTargetScope(target.target_scope);
+  const base = emissions.find(e => e.year === target.base_year);
+  if (!scope || !base) return null;
+  const baseValue = sumComponents({ ...base, scope3: base.scope3_total }, scope.components);
+  return baseValue !== null && baseValue > 0 ? baseValue * (1 - target.target_percentage / 100) : null;
+}
+
+// Extract intensity denominators (revenue, employees) reported in a disclosure
+function extractCompanyProfile(values: any): { revenue: number | null; revenue_currency: string | null; employee_count: number | null } {
+  const currency = values.revenue_currency;
+  return {
+    revenue: parseReportedNumber(values.revenue),
+    revenue_currency: currency && currency !== '—' ? String(currency).toUpperCase() : null,
+    employee_count: parseReportedNumber(values.employee_count, text => parseInt(text, 10)),
+  };
+}
+
+// Fetch emissions (and declared targets, intensity denominators) for a single company
 async function fetchCompanyEmissions(
   client: AxiosInstance,
   nzId: number,
   years: number[]
-): Promise<any[]> {
+): Promise<{ emissions: any[]; targets: any[]; profile: any }> {
   const emissions: any[] = [];
+  const targets: any[] = [];
+  // Years are fetched newest first, so the first value found is the latest reported;
+  // each emissions record also keeps its own year's values for intensity metrics
+  const profile: any = { nz_id: nzId, revenue: null, revenue_currency: null, employee_count: null };
   
   for (const year of years) {
     try {
@@ -158,15 +197,31 @@ async function fetchCompanyEmissions(
           record[`scope3_cat_${cat}_method`] = extractScope3MethodType(values, cat);
           record[`scope3_cat_${cat}_relevancy`] = extractScope3Relevancy(values, cat);
         }
+
+        const reported = extractCompanyProfile(values);
+        Object.assign(record, reported);
         
         emissions.push(record);
+        targets.push(...extractTargets(values, nzId, year));
+
+        if (profile.revenue === null && reported.revenue !== null) {
+          profile.revenue = reported.revenue;
+          profile.revenue_currency = reported.revenue_currency;
+        }
+        if (profile.employee_count === null && reported.employee_count !== null) {
+          profile.employee_count = reported.employee_count;
+        }
       }
     } catch (error) {
       // No data for this year - skip silently
     }
   }
   
-  return emissions;
+  for (const target of targets) {
+    target.target_absolute = impliedTargetLevel(target, emissions);
+  }
+  
+  return { emissions, targets, profile };
 }
 
 function extractVerificationStatus(values: any): string | null {
@@ -186,8 +241,8 @@ function insertCompanies(db: Database.Database, companies: any[]): void {
   
   const insert = db.prepare(`
     INSERT OR REPLACE INTO companies 
-    (nz_id, company_name, jurisdiction, sics_sector, sics_sub_sector, sics_industry, lei, latest_reported_year, source)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (nz_id, company_name, jurisdiction, sics_sector, sics_sub_sector, sics_industry, lei, latest_reported_year, alias, source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   
   const insertMany = db.transaction((items: any[]) => {
@@ -201,6 +256,7 @@ function insertCompanies(db: Database.Database, companies: any[]): void {
         c.sics_industry || null,
         c.lei || null,
         c.latest_reported_year || null,
+        c.alias || null,
         c.source || 'CDP'
       );
     }
@@ -208,6 +264,9 @@ function insertCompanies(db: Database.Database, companies: any[]): void {
   
   insertMany(companies);
   console.log(`✓ Inserted ${companies.length} companies`);
+  
+  const indexed = buildSearchIndex(db);
+  console.log(`✓ Indexed ${indexed} company names for search`);
 }
 
 // Insert emissions into database
@@ -234,9 +293,11 @@ function insertEmissions(db: Database.Database, emissions: any[]): void {
      scope3_cat_13_method, scope3_cat_13_relevancy,
      scope3_cat_14_method, scope3_cat_14_relevancy,
      scope3_cat_15_method, scope3_cat_15_relevancy,
-     organizational_boundary, verification_status)
+     organizational_boundary, verification_status,
+     revenue, revenue_currency, employee_count)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
-            ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+            ?, ?, ?)
   `);
   
   for (const e of emissions) {
@@ -262,11 +323,41 @@ function insertEmissions(db: Database.Database, emissions: any[]): void {
       e.scope3_cat_13_method, e.scope3_cat_13_relevancy,
       e.scope3_cat_14_method, e.scope3_cat_14_relevancy,
       e.scope3_cat_15_method, e.scope3_cat_15_relevancy,
-      e.organizational_boundary, e.verification_status
+      e.organizational_boundary, e.verification_status,
+      e.revenue, e.revenue_currency, e.employee_count
     );
   }
 }
 
+// Insert targets into database
+function insertTargets(db: Database.Database, targets: any[]): void {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO targets
+    (nz_id, reported_year, target_id, target_type, target_scope, base_year, target_year,
+     target_percentage, target_absolute, sbti_status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  for (const t of targets) {
+    insert.run(
+      t.nz_id, t.reported_year, t.target_id, t.target_type, t.target_scope,
+      t.base_year, t.target_year, t.target_percentage, t.target_absolute, t.sbti_status
+    );
+  }
+}
+
+// Store the latest reported denominators on the companies table (profile display)
+function updateCompanyProfiles(db: Database.Database, profiles: any[]): void {
+  const update = db.prepare(`
+    UPDATE companies SET revenue = ?, revenue_currency = ?, employee_count = ?
+    WHERE nz_id = ?
+  `);
+  
+  for (const p of profiles) {
+    update.run(p.revenue, p.revenue_currency, p.employee_count, p.nz_id);
+  }
+}
+
 // Main build function
 async function buildDatabase(): Promise<void> {
   console.log('🚀 NZDPU Database Builder');
@@ -298,6 +389,7 @@ async function buildDatabase(): Promise<void> {
   const batchSize = 50; // Process 50 companies at a time
   let processedCompanies = 0;
   let totalEmissions = 0;
+  let totalTargets = 0;
   
   for (let i = 0; i < companies.length; i += batchSize) {
     const batch = companies.slice(i, i + batchSize);
@@ -309,14 +401,21 @@ async function buildDatabase(): Promise<void> {
     
     const batchResults = await Promise.all(batchPromises);
     
-    // Insert all emissions from this batch
-    const allEmissions = batchResults.flat();
+    // Insert all emissions and targets from this batch
+    const allEmissions = batchResults.flatMap(r => r.emissions);
+    const allTargets = batchResults.flatMap(r => r.targets);
+    const allProfiles = batchResults
+      .map(r => r.profile)
+      .filter(p => p.revenue !== null || p.employee_count !== null);
     if (allEmissions.length > 0) {
-      const insertBatch = db.transaction((emissions: any[]) => {
+      const insertBatch = db.transaction((emissions: any[], targets: any[], profiles: any[]) => {
         insertEmissions(db, emissions);
+        insertTargets(db, targets);
+        updateCompanyProfiles(db, profiles);
       });
-      insertBatch(allEmissions);
+      insertBatch(allEmissions, allTargets, allProfiles);
       totalEmissions += allEmissions.length;
+      totalTargets += allTargets.length;
     }
     
     processedCompanies += batch.length;
@@ -324,12 +423,19 @@ async function buildDatabase(): Promise<void> {
   }
   
   console.log(`\n✓ Inserted ${totalEmissions} emissions records`);
+  console.log(`✓ Inserted ${totalTargets} target rows (one per target per disclosure year)`);
+  
+  // Build LEI / ISIN / ticker crosswalk from local files (optional)
+  console.log('\n🔗 Loading identifier crosswalk...');
+  const identifiers = await loadIdentifiers(db);
+  console.log(`✓ Loaded ${identifiers.leiFromCompanies + identifiers.leiFromNameMatch} LEIs, ${identifiers.isins} ISINs, ${identifiers.tickers} tickers`);
   
   // Update metadata
   console.log('\n📝 Updating metadata...');
   db.prepare(`INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)`).run('build_date', new Date().toISOString());
   db.prepare(`INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)`).run('company_count', String(companies.length));
   db.prepare(`INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)`).run('emissions_count', String(totalEmissions));
+  db.prepare(`INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)`).run('targets_count', String(totalTargets));
   db.prepare(`INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)`).run('source', 'NZDPU API');
   
   // Optimize database
@@ -346,6 +452,7 @@ async function buildDatabase(): Promise<void> {
   console.log('========================');
   console.log(`   Companies: ${companies.length.toLocaleString()}`);
   console.log(`   Emissions records: ${totalEmissions.toLocaleString()}`);
+  console.log(`   Target rows: ${totalTargets.toLocaleString()}`);
   console.log(`   Time elapsed: ${elapsed} minutes`);
   console.log(`   Database file: ${DB_PATH}`);
 }
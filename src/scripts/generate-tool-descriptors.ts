@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/**
+ * Generate Tool Descriptors
+ *
+ * Writes the `arguments` of tools/*.json from the zod input schemas in
+ * src/validation/inputs.ts, the same source as the inputSchema served over MCP.
+ * The name and description of existing descriptors are kept.
+ *
+ * Usage: npm run generate-tools            (rewrite tools/*.json)
+ *        npm run generate-tools -- --check (exit 1 if any descriptor is out of date)
+ */
+
+import path from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { TOOL_INPUTS, toInputSchema, type ToolName } from '../validation/inputs.js';
+
+const TOOLS_DIR = path.join(process.cwd(), 'tools');
+
+// JSON with arrays of primitives kept on one line, matching the hand-written descriptors
+function formatJson(value: unknown, indent = ''): string {
+  const next = indent + '  ';
+  if (Array.isArray(value)) {
+    if (value.every(v => v === null || typeof v !== 'object')) {
+      return `[${value.map(v => JSON.stringify(v)).join(', ')}]`;
+    }
+    return `[\n${value.map(v => next + formatJson(v, next)).join(',\n')}\n${indent}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    return `{\n${entries.map(([k, v]) => `${next}${JSON.stringify(k)}: ${formatJson(v, next)}`).join(',\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function main(): void {
+  const check = process.argv.includes('--check');
+  const stale: string[] = [];
+
+  for (const name of Object.keys(TOOL_INPUTS) as ToolName[]) {
+    const file = path.join(TOOLS_DIR, `${name}.json`);
+    const existing = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {};
+    const descriptor = {
+      name,
+      description: existing.description || '',
+      arguments: toInputSchema(name),
+    };
+    const content = formatJson(descriptor) + '\n';
+
+    if (existsSync(file) && readFileSync(file, 'utf8') === content) continue;
+    stale.push(name);
+    if (!check) {
+      writeFileSync(file, content);
+      console.log(`Wrote tools/${name}.json`);
+    }
+  }
+
+  if (check && stale.length > 0) {
+    console.error(`Out of date: ${stale.map(n => `tools/${n}.json`).join(', ')}. Run npm run generate-tools.`);
+    process.exit(1);
+  }
+  if (stale.length === 0) console.log('Tool descriptors are up to date.');
+}
+
+main();
@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+/**
+ * Load Identifiers Script
+ *
+ * Builds the company_identifiers crosswalk (LEI / ISIN / ticker) from local files:
+ * - GLEIF-style LEI file: CSV with `LEI` and `Entity.LegalName` columns
+ * - ISIN mapping file: CSV with `LEI` and `ISIN` columns, plus an optional `Ticker` column
+ *
+ * Usage: npm run load-identifiers -- [--lei-file path] [--isin-file path]
+ *
+ * Defaults to data/gleif-lei.csv and data/isin-lei.csv; missing files are skipped.
+ * Runs automatically at the end of `npm run build-db`. No API key is required.
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import { createReadStream, existsSync } from 'fs';
+import { createInterface } from 'readline';
+import { initializeDatabase } from '../db/schema.js';
+
+export const DEFAULT_LEI_FILE = path.join(process.cwd(), 'data', 'gleif-lei.csv');
+export const DEFAULT_ISIN_FILE = path.join(process.cwd(), 'data', 'isin-lei.csv');
+
+export interface IdentifierLoadResult {
+  leiFromCompanies: number;
+  leiFromNameMatch: number;
+  isins: number;
+  tickers: number;
+}
+
+// Split one CSV line, honouring double-quoted fields
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+// Stream a CSV file row by row (GLEIF golden copy files are too large to read at once)
+async function forEachCsvRow(
+  filePath: string,
+  onRow: (row: Record<string, string>) => void
+): Promise<void> {
+  const lines = createInterface({ input: createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+  let headers: string[] | null = null;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const fields = parseCsvLine(line);
+    if (!headers) {
+      headers = fields.map(h => h.replace(/^\uFEFF/, '').trim());
+      continue;
+    }
+    const row: Record<string, string> = {};
+    headers.forEach((h, i) => row[h] = (fields[i] || '').trim());
+    onRow(row);
+  }
+}
+
+// Normalise a legal name for exact matching between GLEIF and NZDPU names
+function normalizeLegalName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Rebuild the company_identifiers table from the companies table and optional local files
+ */
+export async function loadIdentifiers(
+  db: Database.Database,
+  options: { leiFile?: string; isinFile?: string } = {}
+): Promise<IdentifierLoadResult> {
+  const leiFile = options.leiFile || DEFAULT_LEI_FILE;
+  const isinFile = options.isinFile || DEFAULT_ISIN_FILE;
+  const result: IdentifierLoadResult = { leiFromCompanies: 0, leiFromNameMatch: 0, isins: 0, tickers: 0 };
+
+  db.exec('DELETE FROM company_identifiers');
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO company_identifiers (nz_id, id_type, id_value, source)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  // 1. LEIs already reported to NZDPU
+  const companies = db.prepare('SELECT nz_id, company_name, lei FROM companies').all() as
+    { nz_id: number; company_name: string; lei: string | null }[];
+  const nzIdsByLei = new Map<string, number[]>();
+  const addLei = (lei: string, nzId: number) => {
+    const ids = nzIdsByLei.get(lei) || [];
+    if (!ids.includes(nzId)) ids.push(nzId);
+    nzIdsByLei.set(lei, ids);
+  };
+
+  db.transaction(() => {
+    for (const c of companies) {
+      if (!c.lei) continue;
+      const lei = c.lei.trim().toUpperCase();
+      insert.run(c.nz_id, 'lei', lei, 'NZDPU');
+      addLei(lei, c.nz_id);
+      result.leiFromCompanies++;
+    }
+  })();
+
+  // 2. GLEIF legal names → LEIs for companies that did not report one (unique name matches only)
+  if (existsSync(leiFile)) {
+    console.log(`📥 Reading LEI file: ${leiFile}`);
+    const unmatched = new Map<string, number[]>();
+    for (const c of companies) {
+      if (c.lei) continue;
+      const key = normalizeLegalName(c.company_name);
+      unmatched.set(key, [...(unmatched.get(key) || []), c.nz_id]);
+    }
+
+    const leisByName = new Map<string, Set<string>>();
+    await forEachCsvRow(leiFile, row => {
+      const lei = (row['LEI'] || '').toUpperCase();
+      const name = row['Entity.LegalName'] || row['LegalName'] || '';
+      if (!lei || !name) return;
+      const key = normalizeLegalName(name);
+      if (!unmatched.has(key)) return;
+      const leis = leisByName.get(key) || new Set<string>();
+      leis.add(lei);
+      leisByName.set(key, leis);
+    });
+
+    db.transaction(() => {
+      for (const [key, leis] of leisByName) {
+        const nzIds = unmatched.get(key)!;
+        if (leis.size !== 1 || nzIds.length !== 1) continue;
+        const lei = Array.from(leis)[0];
+        insert.run(nzIds[0], 'lei', lei, 'GLEIF name match');
+        addLei(lei, nzIds[0]);
+        result.leiFromNameMatch++;
+      }
+    })();
+  } else {
+    console.log(`ℹ️  No LEI file at ${leiFile} - skipping GLEIF name matching`);
+  }
+
+  // 3. ISIN (and optional ticker) mapping keyed by LEI
+  if (existsSync(isinFile)) {
+    console.log(`📥 Reading ISIN mapping file: ${isinFile}`);
+    const rows: { nzIds: number[]; isin: string; ticker: string }[] = [];
+    await forEachCsvRow(isinFile, row => {
+      const nzIds = nzIdsByLei.get((row['LEI'] || '').toUpperCase());
+      if (!nzIds) return;
+      rows.push({ nzIds, isin: (row['ISIN'] || '').toUpperCase(), ticker: (row['Ticker'] || '').toUpperCase() });
+    });
+
+    db.transaction(() => {
+      for (const r of rows) {
+        for (const nzId of r.nzIds) {
+          if (r.isin && insert.run(nzId, 'isin', r.isin, 'ISIN mapping').changes > 0) result.isins++;
+          if (r.ticker && insert.run(nzId, 'ticker', r.ticker, 'ISIN mapping').changes > 0) result.tickers++;
+        }
+      }
+    })();
+  } else {
+    console.log(`ℹ️  No ISIN mapping file at ${isinFile} - skipping ISIN/ticker crosswalk`);
+  }
+
+  db.prepare(`INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)`)
+    .run('identifiers_count', String(result.leiFromCompanies + result.leiFromNameMatch + result.isins + result.tickers));
+
+  return result;
+}
+
+// Parse --lei-file / --isin-file arguments
+function parseArgs(argv: string[]): { leiFile?: string; isinFile?: string } {
+  const options: { leiFile?: string; isinFile?: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--lei-file') options.leiFile = argv[++i];
+    else if (argv[i] === '--isin-file') options.isinFile = argv[++i];
+  }
+  return options;
+}
+
+// Run standalone against an existing database
+if (require.main === module) {
+  const dbPath = path.join(process.cwd(), 'data', 'nzdpu.db');
+  if (!existsSync(dbPath)) {
+    console.error(`❌ Error: database not found at ${dbPath}. Run npm run build-db first.`);
+    process.exit(1);
+  }
+
+  const db = initializeDatabase(dbPath);
+  loadIdentifiers(db, parseArgs(process.argv.slice(2)))
+    .then(result => {
+      db.close();
+      console.log('\n✅ Identifier crosswalk loaded');
+      console.log(`   LEIs (NZDPU): ${result.leiFromCompanies.toLocaleString()}`);
+      console.log(`   LEIs (GLEIF name match): ${result.leiFromNameMatch.toLocaleString()}`);
+      console.log(`   ISINs: ${result.isins.toLocaleString()}`);
+      console.log(`   Tickers: ${result.tickers.toLocaleString()}`);
+    })
+    .catch(error => {
+      db.close();
+      console.error('\n❌ Identifier load failed:', error.message);
+      process.exit(1);
+    });
+}
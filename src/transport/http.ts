@@ -0,0 +1,357 @@
+/**
+ * HTTP transport for shared team deployments
+ *
+ * - POST/GET/DELETE /mcp      Streamable HTTP (current MCP transport)
+ * - GET /sse + POST /messages  HTTP+SSE (older clients)
+ * - GET /health               Liveness and database status (no auth)
+ *
+ * Each client session gets its own MCP Server instance; they all share the
+ * read-only SQLite database.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getDatabaseMetadata } from '../db/queries.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  tokens: string[];            // Accepted bearer tokens / API keys; empty = no auth
+  corsOrigins: string[];       // Allowed browser origins; '*' allows any
+  allowUnauthenticated: boolean;
+}
+
+export interface TransportOptions {
+  mode: TransportMode;
+  http: HttpOptions;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+const splitList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+/**
+ * Read transport settings from CLI flags, falling back to environment variables
+ *
+ * Flags: --http, --transport <stdio|http>, --host <addr>, --port <n>,
+ *        --cors-origin <origin[,origin]>, --allow-unauthenticated
+ * Env:   NZDPU_TRANSPORT, NZDPU_HTTP_HOST, NZDPU_HTTP_PORT, NZDPU_HTTP_TOKENS,
+ *        NZDPU_HTTP_CORS_ORIGINS, NZDPU_HTTP_ALLOW_UNAUTHENTICATED
+ * Tokens are only read from the environment so they do not show up in process listings.
+ */
+export function parseTransportOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const eq = arg.indexOf('=');
+    if (eq !== -1) {
+      flags.set(arg.slice(2, eq), arg.slice(eq + 1));
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      flags.set(arg.slice(2), argv[++i]);
+    } else {
+      flags.set(arg.slice(2), true);
+    }
+  }
+  const flag = (name: string): string | undefined => {
+    const value = flags.get(name);
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const transport = flags.has('http') ? 'http' : (flag('transport') || env.NZDPU_TRANSPORT || 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid transport "${transport}". Use "stdio" or "http".`);
+  }
+
+  const portValue = flag('port') || env.NZDPU_HTTP_PORT;
+  const port = portValue ? parseInt(portValue, 10) : DEFAULT_PORT;
+  if (isNaN(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${portValue}"`);
+  }
+
+  return {
+    mode: transport,
+    http: {
+      host: flag('host') || env.NZDPU_HTTP_HOST || DEFAULT_HOST,
+      port,
+      tokens: splitList(env.NZDPU_HTTP_TOKENS),
+      corsOrigins: splitList(flag('cors-origin') || env.NZDPU_HTTP_CORS_ORIGINS),
+      allowUnauthenticated: flags.has('allow-unauthenticated') || env.NZDPU_HTTP_ALLOW_UNAUTHENTICATED === 'true',
+    },
+  };
+}
+
+// ==================== REQUEST HELPERS ====================
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new Error('Parse error: request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Compare digests so token checks take the same time whatever the input
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+function isAuthorized(req: IncomingMessage, tokens: Buffer[]): boolean {
+  if (tokens.length === 0) return true;
+
+  const header = req.headers.authorization;
+  const apiKey = req.headers['x-api-key'];
+  let presented: string | undefined;
+  if (header && /^Bearer\s+/i.test(header)) presented = header.replace(/^Bearer\s+/i, '').trim();
+  else if (typeof apiKey === 'string') presented = apiKey.trim();
+  if (!presented) return false;
+
+  const candidate = digest(presented);
+  return tokens.some(token => timingSafeEqual(candidate, token));
+}
+
+/**
+ * Apply CORS headers; returns false when a browser origin is not allowed
+ * Requests without an Origin header (desktop and CLI clients) are not affected.
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse, corsOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+
+  const allowAny = corsOrigins.includes('*');
+  if (!allowAny && !corsOrigins.includes(origin)) return false;
+
+  res.setHeader('Access-Control-Allow-Origin', allowAny ? '*' : origin);
+  if (!allowAny) res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  return true;
+}
+
+function healthStatus(sessions: number): { status: number; body: Record<string, unknown> } {
+  try {
+    const metadata = getDatabaseMetadata();
+    return {
+      status: 200,
+      body: {
+        status: 'ok',
+        server: 'nzdpu-mcp-server',
+        transport: 'http',
+        sessions,
+        database: {
+          build_date: metadata.build_date || null,
+          company_count: metadata.company_count ? parseInt(metadata.company_count, 10) : null,
+        },
+      },
+    };
+  } catch (error) {
+    return {
+      status: 503,
+      body: { status: 'error', server: 'nzdpu-mcp-server', error: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+// ==================== SERVER ====================
+
+/**
+ * Serve MCP over HTTP until the process is stopped
+ */
+export async function startHttpServer(createMcpServer: () => Server, options: HttpOptions): Promise<void> {
+  if (options.tokens.length === 0 && !LOOPBACK_HOSTS.has(options.host) && !options.allowUnauthenticated) {
+    throw new Error(
+      `Refusing to serve on ${options.host} without authentication. Set NZDPU_HTTP_TOKENS, ` +
+      'bind to 127.0.0.1, or pass --allow-unauthenticated.'
+    );
+  }
+
+  const tokens = options.tokens.map(digest);
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  const lastSeen = new Map<string, number>();
+
+  // Streamable HTTP clients do not always send DELETE; drop sessions that have gone quiet
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, seen] of lastSeen) {
+      if (seen < cutoff) streamable.get(id)?.close().catch(() => undefined);
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (sessionId && streamable.has(sessionId)) lastSeen.set(sessionId, Date.now());
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      const existing = sessionId ? streamable.get(sessionId) : undefined;
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        sendRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        sendRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          streamable.set(id, transport);
+          lastSeen.set(id, Date.now());
+        },
+      });
+      // Closing the transport also closes its server (Protocol wraps onclose)
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          streamable.delete(transport.sessionId);
+          lastSeen.delete(transport.sessionId);
+        }
+      };
+      await createMcpServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const existing = sessionId ? streamable.get(sessionId) : undefined;
+      if (!existing) {
+        sendRpcError(res, sessionId ? 404 : 400, sessionId ? -32001 : -32000, sessionId ? 'Session not found' : 'Bad Request: no valid session ID provided');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    sendRpcError(res, 405, -32000, 'Method not allowed');
+  }
+
+  async function handleSse(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res);
+      sse.set(transport.sessionId, transport);
+      transport.onclose = () => { sse.delete(transport.sessionId); };
+      await createMcpServer().connect(transport);
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const transport = sse.get(url.searchParams.get('sessionId') || '');
+      if (!transport) {
+        sendRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await transport.handlePostMessage(req, res, await readJsonBody(req));
+      return;
+    }
+
+    sendRpcError(res, 405, -32000, 'Method not allowed');
+  }
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const route = async () => {
+      if (!applyCors(req, res, options.corsOrigins)) {
+        sendJson(res, 403, { error: 'Origin not allowed' });
+        return;
+      }
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      if (url.pathname === '/health') {
+        const health = healthStatus(streamable.size + sse.size);
+        sendJson(res, health.status, health.body);
+        return;
+      }
+
+      const isMcpPath = url.pathname === '/mcp' || url.pathname === '/sse' || url.pathname === '/messages';
+      if (!isMcpPath) {
+        sendJson(res, 404, { error: 'Not found. MCP endpoints: /mcp (Streamable HTTP), /sse (HTTP+SSE), /health' });
+        return;
+      }
+
+      if (!isAuthorized(req, tokens)) {
+        sendJson(res, 401, { error: 'Unauthorized: send Authorization: Bearer <token> or X-API-Key' }, {
+          'WWW-Authenticate': 'Bearer realm="nzdpu-mcp-server"',
+        });
+        return;
+      }
+
+      if (url.pathname === '/mcp') await handleStreamable(req, res);
+      else await handleSse(req, res, url);
+    };
+
+    route().catch(error => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`HTTP ${req.method} ${url.pathname} failed:`, message);
+      if (!res.headersSent) {
+        if (message.startsWith('Parse error')) sendRpcError(res, 400, -32700, message);
+        else if (message === 'Request body too large') sendRpcError(res, 413, -32000, message);
+        else sendRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  const shutdown = () => {
+    clearInterval(sweep);
+    for (const transport of [...streamable.values(), ...sse.values()]) {
+      transport.close().catch(() => undefined);
+    }
+    httpServer.close(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  const auth = options.tokens.length > 0 ? `${options.tokens.length} token(s)` : 'none';
+  const cors = options.corsOrigins.length > 0 ? options.corsOrigins.join(', ') : 'disabled';
+  console.error(`HTTP transport listening on http://${options.host}:${options.port}/mcp (SSE: /sse, health: /health; auth: ${auth}; CORS: ${cors})`);
+}
@@ -58,8 +58,8 @@ export interface Scope3Category {
 export interface EmissionsTarget {
   company_id: number;
   target_type: string;
-  target_year: number;
-  base_year: number;
+  target_year: number | null;
+  base_year: number | null;
   target_scope: string;
   target_percentage?: number;
   target_absolute?: number;
@@ -100,6 +100,15 @@ export interface PeerGroupStats {
   max: number;
   percentile25: number;
   percentile75: number;
+  // Robust and log-scale statistics for right-skewed emissions (absent for an empty group)
+  geometricMean?: number | null;   // null when any value is <= 0
+  logStdDev?: number | null;       // stdDev of ln(value)
+  trimmedMean?: number;            // 10% cut from each tail
+  winsorizedMean?: number;         // 10% of each tail clamped
+  iqr?: number;
+  deciles?: number[];              // 10th to 90th percentiles
+  medianCI?: { lower: number; upper: number; level: number; resamples: number } | null;
+  sampleWarning?: string | null;
 }
 
 export interface PeerGroupComparison {
@@ -0,0 +1,74 @@
+/**
+ * Typed tool errors
+ * Every failure is returned as an MCP isError result carrying a machine-readable code
+ */
+
+import type { APIError } from '../types/index.js';
+import { ERROR_MESSAGES } from '../knowledge/disclaimers.js';
+
+export type ToolErrorCode =
+  | 'INVALID_ARGUMENTS'
+  | 'UNKNOWN_TOOL'
+  | 'COMPANY_NOT_FOUND'
+  | 'EMISSIONS_NOT_FOUND'
+  | 'INVALID_SCOPE'
+  | 'SCOPE2_METHODOLOGY_MISMATCH'
+  | 'DATA_UNAVAILABLE'
+  | 'FILE_EXISTS'
+  | 'DATABASE_ERROR'
+  | 'INTERNAL_ERROR';
+
+export class ToolError extends Error {
+  constructor(
+    public readonly code: ToolErrorCode,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+
+  toAPIError(): APIError {
+    return { code: this.code, message: this.message, ...(this.details ? { details: this.details } : {}) };
+  }
+}
+
+// ==================== COMMON ERRORS ====================
+
+export const companyNotFound = (nzId: number) =>
+  new ToolError('COMPANY_NOT_FOUND', `${ERROR_MESSAGES.companyNotFound(nzId)} Use nzdpu_search to find companies and get their nz_id.`, { nz_id: nzId });
+
+export const emissionsNotFound = (nzId: number, year?: number) =>
+  new ToolError('EMISSIONS_NOT_FOUND', ERROR_MESSAGES.emissionsNotFound(nzId, year), { nz_id: nzId, ...(year ? { year } : {}) });
+
+export const invalidScope = (scope: string) =>
+  new ToolError('INVALID_SCOPE', ERROR_MESSAGES.invalidScope(scope), { scope });
+
+export const scope2MethodologyMismatch = () =>
+  new ToolError('SCOPE2_METHODOLOGY_MISMATCH', ERROR_MESSAGES.scope2MethodologyMismatch);
+
+/**
+ * Normalise anything thrown by a handler to the APIError shape
+ */
+export function toAPIError(error: unknown): APIError {
+  if (error instanceof ToolError) return error.toAPIError();
+  if (error instanceof Error && error.name === 'SqliteError') {
+    return { code: 'DATABASE_ERROR', message: error.message };
+  }
+  return { code: 'INTERNAL_ERROR', message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * MCP isError result: "Error [CODE]: message" in markdown, the APIError object in json
+ * No structured content, so clients do not validate the error against the tool output schema.
+ */
+export function toolErrorResult(tool: string, error: unknown, format: 'markdown' | 'json' = 'markdown') {
+  const apiError = toAPIError(error);
+  const text = format === 'json'
+    ? JSON.stringify({ tool, error: apiError }, null, 2)
+    : `Error [${apiError.code}]: ${apiError.message}`;
+  return {
+    content: [{ type: 'text' as const, text }],
+    isError: true,
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * Tool input schemas
+ * One zod schema per tool (plus per-mode requirements) is the single source for runtime
+ * validation, the inputSchema published in tools/list and the tools/*.json descriptors
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ToolError } from './errors.js';
+import { REGION_GROUP_NAMES } from '../knowledge/jurisdictions.js';
+
+// ==================== SHARED FIELDS ====================
+
+const companyId = (description: string) => z.number().int().positive().describe(description);
+const year = (description: string) => z.number().int().min(1900).max(2100).describe(description);
+const limit = (description: string) => z.number().int().min(1).describe(description);
+
+const outputFormat = z.enum(['markdown', 'json'])
+  .describe('Response format: "markdown" (default) for reading, "json" for the underlying typed objects as structured content')
+  .default('markdown');
+
+const cursor = (carried: string, prefix = '') => z.string().min(1)
+  .describe(`${prefix}next_cursor from a previous page to fetch the following rows; the cursor carries the query (${carried}), so only limit may change`)
+  .optional();
+
+const metric = (description: string) => z.enum(['absolute', 'per_revenue', 'per_employee']).describe(description);
+
+export const SCOPES = ['scope1', 'scope2_lb', 'scope2_mb', 'scope3'] as const;
+export const CATEGORY_SCOPES = Array.from({ length: 15 }, (_, i) => `scope3_cat_${i + 1}`);
+const ALL_SCOPES = [...SCOPES, ...CATEGORY_SCOPES] as [string, ...string[]];
+
+// ==================== TOOLS ====================
+
+const searchInput = z.object({
+  name: z.string().describe('Company name or alias to search. Ranked by match score; ignores accents, punctuation and legal suffixes and tolerates typos').optional(),
+  lei: z.string().describe('Legal Entity Identifier (20-character code)').optional(),
+  isin: z.string().describe('ISIN (12-character security identifier, e.g., "GB00BP6MXD84")').optional(),
+  ticker: z.string().describe('Exchange ticker (e.g., "SHEL")').optional(),
+  identifiers: z.array(z.string()).max(200)
+    .describe('Batch of mixed identifiers (nz_id, LEI, ISIN, ticker); type is detected from the format, and numbers are checked as tickers as well as nz_ids. Returns per-identifier match status.').optional(),
+  jurisdiction: z.string().describe('Country/region (e.g., "France", "United States of America", "Japan"; aliases such as "UK" or "USA" are accepted)').optional(),
+  sector: z.string().describe('SICS sector (e.g., "Extractives & Minerals Processing", "Financials")').optional(),
+  sub_sector: z.string().describe('SICS sub-sector (e.g., "Oil & Gas", "Commercial Banks")').optional(),
+  industry: z.string().describe('SICS industry (more specific than sub-sector)').optional(),
+  limit: limit('Max results to return (default: 20)').default(20),
+  cursor: cursor('name, jurisdiction, sector, sub_sector, industry'),
+  output_format: outputFormat,
+});
+
+const emissionsInput = z.object({
+  company_id: companyId('The company nz_id (get this from nzdpu_search first)'),
+  year: year('Specific reporting year (omit for all available years)').optional(),
+  output_format: outputFormat,
+});
+
+const listInput = z.object({
+  type: z.enum(['sectors', 'jurisdictions', 'subsectors'])
+    .describe('What to list: sectors (SICS sectors with counts), jurisdictions (countries with counts), or subsectors (full SICS hierarchy)'),
+  sector: z.string().describe('For subsectors: filter to a specific sector').optional(),
+  output_format: outputFormat,
+});
+
+const analyzeInput = z.object({
+  analysis: z.enum(['overview', 'top_emitters', 'disclosure', 'data_issues', 'outliers', 'year_comparison', 'change_decomposition', 'peer_trends', 'company_trend', 'time_series', 'target_progress'])
+    .describe('Type of analysis: overview (dataset stats), top_emitters (ranked by scope), disclosure (companies by history), data_issues (quality problems), outliers (implausible values vs. same industry and year), year_comparison (compare two years), change_decomposition (why a company\'s emissions changed between two years), peer_trends (time-series), company_trend (fitted trend of one company\'s emissions), time_series (every reported year of one company across all scopes and categories), target_progress (emissions vs. target pathway)'),
+  scope: z.enum(ALL_SCOPES).describe('For top_emitters/outliers/peer_trends: which scope to analyze (scope1, scope2_lb, scope2_mb, scope3, scope3_cat_1 through scope3_cat_15)').optional(),
+  year: year('Filter to specific year (optional)').optional(),
+  jurisdiction: z.string().describe('For top_emitters/peer_trends/data_issues/outliers: filter by jurisdiction (optional)').optional(),
+  sics_sector: z.string().describe('For top_emitters/peer_trends/data_issues/outliers: filter by SICS sector (optional)').optional(),
+  sics_sub_sector: z.string().describe('For top_emitters/peer_trends/data_issues/outliers: filter by SICS sub-sector (optional)').optional(),
+  sics_industry: z.string().describe('For top_emitters/outliers: filter by SICS industry (optional)').optional(),
+  rule: z.string()
+    .describe('For data_issues: only run one rule - unit_error, negative_value, category_exceeds_total, category_sum_mismatch, scope2_swapped, yoy_jump, duplicate_across_years, not_relevant_reported, round_number, scope2_identical')
+    .optional(),
+  min_disclosures: z.number().int().min(1).describe('For disclosure: minimum years of history').optional(),
+  limit: limit('Max results (default: 20)').default(20),
+  metric: metric('For top_emitters: rank by absolute tCO₂e or by intensity per USD million revenue / per employee (default: absolute)').default('absolute'),
+  company_id: companyId('For year_comparison/change_decomposition/company_trend/time_series/target_progress: company nz_id').optional(),
+  year1: year('For year_comparison/change_decomposition: first year to compare').optional(),
+  year2: year('For year_comparison/change_decomposition: second year to compare').optional(),
+  start_year: year('For peer_trends/company_trend/time_series: start year of analysis (optional, defaults to earliest)').optional(),
+  end_year: year('For peer_trends/company_trend/time_series: end year of analysis (optional, defaults to latest)').optional(),
+  cohort: z.enum(['all', 'constant'])
+    .describe('For peer_trends: all (every company reporting in each year) or constant (only companies reporting in every year of the range, with the change attributed to composition vs. like-for-like) (default: all)')
+    .default('all'),
+  cursor: cursor('scope, year, filters, metric, min_disclosures', 'For top_emitters/disclosure: '),
+  output_format: outputFormat,
+});
+
+const benchmarkInput = z.object({
+  mode: z.enum(['single', 'compare', 'peer_stats', 'pathway'])
+    .describe('Mode: single (one company vs peers), compare (side-by-side multiple companies), peer_stats (aggregate statistics), pathway (implied temperature rise vs. sector decarbonisation pathways)'),
+  company_id: companyId('For single/pathway mode: the company nz_id to benchmark').optional(),
+  company_ids: z.array(z.number().int().positive()).min(1).describe('For compare/pathway mode: list of nz_ids (pathway also aggregates them)').optional(),
+  jurisdiction: z.string().describe('Filter by jurisdiction').optional(),
+  sector: z.string().describe('Filter by SICS sector').optional(),
+  sub_sector: z.string().describe('Filter by SICS sub-sector').optional(),
+  industry: z.string().describe('For single/peer_stats: filter by SICS industry').optional(),
+  sics_level: z.enum(['sector', 'sub_sector', 'industry'])
+    .describe('For single: peers share the company\'s own SICS sector, sub-sector or industry').optional(),
+  region: z.enum(REGION_GROUP_NAMES).describe('For single/peer_stats: region group instead of a single jurisdiction').optional(),
+  size_band: z.enum(['similar', 'small', 'medium', 'large', 'very_large'])
+    .describe('For single/peer_stats: emissions size of the peers in the benchmarked scope - small (< 100k tCO₂e), medium (100k-1M), large (1M-10M), very_large (≥ 10M), or similar (single: within 10× of the company)')
+    .optional(),
+  verification: z.string().describe('For single/peer_stats: required verification (partial match, e.g. "reasonable", "limited")').optional(),
+  boundary: z.string().describe('For single/peer_stats: required organizational boundary (partial match, e.g. "operational control")').optional(),
+  peer_ids: z.array(z.number().int().positive()).min(1).max(500)
+    .describe('For single/peer_stats: explicit list of peer nz_ids (other peer criteria still apply)').optional(),
+  comparable_only: z.boolean()
+    .describe('For single/peer_stats: keep only peers with the same organizational boundary and reporting year and, for scope3 or category_share, a similar set of Scope 3 categories; exclusions are reported (default: false)')
+    .optional(),
+  scope: z.enum(ALL_SCOPES).describe('Which scope to benchmark: scope1, scope2_lb, scope2_mb, scope3, or a Scope 3 category scope3_cat_1 through scope3_cat_15 (default: scope1)').default('scope1'),
+  year: year('Specific reporting year (optional)').optional(),
+  metric: z.enum(['absolute', 'per_revenue', 'per_employee', 'category_share'])
+    .describe('For single/peer_stats: absolute tCO₂e, intensity per USD million revenue / per employee, or category_share (a scope3_cat_N scope as % of the company\'s Scope 3 total) (default: absolute)')
+    .default('absolute'),
+  coverage: z.enum(['scope1_2', 'scope1_2_3'])
+    .describe('For pathway: emissions scored - Scope 1+2 (default, also scored against sector intensity curves) or Scope 1+2+3')
+    .default('scope1_2'),
+  limit: limit('For compare: max companies; for single/peer_stats: max peer members listed (default: 20)').default(20),
+  output_format: outputFormat,
+});
+
+const qualityInput = z.object({
+  company_id: companyId('The company nz_id'),
+  year: year('Specific year (omit for latest)').optional(),
+  output_format: outputFormat,
+});
+
+const learnInput = z.object({
+  topic: z.string().min(1)
+    .describe('Topic to learn: \'concepts\' (list all), \'concept:<name>\', \'scope2\', \'scope3\', \'scope3:<number>\', \'mistakes\', \'comparability:<type>\', \'double_counting\', \'frameworks\', \'framework:<name>\', \'emission_factors\', \'base_year\', \'materiality:<category>\''),
+  summary: z.boolean().describe('Return brief summary (1-2 sentences) instead of full explanation. Good for quick reference.').optional(),
+  output_format: outputFormat,
+});
+
+const targetsInput = z.object({
+  company_id: companyId('The company nz_id (get this from nzdpu_search first)').optional(),
+  sbti_status: z.string().describe('Filter by SBTi / ambition status (partial match, e.g., "1.5", "Well-below 2")').optional(),
+  target_year: year('Filter by target year (e.g., 2030)').optional(),
+  target_type: z.enum(['absolute', 'intensity']).describe('Filter by target type').optional(),
+  jurisdiction: z.string().describe('Filter by jurisdiction').optional(),
+  sector: z.string().describe('Filter by SICS sector').optional(),
+  sub_sector: z.string().describe('Filter by SICS sub-sector').optional(),
+  limit: limit('Max results (default: 20)').default(20),
+  output_format: outputFormat,
+});
+
+const holdingInput = z.object({
+  nz_id: z.number().int().positive().describe('Company nz_id').optional(),
+  lei: z.string().describe('Legal Entity Identifier').optional(),
+  isin: z.string().describe('ISIN (requires the identifier crosswalk)').optional(),
+  name: z.string().describe('Company name (used when nz_id, LEI and ISIN are not given)').optional(),
+  position_value: z.number().positive().describe('Value of the position'),
+  evic: z.number().positive().describe('Enterprise value including cash (same currency as position_value)').optional(),
+  outstanding_amount: z.number().positive().describe('Total equity + debt, used when EVIC is not available').optional(),
+}).refine(h => Boolean(h.nz_id || h.lei || h.isin || h.name), { message: 'Each holding needs nz_id, lei, isin or name' });
+
+const portfolioInput = z.object({
+  holdings: z.array(holdingInput).min(1).describe('Portfolio holdings'),
+  year: year('Emissions year to use for all holdings (default: latest per company)').optional(),
+  scope2: z.enum(['scope2_mb', 'scope2_lb']).describe('Scope 2 method to attribute (default: scope2_mb). Methods are never mixed.').default('scope2_mb'),
+  include_scope3: z.boolean().describe('Include Scope 3 financed emissions (default: true)').default(true),
+  currency: z.string().describe('Currency label for position values (default: USD)').default('USD'),
+  output_format: outputFormat,
+});
+
+const exportInput = z.object({
+  source: z.enum(['top_emitters', 'compare', 'peer_trends']).describe('Which result set to export'),
+  path: z.string().min(1)
+    .describe('Output file path ending in .xlsx or .csv (extension added from format when missing). Resolved against NZDPU_EXPORT_DIR (default ~/nzdpu-exports); paths outside it are refused'),
+  format: z.enum(['xlsx', 'csv']).describe('File format when path has no extension (default: xlsx)').optional(),
+  overwrite: z.boolean().describe('Replace existing files (default: false)').default(false),
+  scope: z.enum(ALL_SCOPES)
+    .describe('For top_emitters/peer_trends: scope1, scope2_lb, scope2_mb, scope3, scope3_cat_1 through scope3_cat_15').optional(),
+  year: year('For top_emitters/compare: specific year (default: all years / latest per company)').optional(),
+  metric: metric('For top_emitters: rank by absolute emissions (default) or intensity').optional(),
+  company_ids: z.array(z.number().int().positive()).describe('For compare: nz_ids to compare').optional(),
+  jurisdiction: z.string().describe('Filter by jurisdiction').optional(),
+  sics_sector: z.string().describe('Filter by SICS sector').optional(),
+  sics_sub_sector: z.string().describe('Filter by SICS sub-sector').optional(),
+  sics_industry: z.string().describe('For top_emitters/compare: filter by SICS industry').optional(),
+  start_year: year('For peer_trends: start year (optional)').optional(),
+  end_year: year('For peer_trends: end year (optional)').optional(),
+  output_format: outputFormat,
+});
+
+export const TOOL_INPUTS = {
+  nzdpu_search: searchInput,
+  nzdpu_emissions: emissionsInput,
+  nzdpu_list: listInput,
+  nzdpu_analyze: analyzeInput,
+  nzdpu_benchmark: benchmarkInput,
+  nzdpu_quality: qualityInput,
+  nzdpu_learn: learnInput,
+  nzdpu_targets: targetsInput,
+  nzdpu_portfolio: portfolioInput,
+  nzdpu_export: exportInput,
+};
+
+export type ToolName = keyof typeof TOOL_INPUTS;
+
+// ==================== MODES ====================
+
+const isCategoryShare = (b: { metric?: string; scope?: string }) => b.metric !== 'category_share' || CATEGORY_SCOPES.includes(b.scope ?? '');
+const categoryShareMessage = { message: 'metric "category_share" needs a Scope 3 category scope (scope3_cat_1 through scope3_cat_15)', path: ['metric'] };
+const hasCompareFilter = (a: { company_ids?: number[]; jurisdiction?: string; sics_sector?: string; sics_sub_sector?: string; sics_industry?: string }) =>
+  Boolean(a.company_ids?.length || a.jurisdiction || a.sics_sector || a.sics_sub_sector || a.sics_industry);
+
+/**
+ * Argument that selects the mode, and the stricter schema for each mode that has requirements
+ */
+const TOOL_MODES: Partial<Record<ToolName, { key: string; schemas: Record<string, z.ZodTypeAny> }>> = {
+  nzdpu_analyze: {
+    key: 'analysis',
+    schemas: {
+      top_emitters: analyzeInput
+        .refine(a => Boolean(a.scope || a.cursor), { message: 'scope is required', path: ['scope'] }),
+      outliers: analyzeInput.required({ scope: true }),
+      year_comparison: analyzeInput.required({ company_id: true, year1: true, year2: true })
+        .refine(a => a.year1 !== a.year2, { message: 'year1 and year2 must be different', path: ['year2'] }),
+      change_decomposition: analyzeInput.required({ company_id: true, year1: true, year2: true })
+        .refine(a => a.year1 !== a.year2, { message: 'year1 and year2 must be different', path: ['year2'] }),
+      peer_trends: analyzeInput.required({ scope: true }),
+      company_trend: analyzeInput.required({ company_id: true }),
+      time_series: analyzeInput.required({ company_id: true }),
+      target_progress: analyzeInput.required({ company_id: true }),
+    },
+  },
+  nzdpu_benchmark: {
+    key: 'mode',
+    schemas: {
+      single: benchmarkInput.required({ company_id: true })
+        .refine(b => !(b.jurisdiction && b.region), { message: 'Use jurisdiction or region, not both', path: ['region'] })
+        .refine(isCategoryShare, categoryShareMessage),
+      peer_stats: benchmarkInput
+        .refine(b => Boolean(b.jurisdiction || b.region || b.sector || b.sub_sector || b.industry || b.peer_ids?.length), {
+          message: 'At least one of jurisdiction, region, sector, sub_sector, industry or peer_ids must be provided',
+          path: ['jurisdiction'],
+        })
+        .refine(b => !(b.jurisdiction && b.region), { message: 'Use jurisdiction or region, not both', path: ['region'] })
+        .refine(b => !b.sics_level && b.size_band !== 'similar', {
+          message: 'sics_level and size_band "similar" are relative to a company; use mode "single"',
+          path: ['sics_level'],
+        })
+        .refine(isCategoryShare, categoryShareMessage),
+      pathway: benchmarkInput
+        .refine(b => Boolean(b.company_id || b.company_ids?.length), { message: 'company_id or company_ids is required', path: ['company_id'] }),
+    },
+  },
+  nzdpu_export: {
+    key: 'source',
+    schemas: {
+      top_emitters: exportInput.required({ scope: true }),
+      compare: exportInput.refine(hasCompareFilter, {
+        message: 'compare export needs company_ids or at least one filter (jurisdiction, sics_sector, sics_sub_sector, sics_industry)',
+        path: ['company_ids'],
+      }),
+      peer_trends: exportInput.required({ scope: true }),
+    },
+  },
+};
+
+// ==================== VALIDATION ====================
+
+function describeIssue(issue: z.ZodIssue): string {
+  const path = issue.path.join('.') || 'arguments';
+  if (issue.code === 'invalid_type' && issue.received === 'undefined') return `${path} is required`;
+  if (issue.code === 'custom') return issue.message;
+  return `${path}: ${issue.message}`;
+}
+
+function invalidArguments(tool: string, error: z.ZodError, mode?: string): ToolError {
+  const issues = error.issues.map(issue => ({ path: issue.path.join('.'), message: describeIssue(issue) }));
+  const context = mode ? ` (${TOOL_MODES[tool as ToolName]?.key}: "${mode}")` : '';
+  return new ToolError(
+    'INVALID_ARGUMENTS',
+    `Invalid arguments for ${tool}${context}: ${issues.map(i => i.message).join('; ')}`,
+    { tool, ...(mode ? { mode } : {}), issues }
+  );
+}
+
+/**
+ * Validate tool arguments against the tool schema, then its mode schema
+ * Returns the parsed arguments with defaults applied
+ */
+export function parseToolArgs(tool: string, args: unknown): Record<string, unknown> {
+  const schema = TOOL_INPUTS[tool as ToolName];
+  if (!schema) {
+    throw new ToolError('UNKNOWN_TOOL', `Unknown tool: ${tool}. Available tools: ${Object.keys(TOOL_INPUTS).join(', ')}`, { tool });
+  }
+
+  const parsed = schema.safeParse(args ?? {});
+  if (!parsed.success) throw invalidArguments(tool, parsed.error);
+
+  const modes = TOOL_MODES[tool as ToolName];
+  const data = parsed.data as Record<string, unknown>;
+  const mode = modes ? data[modes.key] as string : undefined;
+  const modeSchema = modes && mode ? modes.schemas[mode] : undefined;
+  if (modeSchema) {
+    const strict = modeSchema.safeParse(data);
+    if (!strict.success) throw invalidArguments(tool, strict.error, mode);
+  }
+  return data;
+}
+
+/**
+ * Validate the query a pagination cursor replays
+ * Cursors come back from the client, so their filters pass the same schema as the
+ * original arguments; the mode is taken from the current call
+ */
+export function parseCursorFilters(tool: string, args: Record<string, unknown>, filters: Record<string, unknown>): Record<string, unknown> {
+  const modes = TOOL_MODES[tool as ToolName];
+  const replayed = modes ? { ...filters, [modes.key]: args[modes.key] } : filters;
+  try {
+    return parseToolArgs(tool, replayed);
+  } catch (error) {
+    if (!(error instanceof ToolError)) throw error;
+    const issues = (error.details?.issues ?? []) as { path: string; message: string }[];
+    throw new ToolError(
+      'INVALID_ARGUMENTS',
+      `Invalid cursor: its query fails validation (${issues.map(i => i.message).join('; ')}). Repeat the original request without a cursor to start again.`,
+      { tool, issues }
+    );
+  }
+}
+
+/**
+ * JSON Schema for a tool's arguments (tools/list inputSchema and tools/*.json)
+ */
+export function toInputSchema(tool: ToolName): { type: 'object'; [key: string]: unknown } {
+  return zodToJsonSchema(TOOL_INPUTS[tool], { $refStrategy: 'none' }) as { type: 'object'; [key: string]: unknown };
+}
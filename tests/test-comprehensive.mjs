@@ -6,6 +6,8 @@
 import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -22,6 +24,9 @@ const results = {
   performance: []
 };
 
+// Exports are confined to this directory
+const exportDir = mkdtempSync(join(tmpdir(), 'nzdpu-export-'));
+
 // MCP Communication
 let mcpProcess = null;
 let requestId = 0;
@@ -32,7 +37,8 @@ function startMCP() {
   return new Promise((resolve, reject) => {
     const serverPath = join(__dirname, '..', 'dist', 'index.js');
     mcpProcess = spawn('node', [serverPath], {
-      stdio: ['pipe', 'pipe', 'pipe']
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, NZDPU_EXPORT_DIR: exportDir }
     });
 
     mcpProcess.stdout.on('data', (data) => {
@@ -109,6 +115,8 @@ async function callTool(name, args = {}) {
   
   return {
     text: result?.content?.[0]?.text || '',
+    structured: result?.structuredContent,
+    isError: result?.isError === true,
     duration
   };
 }
@@ -172,7 +180,32 @@ async function testSearchTool() {
   assertContains(res.text, 'nz_id', 'Combined search');
   console.log('  ✓ Combined filter search works');
   
-  results.passed += 4;
+  // Test 5: Batch identifier resolution
+  res = await callTool('nzdpu_search', { identifiers: ['12290', 'US0000000001', '0005'] });
+  assertContains(res.text, 'Identifier Resolution', 'Batch identifiers');
+  assertContains(res.text, 'invalid', 'Invalid ISIN flagged');
+  assertContains(res.text, '| 0005 | TICKER |', 'Zero-padded numbers are tickers, not nz_ids');
+  console.log('  ✓ Batch identifier resolution works');
+  
+  // Test 6: Ranked name search ignores legal suffixes and punctuation
+  res = await callTool('nzdpu_search', { name: 'Microsoft Corp.' });
+  assertContains(res.text, 'Microsoft', 'Suffix-insensitive name search');
+  assertContains(res.text, 'Match', 'Match score column');
+  console.log('  ✓ Ranked name search works');
+  
+  // Test 7: Jurisdiction aliases resolve to the NZDPU name
+  res = await callTool('nzdpu_search', { jurisdiction: 'UK', limit: 5 });
+  assertContains(res.text, 'United Kingdom of Great Britain and Northern Ireland', 'Jurisdiction alias');
+  console.log('  ✓ Jurisdiction aliases work');
+  
+  // Test 8: A name made only of legal-form words still matches names containing it
+  res = await callTool('nzdpu_search', { name: 'Holdings', limit: 50, output_format: 'json' });
+  const holdings = res.structured.data.companies;
+  assert(holdings.length > 0, 'Legal-form-only names should fall back to a plain name search');
+  assert(holdings.every(c => /holdings/i.test(`${c.company_name} ${c.alias || ''}`)), 'Every match should contain the word');
+  console.log(`  ✓ Legal-form-only names fall back to a plain search (${holdings.length} matches)`);
+  
+  results.passed += 8;
 }
 
 async function testEmissionsTool() {
@@ -212,7 +245,16 @@ async function testEmissionsTool() {
     console.log('  ⚠ Methodology info not available for this company');
   }
   
-  results.passed += 3;
+  // Test 5: Structured JSON output
+  res = await callTool('nzdpu_emissions', { company_id: nzId, output_format: 'json' });
+  assert(res.structured?.format === 'json', 'Should return structured content in json mode');
+  assert(res.structured.data.company.nz_id === nzId, 'Structured data should carry the company row');
+  assert(Array.isArray(res.structured.data.emissions), 'Structured data should carry emissions rows');
+  assert(res.structured.disclaimers.length > 0, 'Disclaimers should be returned as a field');
+  JSON.parse(res.text);
+  console.log('  ✓ Structured JSON output works');
+  
+  results.passed += 4;
 }
 
 async function testListTool() {
@@ -267,7 +309,81 @@ async function testAnalyzeTool() {
   assertContains(res.text, 'Data Quality', 'Data issues');
   console.log('  ✓ Data issues analysis works');
   
-  results.passed += 4;
+  // Test 5: Data issues filtered to one rule and year
+  res = await callTool('nzdpu_analyze', { analysis: 'data_issues', rule: 'yoy_jump', year: 2022, output_format: 'json' });
+  const report = res.structured.data;
+  assert(report.rules.length === 1 && report.rules[0].id === 'yoy_jump', 'Only the requested rule should run');
+  assert(report.issues.every(i => i.rule === 'yoy_jump' && i.year === 2022), 'Issues should match the rule and year filters');
+  console.log('  ✓ Data issues filter by rule and year');
+  
+  // Test 6: Robust z-score outliers within industry and year
+  res = await callTool('nzdpu_analyze', { analysis: 'outliers', scope: 'scope1', output_format: 'json' });
+  const outliers = res.structured.data;
+  assert(outliers.groupsChecked >= 0 && Array.isArray(outliers.outliers), 'Outlier report shape');
+  assert(outliers.outliers.every(o => Math.abs(o.zScore) > outliers.threshold), 'Every outlier should exceed the threshold');
+  console.log(`  ✓ Outlier analysis works (${outliers.total} across ${outliers.groupsChecked} industry-years)`);
+  
+  // Test 7: Constant-cohort peer trend keeps the same companies every year
+  res = await callTool('nzdpu_analyze', { analysis: 'peer_trends', scope: 'scope1', cohort: 'constant', output_format: 'json' });
+  const trend = res.structured.data.trend;
+  assert(trend.cohort === 'constant' && trend.dataPoints.every(p => p.count === trend.cohortSize), 'Every year should cover the whole cohort');
+  if (trend.composition) {
+    const c = trend.composition;
+    assert(Math.abs(c.cohortSumChange + c.compositionSumChange - c.unbalancedSumChange) < 1e-6 * Math.max(1, Math.abs(c.unbalancedSumChange)), 'Cohort and composition should add up to the unbalanced change');
+  }
+  console.log(`  ✓ Constant-cohort peer trend works (${trend.cohortSize} companies)`);
+  
+  // Test 8: Company trend fits log-scale slopes with intervals and a significance test
+  const trendSearch = await callTool('nzdpu_search', { name: 'Shell', limit: 1 });
+  const trendId = parseInt(trendSearch.text.match(/\|\s*[^|]+\s*\|\s*(\d+)\s*\|/)?.[1] || '0');
+  res = await callTool('nzdpu_analyze', { analysis: 'company_trend', company_id: trendId, output_format: 'json' });
+  const scope1Trend = res.structured.data.companyTrend.trends.scope1;
+  if (scope1Trend) {
+    assert(scope1Trend.ols.ci.lower <= scope1Trend.ols.annualChangePercent && scope1Trend.ols.annualChangePercent <= scope1Trend.ols.ci.upper, 'OLS estimate should lie inside its interval');
+    assert(scope1Trend.mannKendall.pValue >= 0 && scope1Trend.mannKendall.pValue <= 1, 'Mann-Kendall p-value should be a probability');
+    assert(scope1Trend.mannKendall.significant || scope1Trend.direction === 'no_significant_trend', 'Direction should follow significance');
+  }
+  console.log('  ✓ Company trend works');
+  
+  // Test 9: Time series lays out every year with deltas, CAGR and change markers
+  res = await callTool('nzdpu_analyze', { analysis: 'time_series', company_id: trendId, output_format: 'json' });
+  const series = res.structured.data.timeSeries;
+  assert(series.rows.slice(0, 4).map(r => r.key).join() === 'scope1,scope2_lb,scope2_mb,scope3', 'Time series should start with the four scope rows');
+  assert(series.rows.every(r => r.values.length === series.years.length), 'Each row should have one value per reported year');
+  assert(series.rows.every(r => r.values[0].delta === null), 'The first year should have no delta');
+  assert(series.markers.every(m => series.years.slice(1).includes(m.year)), 'Markers should fall on a year after the first');
+  console.log('  ✓ Time series works');
+  
+  // Test 10: Change decomposition components add up to the reported Scope 3 change
+  if (series.years.length >= 2) {
+    const [firstYear, secondYear] = series.years;
+    res = await callTool('nzdpu_analyze', { analysis: 'change_decomposition', company_id: trendId, year1: firstYear, year2: secondYear, output_format: 'json' });
+    const { scope3 } = res.structured.data.decomposition;
+    if (scope3.delta !== null) {
+      const explained = Object.values(scope3.components).reduce((a, b) => a + b, 0);
+      assert(Math.abs(explained - scope3.delta) < 1, 'Components should sum to the Scope 3 change');
+    }
+    assert(scope3.categories.every(c => c.tierChange === null || c.methodChanged), 'Tier changes should only be reported for method changes');
+  }
+  console.log('  ✓ Change decomposition works');
+  
+  // Test 11: Intensity rankings divide by the denominator reported for the same year
+  for (const metric of ['per_employee', 'per_revenue']) {
+    res = await callTool('nzdpu_analyze', { analysis: 'top_emitters', scope: 'scope1', metric, limit: 5, output_format: 'json' });
+    for (const e of res.structured.data.emitters) {
+      const emissions = await callTool('nzdpu_emissions', { company_id: e.nz_id, year: e.year, output_format: 'json' });
+      const row = emissions.structured.data.emissions[0];
+      if (metric === 'per_employee') {
+        assert(row.employee_count > 0, `${e.company_name} ${e.year} should report its own employee count`);
+        assert(Math.abs(e.value - e.absolute_value / row.employee_count) <= 1e-9 * e.value, 'Per-employee intensity should use the same year');
+      } else {
+        assert(row.revenue > 0, `${e.company_name} ${e.year} should report its own revenue`);
+      }
+    }
+  }
+  console.log('  ✓ Intensity metrics use same-year denominators');
+  
+  results.passed += 11;
 }
 
 async function testBenchmarkTool() {
@@ -315,7 +431,12 @@ async function testBenchmarkTool() {
   assertPerformance(res.duration, 1000, 'single benchmark');
   console.log('  ✓ Single benchmark works with disclaimer');
   
-  // Test 2: Compare mode with Scope 3 coverage
+  // Test 2: Single benchmark carries the industry outlier check
+  res = await callTool('nzdpu_benchmark', { mode: 'single', company_id: nzIds[0], scope: 'scope1', output_format: 'json' });
+  assert('outlier' in res.structured.data, 'Single benchmark should include the outlier check (or null)');
+  console.log('  ✓ Single benchmark includes outlier check');
+  
+  // Test 3: Compare mode with Scope 3 coverage
   if (nzIds.length >= 2) {
     res = await callTool('nzdpu_benchmark', { 
       mode: 'compare', 
@@ -327,7 +448,7 @@ async function testBenchmarkTool() {
     console.log('  ✓ Compare mode works with S3 coverage');
   }
   
-  // Test 3: Peer stats
+  // Test 4: Peer stats
   res = await callTool('nzdpu_benchmark', { 
     mode: 'peer_stats', 
     sector: 'Financials',
@@ -338,7 +459,58 @@ async function testBenchmarkTool() {
   assertContains(res.text, 'Median', 'Should show median');
   console.log('  ✓ Peer stats works');
   
-  results.passed += 3;
+  // Test 5: Peer stats carry log-scale and robust statistics
+  res = await callTool('nzdpu_benchmark', { mode: 'peer_stats', sector: 'Financials', scope: 'scope1', output_format: 'json' });
+  const stats = res.structured.data.stats;
+  assert(stats && stats.geometricMean > 0 && stats.geometricMean <= stats.mean, 'Geometric mean should be positive and at most the arithmetic mean');
+  assert(stats.trimmedMean >= stats.min && stats.trimmedMean <= stats.max, 'Trimmed mean should lie within the range');
+  assert(Array.isArray(stats.deciles) && stats.deciles.length === 9, 'Should report nine deciles');
+  assert(stats.medianCI === null || (stats.medianCI.lower <= stats.median && stats.medianCI.upper >= stats.median),
+    'Median bootstrap interval should contain the median');
+  assert(stats.count >= 10 || typeof stats.sampleWarning === 'string', 'Small peer groups should carry a warning');
+  console.log('  ✓ Peer stats include robust statistics');
+  
+  // Test 6: Explicit peer definition reports its membership
+  res = await callTool('nzdpu_benchmark', { mode: 'single', company_id: nzIds[0], scope: 'scope1', sics_level: 'sub_sector', size_band: 'similar', output_format: 'json' });
+  const group = res.structured.data.peerGroup;
+  assert(group && group.criteria.some(c => c.startsWith('Sub-sector:')), 'Peer group should report its sub-sector criterion');
+  assert(group.members.some(m => m.nz_id === nzIds[0]), 'Peer members should include the benchmarked company');
+  assert(group.members.every(m => m.year === res.structured.data.companyYear), 'Peer members should be from the benchmark year');
+  res = await callTool('nzdpu_benchmark', { mode: 'peer_stats', sub_sector: 'Oil & Gas', region: 'G7', scope: 'scope1' });
+  assertContains(res.text, 'Peer Members', 'Peer stats should list the members used');
+  console.log('  ✓ Explicit peer definition reports membership');
+  
+  // Test 7: comparable_only drops peers with a different year or boundary and says why
+  res = await callTool('nzdpu_benchmark', { mode: 'peer_stats', sector: 'Financials', scope: 'scope1', comparable_only: true, output_format: 'json' });
+  const comparability = res.structured.data.peerGroup.comparability;
+  assert(comparability, 'comparable_only should report the comparability filter');
+  assert(res.structured.data.peerGroup.members.every(m => m.year === comparability.reference.year), 'Comparable peers should share the reference year');
+  const excludedTotal = Object.values(comparability.excluded).reduce((a, b) => a + b, 0);
+  assert(excludedTotal === comparability.excludedPeers.length, 'Exclusion counts should match the excluded peers listed');
+  console.log('  ✓ comparable_only reports exclusions');
+  
+  // Test 8: Scope 3 category benchmark as a share of Scope 3, with material categories
+  res = await callTool('nzdpu_benchmark', { mode: 'single', company_id: nzIds[0], scope: 'scope3_cat_15', metric: 'category_share', output_format: 'json' });
+  const shareResult = res.structured.data;
+  assert(shareResult.unit === '% of Scope 3', 'category_share should be reported as % of Scope 3');
+  assert(shareResult.companyValue === null || (shareResult.companyValue >= 0 && shareResult.companyValue <= 100), 'Category share should be a percentage');
+  assert(!shareResult.materialCategories || shareResult.materialCategories.categories.length > 0, 'Material categories should be listed for the sector');
+  res = await callTool('nzdpu_benchmark', { mode: 'peer_stats', sector: 'Financials', scope: 'scope1', metric: 'category_share' });
+  assert(res.isError, 'category_share should require a Scope 3 category scope');
+  console.log('  ✓ Scope 3 category benchmarks work');
+  
+  // Test 9: Pathway alignment scores each company and aggregates the list
+  res = await callTool('nzdpu_benchmark', { mode: 'pathway', company_ids: nzIds.slice(0, 3), output_format: 'json' });
+  const pathway = res.structured.data.pathway;
+  assert(pathway.version, 'Pathway results should carry the benchmark version');
+  assert(pathway.companies.every(c => c.temperature === null || (c.temperature >= 1 && c.temperature <= 5)), 'ITR should be a plausible temperature');
+  assert(pathway.aggregate.distribution.reduce((a, d) => a + d.count, 0) === pathway.aggregate.scored, 'Every scored company should fall in one band');
+  assert(res.structured.disclaimers.length > 0, 'Pathway results should carry the benchmark disclaimer');
+  res = await callTool('nzdpu_benchmark', { mode: 'pathway' });
+  assert(res.isError, 'pathway should require company_id or company_ids');
+  console.log('  ✓ Pathway alignment works');
+  
+  results.passed += 9;
 }
 
 async function testQualityTool() {
@@ -498,6 +670,238 @@ async function testAdvancedKnowledge() {
   results.passed += 11;
 }
 
+async function testTargetsTool() {
+  console.log('\n🎯 Testing nzdpu_targets...');
+  
+  // Test 1: Screening by target year
+  let res = await callTool('nzdpu_targets', { target_year: 2030, limit: 5 });
+  if (res.text.includes('no target data is available')) {
+    console.log('  ⚠ Database predates targets table, skipping');
+    return;
+  }
+  assertContains(res.text, 'Emissions Reduction Targets', 'Targets title');
+  assertContains(res.text, 'Target Data Note', 'Should include targets disclaimer');
+  console.log('  ✓ Target year screening works');
+  
+  // Test 2: Company targets alongside emissions
+  const nzIdMatch = res.text.match(/\|\s*[^|]+\s*\|\s*(\d+)\s*\|/);
+  const nzId = nzIdMatch ? parseInt(nzIdMatch[1]) : null;
+  if (nzId) {
+    res = await callTool('nzdpu_targets', { company_id: nzId });
+    assertContains(res.text, 'Declared Targets', 'Company targets table');
+    assertContains(res.text, 'Reported Emissions', 'Emissions alongside targets');
+    console.log('  ✓ Company targets work');
+    results.passed += 1;
+  }
+
+  // Test 3: Target progress status and required rate recomputed from the reported series
+  res = await callTool('nzdpu_analyze', { analysis: 'target_progress', company_id: 1, output_format: 'json' });
+  const progress = res.structured.data.progress.find(p => p.target.target_type === 'absolute' && p.target.target_scope === 'Scope 1+2');
+  if (progress) {
+    const { base_year, target_year, target_percentage } = progress.target;
+    const scope12 = async (year) => {
+      const r = await callTool('nzdpu_emissions', { company_id: 1, year, output_format: 'json' });
+      const row = r.structured.data.emissions[0];
+      return row.scope1 + row.scope2_mb;
+    };
+    const base = await scope12(base_year);
+    const latest = await scope12(progress.latestYear);
+    const target = base * (1 - target_percentage / 100);
+    const actual = (base - latest) / base * 100;
+    const required = target_percentage * Math.min(1, (progress.latestYear - base_year) / (target_year - base_year));
+    const tolerance = progress.onTrackTolerancePp;
+    const expectedStatus = latest <= target ? 'achieved'
+      : actual >= required + tolerance ? 'ahead'
+      : actual >= required - tolerance ? 'on_track'
+      : 'behind';
+    const expectedRate = expectedStatus === 'achieved' ? 0 : (1 - Math.pow(target / latest, 1 / (target_year - progress.latestYear))) * 100;
+    assert(tolerance === 2, 'On-track tolerance should be reported');
+    assert(Math.abs(progress.baseValue - base) < 1e-6 && Math.abs(progress.latestValue - latest) < 1e-6, 'Progress should use the reported Scope 1+2 (MB) series');
+    assert(progress.status === expectedStatus, `Status should be ${expectedStatus}, got ${progress.status}`);
+    assert(Math.abs(progress.requiredAnnualRate - expectedRate) < 1e-9, 'Required annual rate should be the compound rate from the latest year');
+    res = await callTool('nzdpu_analyze', { analysis: 'target_progress', company_id: 1 });
+    assertContains(res.text, `±${tolerance} percentage points`, 'Method should state the tolerance');
+    console.log(`  ✓ Target progress works (${progress.status}, ${progress.requiredAnnualRate.toFixed(1)}%/yr needed)`);
+    results.passed += 1;
+  }
+
+  results.passed += 1;
+}
+
+async function testPortfolioTool() {
+  console.log('\n💼 Testing nzdpu_portfolio...');
+  
+  const search = await callTool('nzdpu_search', { name: 'Shell', limit: 1 });
+  const nzIdMatch = search.text.match(/\|\s*[^|]+\s*\|\s*(\d+)\s*\|/);
+  const nzId = nzIdMatch ? parseInt(nzIdMatch[1]) : null;
+  
+  if (!nzId) {
+    console.log('  ⚠ Could not find company for portfolio test');
+    return;
+  }
+  
+  // Test 1: Attributed and unmatched holdings together
+  const res = await callTool('nzdpu_portfolio', {
+    holdings: [
+      { nz_id: nzId, position_value: 1000000, evic: 100000000000 },
+      { name: 'No Such Company Ltd', position_value: 500000, evic: 1000000000 },
+    ],
+  });
+  assertContains(res.text, 'Portfolio Financed Emissions', 'Portfolio title');
+  assertContains(res.text, 'WACI', 'Should show WACI');
+  assertContains(res.text, 'Not found', 'Should flag unmatched holding');
+  assertContains(res.text, 'Financed Emissions Note', 'Should include portfolio disclaimer');
+  console.log('  ✓ Portfolio attribution works');
+
+  // Test 2: Only holdings with Scope 1 and 2 attributed count as covered
+  const portfolio = (await callTool('nzdpu_portfolio', {
+    holdings: [
+      { nz_id: nzId, position_value: 1000000, evic: 100000000000 },
+      { nz_id: nzId, position_value: 3000000 },
+      { name: 'No Such Company Ltd', position_value: 500000 },
+    ],
+    output_format: 'json',
+  })).structured.data;
+  const [full, noEvic, missing] = portfolio.holdings;
+  assert(full.covered && !noEvic.covered && !missing.covered, 'Only the fully attributed holding should be covered');
+  assert(portfolio.coveredValue === 1000000 && portfolio.uncoveredValue === 3500000, 'Uncovered value should hold everything else');
+  assert(Math.abs(portfolio.carbonFootprint - (full.financedScope1 + full.financedScope2)) < 1e-9, 'Footprint should divide covered emissions by covered value');
+  console.log('  ✓ Coverage counts only fully attributed holdings');
+
+  // Test 3: A name that is not in the dataset is never attributed to a close match
+  const absent = (await callTool('nzdpu_portfolio', {
+    holdings: [{ name: 'Shellby', position_value: 1000000, evic: 100000000000 }],
+    output_format: 'json',
+  })).structured.data;
+  const [shellby] = absent.holdings;
+  assert(shellby.status !== 'matched' && shellby.company === null, 'An absent name should not be matched');
+  assert(absent.coveredValue === 0 && absent.financedScope1 === 0, 'An absent name should add no emissions');
+  console.log(`  ✓ Absent names are not matched (${shellby.status})`);
+
+  // Test 4: A holding without any identifier is rejected
+  const unidentified = await callTool('nzdpu_portfolio', { holdings: [{ position_value: 1000000 }] });
+  assert(unidentified.isError, 'A holding without an identifier should be rejected');
+  assertContains(unidentified.text, 'INVALID_ARGUMENTS', 'Should be an argument error');
+  console.log('  ✓ Holdings without an identifier are rejected');
+  
+  results.passed += 4;
+}
+
+async function testExportTool() {
+  console.log('\n📁 Testing nzdpu_export...');
+  
+  // Test 1: CSV export is not capped by limit and carries every category column
+  let res = await callTool('nzdpu_export', { source: 'top_emitters', scope: 'scope1', path: 'top.csv' });
+  assertContains(res.text, 'Export Complete', 'Export title');
+  const csv = readFileSync(join(exportDir, 'top.csv'), 'utf8');
+  const header = csv.split('\r\n')[0];
+  assertContains(header, 'scope3_cat_15_method', 'Should include all Scope 3 category methods');
+  assert(csv.split('\r\n').length > 22, 'Export should not be capped at the markdown limit');
+  assertContains(readFileSync(join(exportDir, 'top_metadata.csv'), 'utf8'), 'database_build_date', 'Metadata should carry the build date');
+  console.log('  ✓ CSV export works');
+  
+  // Test 2: XLSX export and overwrite protection
+  res = await callTool('nzdpu_export', { source: 'peer_trends', scope: 'scope1', path: 'trend.xlsx' });
+  assertContains(res.text, 'Companies', 'Should list the constituents sheet');
+  assert(readFileSync(join(exportDir, 'trend.xlsx')).subarray(0, 2).toString() === 'PK', 'XLSX should be a zip archive');
+  res = await callTool('nzdpu_export', { source: 'peer_trends', scope: 'scope1', path: 'trend.xlsx' });
+  assertContains(res.text, 'already exists', 'Should not overwrite without overwrite: true');
+  console.log('  ✓ XLSX export works');
+
+  // Test 3: Paths may not leave the export directory
+  res = await callTool('nzdpu_export', { source: 'top_emitters', scope: 'scope1', path: '../escape.csv' });
+  assertContains(res.text, 'must be inside the export directory', 'Relative escape');
+  res = await callTool('nzdpu_export', { source: 'top_emitters', scope: 'scope1', path: join(tmpdir(), 'escape.csv') });
+  assertContains(res.text, 'must be inside the export directory', 'Absolute path outside');
+  console.log('  ✓ Refuses paths outside the export directory');
+  
+  results.passed += 3;
+}
+
+async function testResources() {
+  console.log('\n🔗 Testing MCP resources...');
+  
+  // Test 1: Listing exposes the SICS hierarchy and knowledge base
+  const list = await sendRequest('resources/list', {});
+  assert(list.resources.some(r => r.uri.startsWith('nzdpu://sector/')), 'Should list sector resources');
+  assert(list.resources.some(r => r.uri === 'nzdpu://concept/scope1'), 'Should list concept resources');
+  const templates = await sendRequest('resources/templates/list', {});
+  assert(templates.resourceTemplates.some(t => t.uriTemplate === 'nzdpu://company/{nz_id}/emissions/{year}'), 'Should publish the emissions template');
+  console.log('  ✓ Resource listing works');
+  
+  // Test 2: Company, emissions and framework resources
+  const search = await callTool('nzdpu_search', { name: 'Shell', limit: 1 });
+  const nzIdMatch = search.text.match(/\|\s*[^|]+\s*\|\s*(\d+)\s*\|/);
+  if (nzIdMatch) {
+    const company = await sendRequest('resources/read', { uri: `nzdpu://company/${nzIdMatch[1]}` });
+    const profile = JSON.parse(company.contents[0].text);
+    assert(profile.company.nz_id === parseInt(nzIdMatch[1]), 'Company resource should carry the profile');
+    if (profile.emissions.length > 0) {
+      const emissions = await sendRequest('resources/read', { uri: profile.emissions[0].uri });
+      assertContains(emissions.contents[0].text, 'scope3_cat_15', 'Emissions resource should include all categories');
+    }
+  }
+  const framework = await sendRequest('resources/read', { uri: 'nzdpu://framework/IFRS%20S2' });
+  assertContains(framework.contents[0].text, 'Key Requirements', 'Framework resource');
+  console.log('  ✓ Resource reads work');
+  
+  results.passed += 2;
+}
+
+async function testPrompts() {
+  console.log('\n🧭 Testing MCP prompts...');
+  
+  // Test 1: All workflows are listed
+  const list = await sendRequest('prompts/list', {});
+  for (const name of ['company_deep_dive', 'sector_peer_review', 'portfolio_screen', 'explain_comparability']) {
+    assert(list.prompts.some(p => p.name === name), `Should list ${name} prompt`);
+  }
+  console.log('  ✓ Prompt listing works');
+  
+  // Test 2: Prompts encode the tool sequence and disclaimers
+  const portfolio = await sendRequest('prompts/get', { name: 'portfolio_screen', arguments: {} });
+  assertContains(portfolio.messages[0].content.text, 'nzdpu_portfolio', 'Portfolio prompt tool sequence');
+  assertContains(portfolio.messages[0].content.text, 'Financed Emissions Note', 'Portfolio prompt disclaimer');
+  
+  const search = await callTool('nzdpu_search', { name: 'Shell', limit: 1 });
+  const nzIdMatch = search.text.match(/\|\s*[^|]+\s*\|\s*(\d+)\s*\|/);
+  if (nzIdMatch) {
+    const deepDive = await sendRequest('prompts/get', { name: 'company_deep_dive', arguments: { nz_id: nzIdMatch[1] } });
+    assertContains(deepDive.messages[0].content.text, 'nzdpu_quality', 'Deep dive checks quality');
+    assertContains(deepDive.messages[0].content.text, 'Important Comparison Limitations', 'Deep dive carries benchmark disclaimer');
+  }
+  console.log('  ✓ Prompt messages work');
+  
+  results.passed += 2;
+}
+
+async function testCompletions() {
+  console.log('\n⌨️  Testing argument completion...');
+  
+  // Test 1: Jurisdiction aliases and substrings complete to the full name
+  let res = await sendRequest('completion/complete', {
+    ref: { type: 'ref/prompt', name: 'sector_peer_review' },
+    argument: { name: 'jurisdiction', value: 'uk' }
+  });
+  assert(res.completion.values.includes('United Kingdom of Great Britain and Northern Ireland'), 'Alias completion');
+  res = await sendRequest('completion/complete', {
+    ref: { type: 'ref/prompt', name: 'sector_peer_review' },
+    argument: { name: 'sub_sector', value: 'oil' }
+  });
+  assert(res.completion.values.includes('Oil & Gas'), 'Sub-sector completion');
+  console.log('  ✓ Prompt argument completion works');
+  
+  // Test 2: Resource template arguments
+  res = await sendRequest('completion/complete', {
+    ref: { type: 'ref/resource', uri: 'nzdpu://concept/{key}' },
+    argument: { name: 'key', value: 'scope2' }
+  });
+  assert(res.completion.values.includes('scope2_market_based'), 'Concept key completion');
+  console.log('  ✓ Resource argument completion works');
+  
+  results.passed += 2;
+}
+
 async function testPerformance() {
   console.log('\n⚡ Performance Tests...');
   
@@ -550,20 +954,66 @@ async function testPerformance() {
   }
 }
 
+async function testPagination() {
+  console.log('\n📑 Cursor Pagination Tests...');
+  
+  // Test 1: Walk every page of a listing; rows never repeat and the count matches the total
+  let args = { analysis: 'top_emitters', scope: 'scope1', limit: 50, output_format: 'json' };
+  let res = await callTool('nzdpu_analyze', args);
+  const total = res.structured.data.page.total;
+  const seen = new Set();
+  let pages = 0;
+  while (true) {
+    const { emitters, page } = res.structured.data;
+    emitters.forEach(e => seen.add(`${e.nz_id}:${e.year}`));
+    assert(page.remaining === total - page.offset - page.returned, 'Remaining should count the rows after this page');
+    if (!page.next_cursor || ++pages > 100) break;
+    res = await callTool('nzdpu_analyze', { analysis: 'top_emitters', cursor: page.next_cursor, limit: 50, output_format: 'json' });
+  }
+  assert(seen.size === total, `Walked ${seen.size} distinct rows, expected ${total}`);
+  console.log(`  ✓ Walks all ${total} top emitters without overlap`);
+  
+  // Test 2: Search pages reuse the cursor's filters and report what remains
+  res = await callTool('nzdpu_search', { jurisdiction: 'UK', limit: 2, output_format: 'json' });
+  const first = res.structured.data.page;
+  if (first.next_cursor) {
+    res = await callTool('nzdpu_search', { cursor: first.next_cursor, limit: 2 });
+    assertContains(res.text, `Showing:** 3-`, 'Second search page');
+    assertContains(res.text, 'United Kingdom', 'Cursor keeps the jurisdiction filter');
+  }
+  console.log('  ✓ Search cursor keeps filters');
+  
+  // Test 3: Cursors are tied to their listing
+  res = await callTool('nzdpu_analyze', { analysis: 'disclosure', cursor: first.next_cursor || 'invalid' });
+  assert(res.isError, 'A search cursor should be rejected by disclosure');
+  assertContains(res.text, 'Invalid cursor', 'Cursor mismatch');
+  console.log('  ✓ Rejects cursors from another listing');
+
+  // Test 4: A tampered cursor's filters are validated like direct arguments
+  res = await callTool('nzdpu_analyze', { analysis: 'top_emitters', scope: 'scope1', limit: 2, output_format: 'json' });
+  const payload = JSON.parse(Buffer.from(res.structured.data.page.next_cursor, 'base64url').toString('utf8'));
+  payload.f.scope = 'scope3_cat_1 x.y';
+  res = await callTool('nzdpu_analyze', { analysis: 'top_emitters', cursor: Buffer.from(JSON.stringify(payload)).toString('base64url') });
+  assert(res.isError, 'A tampered cursor should be rejected');
+  assertContains(res.text, 'Invalid cursor', 'Tampered cursor');
+  assert(!res.text.includes('DATABASE_ERROR'), 'Tampered cursor should not reach the database');
+  console.log('  ✓ Validates the filters a cursor carries');
+
+  results.passed += 4;
+}
+
 async function testEdgeCases() {
   console.log('\n🔧 Edge Case Tests...');
   
   // Test 1: Invalid company ID
-  try {
-    await callTool('nzdpu_emissions', { company_id: 999999999 });
-    console.log('  ⚠ Should have thrown for invalid company');
-  } catch (e) {
-    console.log('  ✓ Handles invalid company ID gracefully');
-    results.passed += 1;
-  }
+  let res = await callTool('nzdpu_emissions', { company_id: 999999999 });
+  assert(res.isError, 'Unknown company should be an error result');
+  assertContains(res.text, 'COMPANY_NOT_FOUND', 'Unknown company error code');
+  console.log('  ✓ Handles invalid company ID gracefully');
+  results.passed += 1;
   
   // Test 2: Empty search results
-  let res = await callTool('nzdpu_search', { name: 'XYZNONEXISTENT12345' });
+  res = await callTool('nzdpu_search', { name: 'XYZNONEXISTENT12345' });
   assertContains(res.text, 'No companies', 'Empty results');
   console.log('  ✓ Handles empty search results');
   results.passed += 1;
@@ -585,6 +1035,23 @@ async function testEdgeCases() {
   assertContains(res.text, 'Invalid', 'Invalid materiality');
   console.log('  ✓ Handles invalid materiality category');
   results.passed += 1;
+  
+  // Test 6: Wrong argument type is rejected before any query runs
+  res = await callTool('nzdpu_emissions', { company_id: 'abc' });
+  assert(res.isError, 'String company_id should be an error result');
+  assertContains(res.text, 'INVALID_ARGUMENTS', 'Invalid argument type');
+  assertContains(res.text, 'company_id', 'Error names the argument');
+  console.log('  ✓ Rejects wrongly typed arguments');
+  results.passed += 1;
+  
+  // Test 7: Mode-specific requirement, JSON error shape
+  res = await callTool('nzdpu_analyze', { analysis: 'top_emitters', output_format: 'json' });
+  assert(res.isError, 'top_emitters without scope should be an error result');
+  const error = JSON.parse(res.text).error;
+  assert(error.code === 'INVALID_ARGUMENTS', `Expected INVALID_ARGUMENTS, got ${error.code}`);
+  assert(error.details?.mode === 'top_emitters', 'Error details should name the mode');
+  console.log('  ✓ Enforces mode-specific required arguments with a JSON error');
+  results.passed += 1;
 }
 
 async function testEmptyResultsGuidance() {
@@ -652,6 +1119,13 @@ async function main() {
     await testQualityTool();
     await testLearnTool();
     await testAdvancedKnowledge();
+    await testTargetsTool();
+    await testPortfolioTool();
+    await testExportTool();
+    await testResources();
+    await testPrompts();
+    await testCompletions();
+    await testPagination();
     await testEdgeCases();
     await testEmptyResultsGuidance();
     await testPerformance();
@@ -662,6 +1136,7 @@ async function main() {
     results.failed += 1;
   } finally {
     stopMCP();
+    rmSync(exportDir, { recursive: true, force: true });
   }
   
   // Print summary
@@ -0,0 +1,244 @@
+/**
+ * HTTP Transport Tests for NZDPU MCP Server
+ * Starts the server with --http and checks authentication, CORS, /health and the
+ * Streamable HTTP session lifecycle
+ */
+
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Test configuration
+const PORT = 39170;
+const BASE = `http://127.0.0.1:${PORT}`;
+const TOKEN = 'test-token';
+const ALLOWED_ORIGIN = 'http://allowed.example';
+const STARTUP_TIMEOUT = 10000;
+
+// Test results tracking
+const results = {
+  passed: 0,
+  failed: 0,
+  errors: []
+};
+
+// ==================== SERVER ====================
+
+let serverProcess = null;
+
+function startServer() {
+  return new Promise((resolve, reject) => {
+    const serverPath = join(__dirname, '..', 'dist', 'index.js');
+    const env = {
+      ...process.env,
+      NZDPU_HTTP_TOKENS: TOKEN,
+      NZDPU_HTTP_CORS_ORIGINS: ALLOWED_ORIGIN,
+    };
+    delete env.NZDPU_EXPORT_DIR;
+    serverProcess = spawn('node', [serverPath, '--http', '--port', String(PORT)], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+      env
+    });
+
+    serverProcess.stderr.on('data', (data) => {
+      if (data.toString().includes('listening')) resolve();
+    });
+    serverProcess.on('error', reject);
+    serverProcess.on('exit', (code) => reject(new Error(`Server exited with code ${code}`)));
+
+    setTimeout(() => reject(new Error('Server did not start')), STARTUP_TIMEOUT);
+  });
+}
+
+function stopServer() {
+  if (serverProcess) {
+    serverProcess.kill();
+    serverProcess = null;
+  }
+}
+
+// ==================== HELPERS ====================
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// POST a JSON-RPC message to /mcp; responses may come back as JSON or as an SSE stream
+async function rpc(body, headers = {}) {
+  const res = await fetch(`${BASE}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${TOKEN}`,
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+  const text = await res.text();
+  const isStream = (res.headers.get('content-type') || '').includes('text/event-stream');
+  const message = isStream
+    ? text.split('\n').filter(line => line.startsWith('data:')).map(line => JSON.parse(line.slice(5))).pop()
+    : text ? JSON.parse(text) : undefined;
+  return { status: res.status, headers: res.headers, message };
+}
+
+const initialize = (headers = {}) => rpc({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'http-test', version: '1.0.0' }
+  }
+}, headers);
+
+async function health() {
+  const res = await fetch(`${BASE}/health`);
+  return { status: res.status, body: await res.json() };
+}
+
+// ==================== TEST SUITES ====================
+
+async function testHealth() {
+  console.log('\n💓 Testing /health...');
+
+  const res = await health();
+  assert(res.status === 200, `Health should return 200, got ${res.status}`);
+  assert(res.body.status === 'ok', 'Health should report ok');
+  assert(res.body.transport === 'http', 'Health should report the transport');
+  assert(res.body.database && 'build_date' in res.body.database, 'Health should report the database build');
+  console.log('  ✓ Health check needs no token and reports the database');
+
+  results.passed += 1;
+}
+
+async function testAuthentication() {
+  console.log('\n🔑 Testing authentication...');
+
+  // Test 1: No token
+  let res = await fetch(`${BASE}/mcp`, { method: 'POST', body: '{}' });
+  assert(res.status === 401, `Missing token should return 401, got ${res.status}`);
+  assert((res.headers.get('www-authenticate') || '').startsWith('Bearer'), '401 should carry WWW-Authenticate');
+  console.log('  ✓ Rejects requests without a token');
+
+  // Test 2: Wrong token, as bearer and as API key
+  res = await fetch(`${BASE}/mcp`, { method: 'POST', body: '{}', headers: { Authorization: 'Bearer wrong-token' } });
+  assert(res.status === 401, `Wrong bearer token should return 401, got ${res.status}`);
+  res = await fetch(`${BASE}/sse`, { headers: { 'X-API-Key': 'wrong-token' } });
+  assert(res.status === 401, `Wrong API key should return 401, got ${res.status}`);
+  console.log('  ✓ Rejects wrong tokens');
+
+  // Test 3: X-API-Key is accepted in place of a bearer token
+  const init = await initialize({ Authorization: '', 'X-API-Key': TOKEN });
+  assert(init.status === 200, `API key should be accepted, got ${init.status}`);
+  await fetch(`${BASE}/mcp`, { method: 'DELETE', headers: { 'X-API-Key': TOKEN, 'Mcp-Session-Id': init.headers.get('mcp-session-id') } });
+  console.log('  ✓ Accepts X-API-Key');
+
+  results.passed += 3;
+}
+
+async function testCors() {
+  console.log('\n🌐 Testing CORS...');
+
+  // Test 1: Preflight from an allowed origin
+  let res = await fetch(`${BASE}/mcp`, { method: 'OPTIONS', headers: { Origin: ALLOWED_ORIGIN } });
+  assert(res.status === 204, `Preflight should return 204, got ${res.status}`);
+  assert(res.headers.get('access-control-allow-origin') === ALLOWED_ORIGIN, 'Preflight should echo the allowed origin');
+  assert((res.headers.get('access-control-expose-headers') || '').includes('Mcp-Session-Id'), 'Session header should be exposed');
+  console.log('  ✓ Allowed origin passes preflight');
+
+  // Test 2: Other browser origins are refused, even with a valid token
+  res = await fetch(`${BASE}/mcp`, { method: 'POST', body: '{}', headers: { Origin: 'http://evil.example', Authorization: `Bearer ${TOKEN}` } });
+  assert(res.status === 403, `Disallowed origin should return 403, got ${res.status}`);
+  console.log('  ✓ Disallowed origin is refused');
+
+  // Test 3: Requests without an Origin header get no CORS headers
+  res = await fetch(`${BASE}/health`);
+  assert(res.headers.get('access-control-allow-origin') === null, 'Non-browser requests should not get CORS headers');
+  console.log('  ✓ Non-browser clients are unaffected');
+
+  results.passed += 3;
+}
+
+async function testSessionLifecycle() {
+  console.log('\n🔄 Testing session lifecycle...');
+
+  // Test 1: Initialize creates a session
+  const init = await initialize();
+  const sessionId = init.headers.get('mcp-session-id');
+  assert(init.status === 200, `Initialize should return 200, got ${init.status}`);
+  assert(sessionId, 'Initialize should return Mcp-Session-Id');
+  assert(init.message?.result?.serverInfo?.name === 'nzdpu-mcp-server', 'Initialize should return serverInfo');
+  assert((await health()).body.sessions === 1, 'Health should count the open session');
+  console.log('  ✓ Initialize opens a session');
+
+  // Test 2: Requests in the session; nzdpu_export is withheld without NZDPU_EXPORT_DIR
+  const session = { 'Mcp-Session-Id': sessionId };
+  await rpc({ jsonrpc: '2.0', method: 'notifications/initialized' }, session);
+  let res = await rpc({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, session);
+  const names = res.message.result.tools.map(t => t.name);
+  assert(names.includes('nzdpu_search'), 'Session should list tools');
+  assert(!names.includes('nzdpu_export'), 'nzdpu_export should not be offered over HTTP without NZDPU_EXPORT_DIR');
+  res = await rpc({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'nzdpu_export', arguments: { source: 'top_emitters', scope: 'scope1', path: 'out.csv' } } }, session);
+  assert(res.message.result.isError, 'nzdpu_export should be refused over HTTP');
+  assert(res.message.result.content[0].text.includes('NZDPU_EXPORT_DIR'), 'Refusal should name NZDPU_EXPORT_DIR');
+  console.log('  ✓ Session serves requests without nzdpu_export');
+
+  // Test 3: Requests without a session, or with an unknown one, are refused
+  res = await rpc({ jsonrpc: '2.0', id: 4, method: 'tools/list' });
+  assert(res.status === 400, `Request without a session should return 400, got ${res.status}`);
+  res = await rpc({ jsonrpc: '2.0', id: 5, method: 'tools/list' }, { 'Mcp-Session-Id': 'unknown-session' });
+  assert(res.status === 404, `Unknown session should return 404, got ${res.status}`);
+  console.log('  ✓ Refuses requests outside a session');
+
+  // Test 4: DELETE ends the session
+  const del = await fetch(`${BASE}/mcp`, { method: 'DELETE', headers: { Authorization: `Bearer ${TOKEN}`, ...session } });
+  assert(del.status === 200, `DELETE should return 200, got ${del.status}`);
+  res = await rpc({ jsonrpc: '2.0', id: 6, method: 'tools/list' }, session);
+  assert(res.status === 404, `Closed session should return 404, got ${res.status}`);
+  assert((await health()).body.sessions === 0, 'Health should drop the closed session');
+  console.log('  ✓ DELETE closes the session');
+
+  results.passed += 4;
+}
+
+// ==================== RUN ====================
+
+async function main() {
+  console.log('╔════════════════════════════════════════════════════════════╗');
+  console.log('║  NZDPU MCP Server - HTTP Transport Tests                   ║');
+  console.log('╚════════════════════════════════════════════════════════════╝');
+
+  try {
+    await startServer();
+    console.log('\n✓ Server started');
+
+    await testHealth();
+    await testAuthentication();
+    await testCors();
+    await testSessionLifecycle();
+  } catch (error) {
+    console.error('\n❌ Test suite failed:', error.message);
+    results.errors.push(error.message);
+    results.failed += 1;
+  } finally {
+    stopServer();
+  }
+
+  console.log('\n╔════════════════════════════════════════════════════════════╗');
+  console.log('║  TEST RESULTS                                              ║');
+  console.log('╚════════════════════════════════════════════════════════════╝');
+  console.log(`\n  ✅ Passed: ${results.passed}`);
+  console.log(`  ❌ Failed: ${results.failed}`);
+
+  process.exit(results.failed > 0 ? 1 : 0);
+}
+
+main();